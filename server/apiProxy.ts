@@ -0,0 +1,136 @@
+// Gamma and data-api proxy
+// Serves /api/gamma/* and /api/data/* by forwarding GET requests to the public
+// Polymarket hosts, so the browser never needs a third-party CORS proxy.
+//
+// Successful responses are cached in memory for a short TTL, and concurrent
+// requests for the same URL share one upstream fetch. The X-Proxy-Cache
+// response header says which happened: HIT, COALESCED or MISS.
+
+import type { ServerResponse } from 'http';
+import { sendJson, parseUrl, type Middleware } from './http';
+
+const DEFAULT_GAMMA_URL = 'https://gamma-api.polymarket.com';
+const DEFAULT_DATA_API_URL = 'https://data-api.polymarket.com';
+
+// Cached responses kept at most; the oldest are dropped first
+const MAX_CACHE_ENTRIES = 500;
+const UPSTREAM_TIMEOUT_MS = 15000;
+
+// VITE_GAMMA_UPSTREAM_URL and VITE_DATA_UPSTREAM_URL override the upstream hosts
+export interface ApiProxyEnv {
+  VITE_GAMMA_UPSTREAM_URL?: string;
+  VITE_DATA_UPSTREAM_URL?: string;
+  [key: string]: string | undefined;
+}
+
+interface Upstream {
+  prefix: string;
+  baseUrl: string;
+  // Cache lifetime for a path under the prefix, 0 to skip caching
+  ttlMs: (path: string) => number;
+}
+
+interface CachedResponse {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+interface CacheEntry {
+  response: CachedResponse;
+  expiresAt: number;
+}
+
+// Market listings move with prices; tags barely change; positions are per user
+// and change on every fill, so they are never cached
+const gammaTtl = (path: string) => (path.startsWith('/tags') ? 10 * 60 * 1000 : 15 * 1000);
+const dataTtl = (path: string) => (path.startsWith('/positions') ? 0 : 5 * 1000);
+
+async function fetchUpstream(url: string): Promise<CachedResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { headers: { Accept: 'application/json' }, signal: controller.signal });
+    return {
+      status: response.status,
+      contentType: response.headers.get('content-type') || 'application/json',
+      body: await response.text(),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function send(res: ServerResponse, response: CachedResponse, cacheStatus: string) {
+  res.statusCode = response.status;
+  res.setHeader('Content-Type', response.contentType);
+  res.setHeader('X-Proxy-Cache', cacheStatus);
+  res.end(response.body);
+}
+
+// Create the /api/gamma/* and /api/data/* middleware
+// Other paths, and methods other than GET, fall through to the next middleware.
+export function createApiProxy(env: ApiProxyEnv): Middleware {
+  const upstreams: Upstream[] = [
+    { prefix: '/api/gamma', baseUrl: env.VITE_GAMMA_UPSTREAM_URL || DEFAULT_GAMMA_URL, ttlMs: gammaTtl },
+    { prefix: '/api/data', baseUrl: env.VITE_DATA_UPSTREAM_URL || DEFAULT_DATA_API_URL, ttlMs: dataTtl },
+  ];
+
+  const cache = new Map<string, CacheEntry>();
+  const inFlight = new Map<string, Promise<CachedResponse>>();
+
+  const store = (key: string, response: CachedResponse, ttlMs: number) => {
+    if (ttlMs <= 0 || response.status !== 200) return;
+    cache.delete(key);
+    cache.set(key, { response, expiresAt: Date.now() + ttlMs });
+    while (cache.size > MAX_CACHE_ENTRIES) {
+      cache.delete(cache.keys().next().value!);
+    }
+  };
+
+  return async (req, res, next) => {
+    const url = parseUrl(req);
+    const upstream = upstreams.find(({ prefix }) => url.pathname.startsWith(`${prefix}/`));
+
+    if (!upstream || req.method !== 'GET') {
+      next();
+      return;
+    }
+
+    // The path is appended to the base URL, so it can't switch to another host
+    const path = url.pathname.slice(upstream.prefix.length);
+    const target = `${upstream.baseUrl}${path}${url.search}`;
+
+    const cached = cache.get(target);
+    if (cached && cached.expiresAt > Date.now()) {
+      send(res, cached.response, 'HIT');
+      return;
+    }
+    if (cached) cache.delete(target);
+
+    const pending = inFlight.get(target);
+    if (pending) {
+      try {
+        send(res, await pending, 'COALESCED');
+      } catch (error: any) {
+        sendJson(res, 502, { error: `Upstream request failed: ${error.message}` });
+      }
+      return;
+    }
+
+    console.log('[Proxy] Request:', req.method, req.url);
+
+    const request = fetchUpstream(target);
+    inFlight.set(target, request);
+    try {
+      const response = await request;
+      store(target, response, upstream.ttlMs(path));
+      send(res, response, 'MISS');
+    } catch (error: any) {
+      console.error(`[Proxy] ${target} failed:`, error);
+      sendJson(res, 502, { error: `Upstream request failed: ${error.message}` });
+    } finally {
+      inFlight.delete(target);
+    }
+  };
+}
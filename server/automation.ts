@@ -0,0 +1,305 @@
+// Headless automation runner
+// Runs conditional orders (price triggers, time triggers, OCO groups - see
+// server/conditionalOrders.ts) without a browser, so they keep working after
+// the tab is closed. Orders are built the same way as in the app: a ClobClient
+// signed by the EOA with signature type POLY_GNOSIS_SAFE and the Safe as the
+// funder. The Safe must already be deployed and approved (do this once in the
+// app). Quotes come from the public market channel.
+//
+// Every action is appended to the audit log as one JSON object per line.
+// Fired definitions are recorded in the state file so a restart never fires
+// them twice.
+//
+// Run with `npm run automation`.
+//
+// Environment:
+//   AUTOMATION_PRIVATE_KEY  - EOA private key that owns the Safe (required)
+//   AUTOMATION_SAFE_ADDRESS - Safe address that holds the funds (required)
+//   AUTOMATION_ORDERS       - definitions file (default automation.json)
+//   AUTOMATION_STATE        - state file (default <definitions>.state.json)
+//   AUTOMATION_AUDIT_LOG    - audit log (default automation-audit.log)
+//   AUTOMATION_DRY_RUN      - "1" logs the orders it would send without sending them
+//   VITE_CLOB_URL           - CLOB host override
+//   VITE_WS_URL             - market channel override
+
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { Wallet } from 'ethers';
+import WebSocket from 'ws';
+import { ClobClient, OrderType, Side, type ApiKeyCreds, type TickSize } from '@polymarket/clob-client';
+import { applyQuoteMessage, type AssetQuote } from '../src/app/priceAlerts';
+import { toGtdExpiration } from '../src/app/orderExpiry';
+import type { WebSocketMessage } from '../src/app/websocket';
+import {
+  describeTrigger,
+  isTriggerMet,
+  loadConditionalOrders,
+  watchedAssets,
+  type ConditionalOrder,
+  type PlaceAction,
+} from './conditionalOrders';
+
+const CLOB_URL = process.env.VITE_CLOB_URL || 'https://clob.polymarket.com';
+const WS_URL = process.env.VITE_WS_URL || 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+const CHAIN_ID = 137;
+// Orders are signed by the EOA and filled from the Safe, as in TradingContext
+const SIGNATURE_TYPE_POLY_GNOSIS_SAFE = 2;
+
+const ORDERS_PATH = resolve(process.env.AUTOMATION_ORDERS || 'automation.json');
+const STATE_PATH = resolve(process.env.AUTOMATION_STATE || ORDERS_PATH.replace(/\.json$/, '') + '.state.json');
+const AUDIT_PATH = resolve(process.env.AUTOMATION_AUDIT_LOG || 'automation-audit.log');
+const DRY_RUN = process.env.AUTOMATION_DRY_RUN === '1';
+
+const PING_INTERVAL_MS = 10000;
+const TIME_CHECK_INTERVAL_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+// A failed action is retried while its trigger holds, up to this many attempts
+const MAX_ACTION_ATTEMPTS = 3;
+const ACTION_RETRY_BASE_DELAY_MS = 5000;
+
+// What happened to each definition; definitions without an entry are armed
+interface OrderState {
+  status: 'fired' | 'failed' | 'disarmed';
+  at: string;
+  orderId?: string;
+  error?: string;
+}
+
+function audit(event: string, details: Record<string, unknown> = {}) {
+  const entry = { time: new Date().toISOString(), event, ...details };
+  appendFileSync(AUDIT_PATH, JSON.stringify(entry) + '\n');
+  console.log(`[Automation] ${event}`, details);
+}
+
+function loadState(): Record<string, OrderState> {
+  if (!existsSync(STATE_PATH)) return {};
+  return JSON.parse(readFileSync(STATE_PATH, 'utf8'));
+}
+
+function saveState(state: Record<string, OrderState>) {
+  if (DRY_RUN) return;
+  writeFileSync(STATE_PATH, JSON.stringify(state, null, 2));
+}
+
+async function createClient(): Promise<ClobClient> {
+  const privateKey = process.env.AUTOMATION_PRIVATE_KEY;
+  const safeAddress = process.env.AUTOMATION_SAFE_ADDRESS;
+  if (!privateKey || !safeAddress) {
+    throw new Error('AUTOMATION_PRIVATE_KEY and AUTOMATION_SAFE_ADDRESS are required');
+  }
+
+  const signer = new Wallet(privateKey);
+  // Same derivation as the app, so the runner shares its API key
+  const creds: ApiKeyCreds = await new ClobClient(CLOB_URL, CHAIN_ID, signer).createOrDeriveApiKey();
+
+  console.log('[Automation] EOA signer:', signer.address);
+  console.log('[Automation] Safe/funder:', safeAddress);
+  return new ClobClient(CLOB_URL, CHAIN_ID, signer, creds, SIGNATURE_TYPE_POLY_GNOSIS_SAFE, safeAddress);
+}
+
+// Market channel for the watched assets, reconnecting with backoff.
+// Messages are passed on one at a time (initial snapshots arrive as an array).
+function connectMarketFeed(assetIds: string[], onMessage: (msg: WebSocketMessage) => void) {
+  let attempts = 0;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  const open = () => {
+    const ws = new WebSocket(WS_URL);
+
+    ws.on('open', () => {
+      attempts = 0;
+      audit('feed_connected', { assets: assetIds.length });
+      ws.send(JSON.stringify({
+        type: 'subscribe',
+        channel: 'market',
+        assets_ids: assetIds,
+        // Also deliver best_bid_ask events
+        custom_feature_enabled: true,
+      }));
+      pingTimer = setInterval(() => ws.send('PING'), PING_INTERVAL_MS);
+    });
+
+    ws.on('message', (data) => {
+      const text = data.toString();
+      if (text === 'PONG') return;
+      try {
+        const parsed = JSON.parse(text);
+        (Array.isArray(parsed) ? parsed : [parsed]).forEach(onMessage);
+      } catch (error) {
+        console.error('[Automation] Failed to parse message:', error);
+      }
+    });
+
+    ws.on('error', (error) => {
+      console.error('[Automation] Feed error:', error.message);
+    });
+
+    ws.on('close', (code) => {
+      if (pingTimer) clearInterval(pingTimer);
+      attempts++;
+      const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** (attempts - 1));
+      audit('feed_disconnected', { code, reconnectInMs: delay });
+      setTimeout(open, delay);
+    });
+  };
+
+  open();
+}
+
+async function main() {
+  const orders = loadConditionalOrders(ORDERS_PATH);
+  const state = loadState();
+  const client = DRY_RUN ? null : await createClient();
+  const quotes = new Map<string, AssetQuote>();
+  // Definitions whose action, or an OCO partner's action, is in flight
+  const firing = new Set<string>();
+
+  // Failed attempts of armed definitions, and when the next one may run
+  const retries = new Map<string, { attempts: number; retryAt: number }>();
+
+  const isArmed = (order: ConditionalOrder) => !state[order.id] && !firing.has(order.id);
+
+  audit('start', {
+    orders: orders.length,
+    armed: orders.filter(isArmed).map(o => o.id),
+    definitions: ORDERS_PATH,
+    dryRun: DRY_RUN,
+  });
+
+  const record = (order: ConditionalOrder, entry: Omit<OrderState, 'at'>) => {
+    state[order.id] = { ...entry, at: new Date().toISOString() };
+    saveState(state);
+  };
+
+  async function place(action: PlaceAction): Promise<string> {
+    const isMarket = action.orderType === 'FOK' || action.orderType === 'FAK';
+    const options = {
+      tickSize: (action.tickSize ?? undefined) as TickSize | undefined,
+      negRisk: action.negRisk ?? undefined,
+    };
+    const side = action.side === 'BUY' ? Side.BUY : Side.SELL;
+
+    let price = action.price;
+    if (!isMarket && price === null) {
+      // Unpriced limit orders cross at the best opposite price
+      const quote = quotes.get(action.tokenId);
+      price = (action.side === 'BUY' ? quote?.ask : quote?.bid) ?? null;
+      if (!price) throw new Error(`No ${action.side === 'BUY' ? 'ask' : 'bid'} to price the order`);
+    }
+
+    const request = isMarket
+      ? { tokenId: action.tokenId, side: action.side, amount: action.amount, orderType: action.orderType, price }
+      : { tokenId: action.tokenId, side: action.side, size: action.size, orderType: action.orderType, price, postOnly: action.postOnly };
+    if (!client) {
+      audit('dry_run_order', request);
+      return 'dry-run';
+    }
+
+    const response = isMarket
+      ? await client.createAndPostMarketOrder(
+          { tokenID: action.tokenId, amount: action.amount!, side, price: price ?? undefined },
+          options,
+          action.orderType === 'FAK' ? OrderType.FAK : OrderType.FOK
+        )
+      : await client.createAndPostOrder(
+          {
+            tokenID: action.tokenId,
+            price: price!,
+            size: action.size!,
+            side,
+            expiration: action.expiresAt !== null ? toGtdExpiration(action.expiresAt) : undefined,
+          },
+          options,
+          action.orderType === 'GTD' ? OrderType.GTD : OrderType.GTC,
+          false,
+          action.postOnly
+        );
+
+    if (response?.error || response?.status === 400) {
+      throw new Error(response.error || 'Order failed');
+    }
+    audit('order_placed', { ...request, orderId: response.orderID, status: response.status });
+    return response.orderID || '';
+  }
+
+  async function fire(order: ConditionalOrder) {
+    // One-cancels-other: the rest of the group is held while the action runs,
+    // and stands down only once it succeeds
+    const partners = order.oco
+      ? orders.filter(other => other.oco === order.oco && other.id !== order.id && isArmed(other))
+      : [];
+    firing.add(order.id);
+    partners.forEach(other => firing.add(other.id));
+    audit('triggered', { id: order.id, trigger: describeTrigger(order.trigger) });
+
+    try {
+      const { action } = order;
+      if (action.type === 'place') {
+        const orderId = await place(action);
+        record(order, { status: 'fired', orderId });
+      } else {
+        const orderId = action.orderId ?? state[action.orderOf!]?.orderId;
+        if (!orderId) throw new Error(`Order "${action.orderOf}" has not placed an order`);
+        if (client) {
+          const response = await client.cancelOrder({ orderID: orderId });
+          const reason = response?.error || response?.not_canceled?.[orderId];
+          if (reason) throw new Error(typeof reason === 'string' ? reason : 'Cancel failed');
+        }
+        audit(client ? 'order_cancelled' : 'dry_run_cancel', { id: order.id, orderId });
+        record(order, { status: 'fired', orderId });
+      }
+
+      retries.delete(order.id);
+      partners.forEach(other => {
+        record(other, { status: 'disarmed' });
+        audit('oco_disarmed', { id: other.id, by: order.id, group: order.oco });
+      });
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      const attempts = (retries.get(order.id)?.attempts ?? 0) + 1;
+      if (attempts < MAX_ACTION_ATTEMPTS) {
+        // Stay armed; the trigger is checked again once the backoff has passed
+        const delay = ACTION_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+        retries.set(order.id, { attempts, retryAt: Date.now() + delay });
+        audit('action_failed', { id: order.id, error: message, attempt: attempts, retryInMs: delay });
+      } else {
+        retries.delete(order.id);
+        audit('action_failed', { id: order.id, error: message, attempt: attempts });
+        record(order, { status: 'failed', error: message });
+      }
+    } finally {
+      firing.delete(order.id);
+      partners.forEach(other => firing.delete(other.id));
+    }
+  }
+
+  const check = () => {
+    const now = Date.now();
+    orders.forEach(order => {
+      const backingOff = (retries.get(order.id)?.retryAt ?? 0) > now;
+      if (isArmed(order) && !backingOff && isTriggerMet(order.trigger, quotes, now)) fire(order);
+    });
+  };
+
+  const assets = watchedAssets(orders);
+  assets.forEach(assetId => quotes.set(assetId, { bid: null, ask: null, last: null }));
+  if (assets.length > 0) {
+    connectMarketFeed(assets, (msg) => {
+      if (applyQuoteMessage(quotes, msg).length > 0) check();
+    });
+  }
+
+  // Time triggers, and anything already due at startup
+  setInterval(check, TIME_CHECK_INTERVAL_MS);
+  check();
+
+  process.on('SIGINT', () => {
+    audit('stop', { signal: 'SIGINT' });
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  audit('fatal', { error: error?.message || String(error) });
+  process.exit(1);
+});
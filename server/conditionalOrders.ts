@@ -0,0 +1,236 @@
+// Conditional order definitions for the headless automation runner
+// (server/automation.ts). Definitions are read from a JSON file:
+//
+//   {
+//     "orders": [
+//       {
+//         "id": "yes-take-profit",
+//         "oco": "yes-exit",
+//         "trigger": { "type": "price", "assetId": "<token id>", "direction": "above", "price": 0.7, "source": "bid" },
+//         "action": { "type": "place", "tokenId": "<token id>", "side": "SELL", "size": 50 }
+//       },
+//       {
+//         "id": "yes-stop-loss",
+//         "oco": "yes-exit",
+//         "trigger": { "type": "price", "assetId": "<token id>", "direction": "below", "price": 0.4, "source": "bid" },
+//         "action": { "type": "place", "tokenId": "<token id>", "side": "SELL", "amount": 50, "orderType": "FAK" }
+//       },
+//       {
+//         "id": "cancel-before-close",
+//         "trigger": { "type": "time", "at": "2026-11-03T12:00:00Z" },
+//         "action": { "type": "cancel", "orderId": "0x..." }
+//       }
+//     ]
+//   }
+//
+// Triggers:
+//   price - fires when the token's price rises to (above) or falls to (below)
+//           `price`. `source` is the best bid, best ask, last trade or the
+//           displayed price (midpoint, or last trade on wide spreads; default).
+//   time  - fires once `at` (ISO 8601) has passed.
+// Actions:
+//   place  - limit order (GTC/GTD, `size` in shares, `price` optional: omitted
+//            means the best opposite price when it fires) or market order
+//            (FOK/FAK, `amount` in USDC for BUY and shares for SELL).
+//   cancel - cancels `orderId`, or the order placed by definition `orderOf`.
+// Each definition fires at most once. Definitions sharing an `oco` group are
+// one-cancels-other: the first to fire successfully disarms the rest.
+// A failed action (rejected order, failed cancel, network error) leaves the
+// definition armed and is retried with backoff (5s, then 10s) while its
+// trigger still holds. After the third failure it is recorded as failed and
+// never retried; delete its entry from the state file to re-arm it. Retry
+// counts are not persisted, so a restart starts them over.
+
+import { readFileSync } from 'fs';
+import { quotePrice, type AssetQuote } from '../src/app/priceAlerts';
+
+export type PriceSource = 'bid' | 'ask' | 'last' | 'price';
+
+export interface PriceTrigger {
+  type: 'price';
+  assetId: string;
+  direction: 'above' | 'below';
+  price: number;
+  source: PriceSource;
+}
+
+export interface TimeTrigger {
+  type: 'time';
+  // ms
+  at: number;
+}
+
+export type Trigger = PriceTrigger | TimeTrigger;
+
+export interface PlaceAction {
+  type: 'place';
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  orderType: 'GTC' | 'GTD' | 'FOK' | 'FAK';
+  // Limit orders: shares, and a price (null = best opposite price when fired)
+  size: number | null;
+  price: number | null;
+  // Market orders: USDC for BUY, shares for SELL
+  amount: number | null;
+  // GTD orders (ms)
+  expiresAt: number | null;
+  postOnly: boolean;
+  // Optional overrides; the client looks them up otherwise
+  tickSize: string | null;
+  negRisk: boolean | null;
+}
+
+export interface CancelAction {
+  type: 'cancel';
+  orderId: string | null;
+  // ID of the definition whose placed order should be cancelled
+  orderOf: string | null;
+}
+
+export type Action = PlaceAction | CancelAction;
+
+export interface ConditionalOrder {
+  id: string;
+  oco: string | null;
+  trigger: Trigger;
+  action: Action;
+}
+
+// Tolerance for float error in prices like 0.52 - 0.50
+const EPSILON = 1e-6;
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && value > 0 && value < 1;
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+function parseTime(value: unknown): number {
+  const time = typeof value === 'number' ? value : Date.parse(String(value));
+  return Number.isFinite(time) ? time : NaN;
+}
+
+function parseTrigger(raw: any, where: string): Trigger {
+  if (raw?.type === 'price') {
+    if (!raw.assetId) throw new Error(`${where}: price trigger needs an assetId`);
+    if (raw.direction !== 'above' && raw.direction !== 'below') {
+      throw new Error(`${where}: price trigger direction must be "above" or "below"`);
+    }
+    if (!isPrice(raw.price)) throw new Error(`${where}: price trigger price must be between 0 and 1`);
+    const source = raw.source ?? 'price';
+    if (!['bid', 'ask', 'last', 'price'].includes(source)) {
+      throw new Error(`${where}: price trigger source must be bid, ask, last or price`);
+    }
+    return { type: 'price', assetId: String(raw.assetId), direction: raw.direction, price: raw.price, source };
+  }
+  if (raw?.type === 'time') {
+    const at = parseTime(raw.at);
+    if (Number.isNaN(at)) throw new Error(`${where}: time trigger needs a valid "at" time`);
+    return { type: 'time', at };
+  }
+  throw new Error(`${where}: trigger type must be "price" or "time"`);
+}
+
+function parseAction(raw: any, where: string): Action {
+  if (raw?.type === 'place') {
+    if (!raw.tokenId) throw new Error(`${where}: place action needs a tokenId`);
+    if (raw.side !== 'BUY' && raw.side !== 'SELL') throw new Error(`${where}: side must be BUY or SELL`);
+    const orderType = raw.orderType ?? 'GTC';
+    if (!['GTC', 'GTD', 'FOK', 'FAK'].includes(orderType)) {
+      throw new Error(`${where}: orderType must be GTC, GTD, FOK or FAK`);
+    }
+    const isMarket = orderType === 'FOK' || orderType === 'FAK';
+    if (isMarket && !isPositive(raw.amount)) throw new Error(`${where}: market orders need a positive amount`);
+    if (!isMarket && !isPositive(raw.size)) throw new Error(`${where}: limit orders need a positive size`);
+    if (raw.price !== undefined && !isPrice(raw.price)) throw new Error(`${where}: price must be between 0 and 1`);
+    const expiresAt = orderType === 'GTD' ? parseTime(raw.expiresAt) : null;
+    if (Number.isNaN(expiresAt)) throw new Error(`${where}: GTD orders need a valid expiresAt`);
+    return {
+      type: 'place',
+      tokenId: String(raw.tokenId),
+      side: raw.side,
+      orderType,
+      size: isMarket ? null : raw.size,
+      price: raw.price ?? null,
+      amount: isMarket ? raw.amount : null,
+      expiresAt,
+      postOnly: raw.postOnly === true,
+      tickSize: raw.tickSize != null ? String(raw.tickSize) : null,
+      negRisk: typeof raw.negRisk === 'boolean' ? raw.negRisk : null,
+    };
+  }
+  if (raw?.type === 'cancel') {
+    if (!raw.orderId === !raw.orderOf) throw new Error(`${where}: cancel action needs either orderId or orderOf`);
+    return { type: 'cancel', orderId: raw.orderId ?? null, orderOf: raw.orderOf ?? null };
+  }
+  throw new Error(`${where}: action type must be "place" or "cancel"`);
+}
+
+// Read and validate a definitions file. Throws with the offending entry on bad input.
+export function loadConditionalOrders(path: string): ConditionalOrder[] {
+  const parsed = JSON.parse(readFileSync(path, 'utf8'));
+  const entries: any[] = Array.isArray(parsed) ? parsed : parsed?.orders;
+  if (!Array.isArray(entries)) throw new Error(`${path}: expected an "orders" array`);
+
+  const orders = entries.map((raw, index) => {
+    const where = `orders[${index}]${raw?.id ? ` (${raw.id})` : ''}`;
+    if (!raw?.id || typeof raw.id !== 'string') throw new Error(`${where}: every order needs a string id`);
+    return {
+      id: raw.id,
+      oco: raw.oco ? String(raw.oco) : null,
+      trigger: parseTrigger(raw.trigger, where),
+      action: parseAction(raw.action, where),
+    };
+  });
+
+  const ids = new Set<string>();
+  orders.forEach(order => {
+    if (ids.has(order.id)) throw new Error(`Duplicate order id "${order.id}"`);
+    ids.add(order.id);
+  });
+  orders.forEach(order => {
+    if (order.action.type === 'cancel' && order.action.orderOf && !ids.has(order.action.orderOf)) {
+      throw new Error(`${order.id}: orderOf refers to unknown order "${order.action.orderOf}"`);
+    }
+  });
+  return orders;
+}
+
+// Token IDs whose quotes the runner needs: price triggers, and limit orders
+// priced from the book when they fire
+export function watchedAssets(orders: ConditionalOrder[]): string[] {
+  const assets = new Set<string>();
+  orders.forEach(({ trigger, action }) => {
+    if (trigger.type === 'price') assets.add(trigger.assetId);
+    if (action.type === 'place' && action.size !== null && action.price === null) assets.add(action.tokenId);
+  });
+  return [...assets];
+}
+
+export function quoteValue(quote: AssetQuote, source: PriceSource): number | null {
+  switch (source) {
+    case 'bid':
+      return quote.bid;
+    case 'ask':
+      return quote.ask;
+    case 'last':
+      return quote.last;
+    case 'price':
+      return quotePrice(quote);
+  }
+}
+
+export function isTriggerMet(trigger: Trigger, quotes: Map<string, AssetQuote>, now: number): boolean {
+  if (trigger.type === 'time') return now >= trigger.at;
+
+  const quote = quotes.get(trigger.assetId);
+  const value = quote ? quoteValue(quote, trigger.source) : null;
+  if (value === null || !(value > 0)) return false;
+  return trigger.direction === 'above'
+    ? value >= trigger.price - EPSILON
+    : value <= trigger.price + EPSILON;
+}
+
+// e.g. "bid rises to 0.7", "at 2026-11-03T12:00:00.000Z"
+export function describeTrigger(trigger: Trigger): string {
+  if (trigger.type === 'time') return `at ${new Date(trigger.at).toISOString()}`;
+  return `${trigger.source} ${trigger.direction === 'above' ? 'rises to' : 'falls to'} ${trigger.price}`;
+}
@@ -0,0 +1,30 @@
+// Shared HTTP helpers for the Node-side API handlers
+// Handlers are plain connect-style middleware so they can be mounted both on
+// the Vite dev/preview server and on the standalone production server.
+
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export type NextFunction = (error?: unknown) => void;
+
+export type Middleware = (req: IncomingMessage, res: ServerResponse, next: NextFunction) => void | Promise<void>;
+
+// Read the full request body as a string
+export async function readBody(req: IncomingMessage): Promise<string> {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body;
+}
+
+// Send a JSON value (objects are serialized, strings are passed through as-is)
+export function sendJson(res: ServerResponse, status: number, payload: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(typeof payload === 'string' ? payload : JSON.stringify(payload));
+}
+
+// Parse the request URL (path + query) relative to the request host
+export function parseUrl(req: IncomingMessage): URL {
+  return new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+}
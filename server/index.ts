@@ -0,0 +1,104 @@
+// Standalone production server
+// Serves the built app from dist/ and mounts the same API handlers as the
+// Vite dev server. Run `npm run build` first, then `npm run serve`.
+//
+// Environment (read from .env files like `vite build` does; exported
+// variables take precedence):
+//   PORT                     - listen port (default 3000)
+//   VITE_BACKEND             - "mock" serves fixtures instead of proxying Gamma, data-api and the relayer
+//   VITE_RELAYER_URL         - relayer host override
+//   VITE_GAMMA_UPSTREAM_URL  - Gamma host behind /api/gamma
+//   VITE_DATA_UPSTREAM_URL   - data-api host behind /api/data
+//   VITE_BUILDER_API_KEY     - builder credentials used to sign relayer requests
+//   VITE_BUILDER_SECRET
+//   VITE_BUILDER_PASSPHRASE
+
+import { createServer } from 'http';
+import { readFile, stat } from 'fs/promises';
+import { extname, join, normalize, resolve, sep } from 'path';
+import { loadEnv } from 'vite';
+import { createRelayerProxy } from './relayerProxy';
+import { createApiProxy } from './apiProxy';
+import { createMockBackend } from './mockBackend';
+import { sendJson, parseUrl, type Middleware } from './http';
+
+const env = loadEnv('production', process.cwd(), '');
+const PORT = Number(env.PORT || 3000);
+const DIST_DIR = resolve(process.cwd(), 'dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+// Serve files from dist/, mapping directory paths to their index.html
+const serveStatic: Middleware = async (req, res, next) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    next();
+    return;
+  }
+
+  const { pathname } = parseUrl(req);
+  const filePath = normalize(join(DIST_DIR, decodeURIComponent(pathname)));
+
+  // Refuse anything that escapes dist/ (including siblings like dist-ssr/)
+  if (filePath !== DIST_DIR && !filePath.startsWith(DIST_DIR + sep)) {
+    sendJson(res, 403, { error: 'Forbidden' });
+    return;
+  }
+
+  try {
+    const info = await stat(filePath);
+    const target = info.isDirectory() ? join(filePath, 'index.html') : filePath;
+    const content = await readFile(target);
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', CONTENT_TYPES[extname(target)] || 'application/octet-stream');
+    res.end(req.method === 'HEAD' ? undefined : content);
+  } catch {
+    next();
+  }
+};
+
+const isMock = env.VITE_BACKEND === 'mock';
+
+const middlewares: Middleware[] = [
+  ...(isMock ? [createMockBackend()] : [createApiProxy(env), createRelayerProxy(env)]),
+  serveStatic,
+];
+
+const server = createServer((req, res) => {
+  let index = 0;
+
+  const next = (error?: unknown) => {
+    if (error) {
+      console.error('[Server] Unhandled error:', error);
+      sendJson(res, 500, { error: 'Internal server error' });
+      return;
+    }
+
+    const middleware = middlewares[index++];
+    if (!middleware) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    Promise.resolve(middleware(req, res, next)).catch(next);
+  };
+
+  next();
+});
+
+if (!isMock && (!env.VITE_BUILDER_SECRET || !env.VITE_BUILDER_API_KEY)) {
+  console.warn('[Server] Builder credentials missing - relayer requests will be rejected');
+}
+
+server.listen(PORT, () => {
+  console.log(`[Server] Listening on http://localhost:${PORT}`);
+});
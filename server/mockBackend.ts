@@ -0,0 +1,494 @@
+// Mock Polymarket backend
+// Serves Gamma markets, CLOB order books and orders, data-api positions and
+// relayer transactions from fixtures so the app can run end to end offline.
+// Enabled with VITE_BACKEND=mock (see src/config.ts for the client side).
+//
+// Routes:
+//   /mock/gamma/*  - markets (filtered, paged), events, public-search, tags, trades
+//   /mock/clob/*   - book, tick-size, neg-risk, fee-rate, time, auth, orders, trades, prices-history
+//   /mock/data/*   - positions, trades
+//   /api/safe/*    - same contract as server/relayerProxy.ts, never leaves the machine
+//
+// State (orders, relayer nonces, deployed Safes) lives in memory and resets on restart.
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import { readBody, sendJson, parseUrl, type Middleware } from './http';
+
+interface MockMarket {
+  id: string;
+  conditionId: string;
+  outcomePrices: string;
+  clobTokenIds: string;
+  negRisk: boolean;
+  orderPriceMinTickSize: number;
+  orderMinSize: number;
+  [key: string]: unknown;
+}
+
+interface MockTag {
+  id: string;
+  label: string;
+  slug: string;
+}
+
+interface MockOrder {
+  id: string;
+  status: string;
+  owner: string;
+  maker_address: string;
+  market: string;
+  asset_id: string;
+  side: 'BUY' | 'SELL';
+  original_size: string;
+  size_matched: string;
+  price: string;
+  associate_trades: string[];
+  outcome: string;
+  created_at: number;
+  expiration: string;
+  order_type: string;
+}
+
+interface MockToken {
+  market: MockMarket;
+  outcomeIndex: number;
+  price: number;
+}
+
+type RouteHandler = (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void> | void;
+
+const END_CURSOR = 'LTE=';
+const BOOK_DEPTH = 8;
+const GTD_THRESHOLD_SECONDS = 60;
+const MAX_HISTORY_POINTS = 1000;
+
+// Lookback of each prices-history interval, in seconds
+const HISTORY_SPANS: Record<string, number> = {
+  '1h': 3600,
+  '6h': 6 * 3600,
+  '1d': 86400,
+  '1w': 7 * 86400,
+  '1m': 30 * 86400,
+  max: 90 * 86400,
+};
+
+// Deterministic credentials - the secret must be base64 for the client's L2 HMAC
+const MOCK_API_CREDS = {
+  apiKey: '00000000-0000-4000-8000-000000000000',
+  secret: 'bW9jay1zZWNyZXQtZm9yLWxvY2FsLWRldg==',
+  passphrase: 'mock-passphrase',
+};
+
+function loadFixture<T>(name: string): T {
+  return JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8'));
+}
+
+function roundToTick(value: number, tick: number): number {
+  const decimals = Math.max(0, Math.round(-Math.log10(tick)));
+  return Number((Math.round(value / tick) * tick).toFixed(decimals));
+}
+
+export function createMockBackend(): Middleware {
+  const markets = loadFixture<MockMarket[]>('markets.json');
+  const positions = loadFixture<unknown[]>('positions.json');
+
+  // Index every outcome token by ID
+  const tokens = new Map<string, MockToken>();
+  for (const market of markets) {
+    const tokenIds: string[] = JSON.parse(market.clobTokenIds);
+    const prices: number[] = JSON.parse(market.outcomePrices).map(Number);
+    tokenIds.forEach((tokenId, outcomeIndex) => {
+      tokens.set(tokenId, { market, outcomeIndex, price: prices[outcomeIndex] });
+    });
+  }
+
+  const orders = new Map<string, MockOrder>();
+  const relayerTxs = new Map<string, { transactionID: string; state: string; type: string; proxyAddress: string }>();
+  const deployedSafes = new Set<string>();
+  const nonces = new Map<string, number>();
+  let orderSeq = 0;
+  let txSeq = 0;
+
+  // Build a symmetric ladder around the fixture price (best level first)
+  const buildBook = (tokenId: string, token: MockToken) => {
+    const tick = token.market.orderPriceMinTickSize;
+    const levels = (direction: 1 | -1) => Array.from({ length: BOOK_DEPTH }, (_, i) => ({
+      price: String(roundToTick(token.price + direction * tick * (i + 1), tick)),
+      size: String(100 + 37 * i),
+    })).filter(level => Number(level.price) > 0 && Number(level.price) < 1);
+
+    return {
+      market: token.market.conditionId,
+      asset_id: tokenId,
+      timestamp: String(Date.now()),
+      bids: levels(-1),
+      asks: levels(1),
+      min_order_size: String(token.market.orderMinSize),
+      tick_size: String(tick),
+      neg_risk: token.market.negRisk,
+      last_trade_price: String(token.price),
+      hash: '',
+    };
+  };
+
+  // GTD orders stop matching one minute before their expiration (the CLOB's security threshold)
+  const expireOrders = () => {
+    const now = Math.floor(Date.now() / 1000);
+    orders.forEach(order => {
+      const expiration = Number(order.expiration);
+      if (order.status === 'LIVE' && expiration > 0 && expiration - GTD_THRESHOLD_SECONDS <= now) {
+        order.status = 'EXPIRED';
+      }
+    });
+  };
+
+  const requireToken = (res: ServerResponse, url: URL): [string, MockToken] | null => {
+    const tokenId = url.searchParams.get('token_id') || '';
+    const token = tokens.get(tokenId);
+    if (!token) {
+      sendJson(res, 404, { error: `the orderbook ${tokenId} does not exist` });
+      return null;
+    }
+    return [tokenId, token];
+  };
+
+  const clobRoutes: Record<string, RouteHandler> = {
+    'GET /book': (_req, res, url) => {
+      const found = requireToken(res, url);
+      if (found) sendJson(res, 200, buildBook(...found));
+    },
+    'GET /tick-size': (_req, res, url) => {
+      const found = requireToken(res, url);
+      if (found) sendJson(res, 200, { minimum_tick_size: found[1].market.orderPriceMinTickSize });
+    },
+    'GET /neg-risk': (_req, res, url) => {
+      const found = requireToken(res, url);
+      if (found) sendJson(res, 200, { neg_risk: found[1].market.negRisk });
+    },
+    'GET /fee-rate': (_req, res) => sendJson(res, 200, { base_fee: 0 }),
+    'GET /time': (_req, res) => sendJson(res, 200, Math.floor(Date.now() / 1000)),
+    'POST /auth/api-key': (_req, res) => sendJson(res, 200, MOCK_API_CREDS),
+    'GET /auth/derive-api-key': (_req, res) => sendJson(res, 200, MOCK_API_CREDS),
+    'GET /data/orders': (_req, res, url) => {
+      expireOrders();
+      const assetId = url.searchParams.get('asset_id');
+      const data = [...orders.values()].filter(o => o.status === 'LIVE' && (!assetId || o.asset_id === assetId));
+      sendJson(res, 200, { data, next_cursor: END_CURSOR, limit: data.length, count: data.length });
+    },
+    // Matched orders, reported as trades taken by their owner
+    'GET /data/trades': (_req, res, url) => {
+      const assetId = url.searchParams.get('asset_id');
+      const data = [...orders.values()]
+        .filter(o => Number(o.size_matched) > 0 && (!assetId || o.asset_id === assetId))
+        .map(o => ({
+          id: `trade-${o.id}`,
+          taker_order_id: o.id,
+          market: o.market,
+          asset_id: o.asset_id,
+          side: o.side,
+          size: o.size_matched,
+          fee_rate_bps: '0',
+          price: o.price,
+          status: 'CONFIRMED',
+          match_time: String(o.created_at),
+          last_update: String(o.created_at),
+          outcome: o.outcome,
+          bucket_index: 0,
+          owner: o.owner,
+          maker_address: o.maker_address,
+          maker_orders: [],
+          transaction_hash: '',
+          trader_side: 'TAKER',
+        }));
+      sendJson(res, 200, { data, next_cursor: END_CURSOR, limit: data.length, count: data.length });
+    },
+    // A random walk ending at the fixture price, the same on every call for a token
+    'GET /prices-history': (_req, res, url) => {
+      const tokenId = url.searchParams.get('market') || '';
+      const token = tokens.get(tokenId);
+      if (!token) {
+        sendJson(res, 400, { error: `invalid market ${tokenId}` });
+        return;
+      }
+
+      const step = Math.max(1, Number(url.searchParams.get('fidelity') || 60)) * 60;
+      const span = HISTORY_SPANS[url.searchParams.get('interval') || 'max'] ?? HISTORY_SPANS.max;
+      const count = Math.min(MAX_HISTORY_POINTS, Math.floor(span / step));
+      const now = Math.floor(Date.now() / 1000);
+      const end = now - (now % step);
+
+      let seed = [...tokenId].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+      const random = () => {
+        seed = (seed * 1664525 + 1013904223) >>> 0;
+        return seed / 2 ** 32;
+      };
+
+      const tick = token.market.orderPriceMinTickSize;
+      const history: Array<{ t: number; p: number }> = [];
+      let price = token.price;
+      for (let i = 0; i <= count; i++) {
+        history.unshift({ t: end - i * step, p: price });
+        price = Math.min(1 - tick, Math.max(tick, roundToTick(price + (random() - 0.5) * tick * 4, tick)));
+      }
+      sendJson(res, 200, { history });
+    },
+    'POST /order': async (req, res) => {
+      const { order, owner, orderType, postOnly } = JSON.parse(await readBody(req));
+      const token = tokens.get(order.tokenId);
+      if (!token) {
+        sendJson(res, 400, { error: `the orderbook ${order.tokenId} does not exist` });
+        return;
+      }
+
+      // Amounts are in 6-decimal units; BUY pays USDC for shares, SELL the reverse
+      const maker = Number(order.makerAmount) / 1e6;
+      const taker = Number(order.takerAmount) / 1e6;
+      const size = order.side === 'BUY' ? taker : maker;
+      const price = order.side === 'BUY' ? maker / taker : taker / maker;
+
+      // Market orders (FOK/FAK) are treated as fully filled and never rest
+      const isMarketOrder = orderType === 'FOK' || orderType === 'FAK';
+
+      // Post-only orders may not take liquidity from the fixture book
+      if (postOnly && !isMarketOrder) {
+        const book = buildBook(order.tokenId, token);
+        const best = order.side === 'BUY' ? book.asks[0] : book.bids[0];
+        const limit = roundToTick(price, token.market.orderPriceMinTickSize);
+        if (best && (order.side === 'BUY' ? limit >= Number(best.price) : limit <= Number(best.price))) {
+          sendJson(res, 400, { error: 'invalid post-only order: order crosses book' });
+          return;
+        }
+      }
+
+      const id = `0xmock${(++orderSeq).toString(16).padStart(59, '0')}`;
+      orders.set(id, {
+        id,
+        status: isMarketOrder ? 'MATCHED' : 'LIVE',
+        owner,
+        maker_address: order.maker,
+        market: token.market.conditionId,
+        asset_id: order.tokenId,
+        side: order.side,
+        original_size: String(size),
+        size_matched: isMarketOrder ? String(size) : '0',
+        price: String(roundToTick(price, token.market.orderPriceMinTickSize)),
+        associate_trades: [],
+        outcome: token.outcomeIndex === 0 ? 'Yes' : 'No',
+        created_at: Math.floor(Date.now() / 1000),
+        expiration: String(order.expiration || '0'),
+        order_type: orderType || 'GTC',
+      });
+
+      sendJson(res, 200, { success: true, errorMsg: '', orderID: id, status: isMarketOrder ? 'matched' : 'live' });
+    },
+    'DELETE /order': async (req, res) => {
+      const { orderID } = JSON.parse(await readBody(req));
+      const order = orders.get(orderID);
+      if (!order || order.status !== 'LIVE') {
+        sendJson(res, 200, { canceled: [], not_canceled: { [orderID]: 'order not found' } });
+        return;
+      }
+      order.status = 'CANCELED';
+      sendJson(res, 200, { canceled: [orderID], not_canceled: {} });
+    },
+    'DELETE /cancel-all': (_req, res) => {
+      const canceled: string[] = [];
+      orders.forEach(order => {
+        if (order.status === 'LIVE') {
+          order.status = 'CANCELED';
+          canceled.push(order.id);
+        }
+      });
+      sendJson(res, 200, { canceled, not_canceled: {} });
+    },
+  };
+
+  const tagsOf = (market: MockMarket) => (market.tags as MockTag[] | undefined) || [];
+
+  // Events are assembled from the markets that reference them, like Gamma's nested `markets`
+  const groupEvents = (list: MockMarket[]) => {
+    const events = new Map<string, Record<string, unknown> & { id: string; markets: MockMarket[] }>();
+    for (const market of list) {
+      const refs = (market.events as Array<Record<string, unknown>> | undefined) || [];
+      for (const ref of refs) {
+        const id = String(ref.id);
+        const event = events.get(id) ?? { ...ref, id, negRisk: market.negRisk, tags: tagsOf(market), markets: [] };
+        event.markets.push(market);
+        events.set(id, event);
+      }
+    }
+    return [...events.values()];
+  };
+
+  const gammaRoutes: Record<string, RouteHandler> = {
+    // Supports the listing filters MarketsView sends (see src/app/marketSearch.ts)
+    // and the repeated ?id= lookup the Watchlist view refreshes with
+    'GET /markets': (_req, res, url) => {
+      const params = url.searchParams;
+      const offset = Number(params.get('offset') || 0);
+      const limit = Number(params.get('limit') || markets.length);
+      const number = (key: string) => (params.has(key) ? Number(params.get(key)) : null);
+      const time = (key: string) => (params.has(key) ? new Date(params.get(key)!).getTime() : null);
+      const ids = params.getAll('id');
+      const tagId = params.get('tag_id');
+      const minLiquidity = number('liquidity_num_min');
+      const minVolume = number('volume_num_min');
+      const endMin = time('end_date_min');
+      const endMax = time('end_date_max');
+      const order = params.get('order');
+      const ascending = params.get('ascending') === 'true';
+
+      const filtered = markets.filter(market => {
+        const endTime = new Date(String(market.endDate)).getTime();
+        if (ids.length > 0 && !ids.includes(String(market.id))) return false;
+        if (tagId && !tagsOf(market).some(tag => String(tag.id) === tagId)) return false;
+        if (minLiquidity !== null && Number(market.liquidityNum) < minLiquidity) return false;
+        if (minVolume !== null && Number(market.volumeNum) < minVolume) return false;
+        if (endMin !== null && endTime < endMin) return false;
+        if (endMax !== null && endTime > endMax) return false;
+        return true;
+      });
+      if (order) {
+        const key = (market: MockMarket) => (order.endsWith('Date') ? new Date(String(market[order])).getTime() : Number(market[order] || 0));
+        filtered.sort((a, b) => (ascending ? key(a) - key(b) : key(b) - key(a)));
+      }
+      sendJson(res, 200, filtered.slice(offset, offset + limit));
+    },
+    'GET /events': (_req, res, url) => {
+      const id = url.searchParams.get('id');
+      sendJson(res, 200, groupEvents(markets).filter(event => !id || event.id === id));
+    },
+    // Case-insensitive match on question, event title and tags; one page of events
+    'GET /public-search': (_req, res, url) => {
+      const query = (url.searchParams.get('q') || '').toLowerCase();
+      const limit = Number(url.searchParams.get('limit_per_type') || 50);
+      const page = Math.max(1, Number(url.searchParams.get('page') || 1));
+      const matching = markets.filter(market => [
+        String(market.question),
+        ...((market.events as Array<{ title?: string }> | undefined) || []).map(event => event.title || ''),
+        ...tagsOf(market).map(tag => tag.label),
+      ].some(text => text.toLowerCase().includes(query)));
+      const events = groupEvents(matching);
+      sendJson(res, 200, {
+        events: events.slice((page - 1) * limit, page * limit),
+        tags: [],
+        profiles: [],
+        pagination: { hasMore: events.length > page * limit, totalResults: events.length },
+      });
+    },
+    'GET /tags/slug/:slug': (_req, res, url) => {
+      const slug = url.pathname.split('/').pop();
+      const tag = markets.flatMap(tagsOf).find(t => t.slug === slug);
+      if (!tag) {
+        sendJson(res, 404, { error: 'tag not found' });
+        return;
+      }
+      sendJson(res, 200, tag);
+    },
+    'GET /trades': (_req, res) => sendJson(res, 200, []),
+  };
+
+  const dataRoutes: Record<string, RouteHandler> = {
+    'GET /positions': (_req, res) => sendJson(res, 200, positions),
+    // A fixed tape around the fixture prices, one trade a minute, newest first
+    'GET /trades': (_req, res, url) => {
+      const conditionId = url.searchParams.get('market');
+      const limit = Math.min(500, Number(url.searchParams.get('limit') || 100));
+      const now = Math.floor(Date.now() / 1000);
+      const marketTokens = [...tokens.entries()].filter(([, token]) => token.market.conditionId === conditionId);
+      if (marketTokens.length === 0) {
+        sendJson(res, 200, []);
+        return;
+      }
+
+      const trades = Array.from({ length: limit }, (_, i) => {
+        const [tokenId, token] = marketTokens[i % marketTokens.length];
+        const tick = token.market.orderPriceMinTickSize;
+        const offset = ((i * 7) % 5) - 2;
+        return {
+          side: i % 3 === 0 ? 'SELL' : 'BUY',
+          asset: tokenId,
+          conditionId,
+          size: 5 + ((i * 37) % 23) * (i % 11 === 0 ? 400 : 10),
+          price: roundToTick(Math.min(1 - tick, Math.max(tick, token.price + offset * tick)), tick),
+          timestamp: now - 60 * (i + 1),
+          title: token.market.question,
+          outcome: token.outcomeIndex === 0 ? 'Yes' : 'No',
+          outcomeIndex: token.outcomeIndex,
+          transactionHash: `0xmocktrade${i.toString(16).padStart(8, '0')}`,
+        };
+      });
+      sendJson(res, 200, trades);
+    },
+  };
+
+  // Relayer transactions are confirmed immediately
+  const createTx = (type: string, proxyAddress: string) => {
+    const transactionID = `mock-tx-${++txSeq}`;
+    const tx = { transactionID, state: 'STATE_CONFIRMED', type, proxyAddress };
+    relayerTxs.set(transactionID, tx);
+    return tx;
+  };
+
+  const safeRoutes: Record<string, RouteHandler> = {
+    'POST /deploy': async (req, res) => {
+      const { proxyAddress } = JSON.parse(await readBody(req));
+      deployedSafes.add(String(proxyAddress).toLowerCase());
+      sendJson(res, 200, createTx('SAFE-CREATE', proxyAddress));
+    },
+    'GET /nonce': (_req, res, url) => {
+      const address = (url.searchParams.get('address') || '').toLowerCase();
+      sendJson(res, 200, { nonce: String(nonces.get(address) || 0) });
+    },
+    'GET /deployed': (_req, res, url) => {
+      const address = (url.searchParams.get('address') || '').toLowerCase();
+      sendJson(res, 200, { deployed: deployedSafes.has(address) });
+    },
+    'POST /execute': async (req, res) => {
+      const { from, proxyWallet } = JSON.parse(await readBody(req));
+      const signer = String(from).toLowerCase();
+      nonces.set(signer, (nonces.get(signer) || 0) + 1);
+      sendJson(res, 200, createTx('SAFE', proxyWallet));
+    },
+    'GET /status': (_req, res, url) => {
+      const tx = relayerTxs.get(url.searchParams.get('txId') || '');
+      if (!tx) {
+        sendJson(res, 404, { error: 'transaction not found' });
+        return;
+      }
+      sendJson(res, 200, [tx]);
+    },
+  };
+
+  const prefixes: Array<[string, Record<string, RouteHandler>]> = [
+    ['/mock/clob', clobRoutes],
+    ['/mock/gamma', gammaRoutes],
+    ['/mock/data', dataRoutes],
+    ['/api/safe', safeRoutes],
+  ];
+
+  return async (req, res, next) => {
+    const url = parseUrl(req);
+    const match = prefixes.find(([prefix]) => url.pathname.startsWith(`${prefix}/`));
+    const path = match ? url.pathname.slice(match[0].length) : '';
+    // Exact routes first, then routes whose last segment is a parameter (e.g. /tags/slug/:slug)
+    const parent = `${req.method} ${path.slice(0, path.lastIndexOf('/') + 1)}:`;
+    const handler = match && (match[1][`${req.method} ${path}`]
+      ?? Object.entries(match[1]).find(([route]) => route.startsWith(parent) && !route.slice(parent.length).includes('/'))?.[1]);
+
+    if (!handler) {
+      next();
+      return;
+    }
+
+    console.log('[Mock] Request:', req.method, req.url);
+
+    try {
+      await handler(req, res, url);
+    } catch (error: any) {
+      console.error(`[Mock] ${url.pathname} error:`, error);
+      sendJson(res, 500, { error: error.message });
+    }
+  };
+}
@@ -0,0 +1,215 @@
+// Polymarket relayer proxy
+// Serves the /api/safe/* routes used by SafeContext (deploy, nonce, deployed,
+// execute, status). Requests that need builder credentials are signed here with
+// buildHmacSignature so the builder secret never reaches the browser.
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { buildHmacSignature } from '@polymarket/builder-signing-sdk';
+import { readBody, sendJson, parseUrl, type Middleware } from './http';
+
+const DEFAULT_RELAYER_URL = 'https://relayer-v2.polymarket.com';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Builder credentials, read from the same VITE_BUILDER_* variables as the dev server
+// VITE_RELAYER_URL overrides the relayer host
+export interface RelayerProxyEnv {
+  VITE_RELAYER_URL?: string;
+  VITE_BUILDER_API_KEY?: string;
+  VITE_BUILDER_SECRET?: string;
+  VITE_BUILDER_PASSPHRASE?: string;
+  [key: string]: string | undefined;
+}
+
+type RouteHandler = (req: IncomingMessage, res: ServerResponse, env: RelayerProxyEnv) => Promise<void>;
+
+function relayerUrl(env: RelayerProxyEnv): string {
+  return env.VITE_RELAYER_URL || DEFAULT_RELAYER_URL;
+}
+
+// Build the POLY_BUILDER_* headers for a relayer request
+// IMPORTANT: SDK uses timestamp in SECONDS, not milliseconds!
+// Note: Headers use underscores as per Polymarket docs
+function builderHeaders(env: RelayerProxyEnv, method: string, requestPath: string, body: string) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = buildHmacSignature(
+    env.VITE_BUILDER_SECRET || '',
+    timestamp,
+    method,
+    requestPath,
+    body
+  );
+
+  return {
+    'POLY_BUILDER_SIGNATURE': signature,
+    'POLY_BUILDER_TIMESTAMP': timestamp.toString(),
+    'POLY_BUILDER_API_KEY': env.VITE_BUILDER_API_KEY || '',
+    'POLY_BUILDER_PASSPHRASE': env.VITE_BUILDER_PASSPHRASE || '',
+  };
+}
+
+// Forward the relayer response status and body to the client
+async function relayResponse(res: ServerResponse, response: Response): Promise<string> {
+  const resultText = await response.text();
+  sendJson(res, response.ok ? 200 : response.status, resultText);
+  return resultText;
+}
+
+// Submit a signed payload to the relayer's /submit endpoint
+async function submit(env: RelayerProxyEnv, requestBody: string): Promise<Response> {
+  return fetch(`${relayerUrl(env)}/submit`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...builderHeaders(env, 'POST', '/submit', requestBody),
+    },
+    body: requestBody,
+  });
+}
+
+// Deploy Safe - uses /submit with SAFE-CREATE type
+const handleDeploy: RouteHandler = async (req, res, env) => {
+  const body = await readBody(req);
+  const { eoaAddress, signature, proxyAddress, safeFactoryAddress } = JSON.parse(body);
+
+  const requestBody = JSON.stringify({
+    from: eoaAddress,
+    to: safeFactoryAddress,
+    proxyWallet: proxyAddress,
+    data: '0x',
+    signature,
+    signatureParams: {
+      paymentToken: ZERO_ADDRESS,
+      payment: '0',
+      paymentReceiver: ZERO_ADDRESS,
+    },
+    type: 'SAFE-CREATE',
+  });
+
+  console.log('[API] Deploy request body:', requestBody);
+
+  const response = await submit(env, requestBody);
+  const resultText = await relayResponse(res, response);
+  console.log('[API] Deploy response:', response.status, resultText.substring(0, 500));
+};
+
+// Get nonce - needed for Safe transactions
+const handleNonce: RouteHandler = async (req, res, env) => {
+  const url = parseUrl(req);
+  const address = url.searchParams.get('address');
+  const type = url.searchParams.get('type') || 'SAFE';
+
+  if (!address) {
+    sendJson(res, 400, { error: 'Missing address parameter' });
+    return;
+  }
+
+  const response = await fetch(`${relayerUrl(env)}/nonce?address=${address}&type=${type}`);
+  const resultText = await relayResponse(res, response);
+  console.log('[API] Nonce response:', response.status, resultText);
+};
+
+// Check if Safe is deployed
+const handleDeployed: RouteHandler = async (req, res, env) => {
+  const url = parseUrl(req);
+  const address = url.searchParams.get('address');
+
+  if (!address) {
+    sendJson(res, 400, { error: 'Missing address parameter' });
+    return;
+  }
+
+  const response = await fetch(`${relayerUrl(env)}/deployed?address=${address}`);
+  const resultText = await relayResponse(res, response);
+  console.log('[API] Deployed response:', response.status, resultText);
+};
+
+// Execute transactions - uses /submit with SAFE type
+const handleExecute: RouteHandler = async (req, res, env) => {
+  const body = await readBody(req);
+  const { from, to, proxyWallet, data, nonce, signature, signatureParams, metadata } = JSON.parse(body);
+
+  // Format matches SDK's buildSafeTransactionRequest output
+  // IMPORTANT: nonce must be a STRING, not a number!
+  const requestBody = JSON.stringify({
+    from,
+    to,
+    proxyWallet,
+    data,
+    nonce: String(nonce),
+    signature,
+    signatureParams: signatureParams || {
+      gasPrice: '0',
+      operation: '0',
+      safeTxnGas: '0',
+      baseGas: '0',
+      gasToken: ZERO_ADDRESS,
+      refundReceiver: ZERO_ADDRESS,
+    },
+    type: 'SAFE',
+    metadata: metadata || '',
+  });
+
+  console.log('[API] Execute request body:', requestBody);
+
+  const response = await submit(env, requestBody);
+  const resultText = await relayResponse(res, response);
+  console.log('[API] Execute response:', response.status, resultText);
+};
+
+// Poll transaction status
+const handleStatus: RouteHandler = async (req, res, env) => {
+  const url = parseUrl(req);
+  const txId = url.searchParams.get('txId');
+
+  if (!txId) {
+    sendJson(res, 400, { error: 'Missing txId parameter' });
+    return;
+  }
+
+  // Include query string in path for HMAC signature
+  const requestPath = `/transaction?id=${txId}`;
+  const response = await fetch(`${relayerUrl(env)}${requestPath}`, {
+    headers: builderHeaders(env, 'GET', requestPath, ''),
+  });
+
+  const resultText = await relayResponse(res, response);
+  try {
+    const parsed = JSON.parse(resultText);
+    const state = Array.isArray(parsed) ? parsed[0]?.state : parsed?.state;
+    console.log('[API] Status response:', response.status, 'state:', state);
+  } catch {
+    console.log('[API] Status response:', response.status, resultText.substring(0, 200));
+  }
+};
+
+const ROUTES: Record<string, { method: string; handler: RouteHandler }> = {
+  '/api/safe/deploy': { method: 'POST', handler: handleDeploy },
+  '/api/safe/nonce': { method: 'GET', handler: handleNonce },
+  '/api/safe/deployed': { method: 'GET', handler: handleDeployed },
+  '/api/safe/execute': { method: 'POST', handler: handleExecute },
+  '/api/safe/status': { method: 'GET', handler: handleStatus },
+};
+
+// Create the /api/safe/* middleware
+// Unknown paths and methods fall through to the next middleware.
+export function createRelayerProxy(env: RelayerProxyEnv): Middleware {
+  return async (req, res, next) => {
+    const { pathname } = parseUrl(req);
+    const route = ROUTES[pathname];
+
+    if (!route || req.method !== route.method) {
+      next();
+      return;
+    }
+
+    console.log('[API] Request:', req.method, req.url);
+
+    try {
+      await route.handler(req, res, env);
+    } catch (error: any) {
+      console.error(`[API] ${pathname} error:`, error);
+      sendJson(res, 500, { error: error.message });
+    }
+  };
+}
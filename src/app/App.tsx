@@ -3,6 +3,9 @@ import { WalletProvider } from './contexts/WalletContext';
 import { SafeProvider } from './contexts/SafeContext';
 import { TradingProvider } from './contexts/TradingContext';
 import { WebSocketProvider } from './contexts/WebSocketContext';
+import { WatchlistProvider } from './contexts/WatchlistContext';
+import { AlertsProvider } from './contexts/AlertsContext';
+import { BracketsProvider } from './contexts/BracketsContext';
 import { Layout } from './components/Layout';
 import type { Chain } from 'viem';
 
@@ -57,7 +60,13 @@ export function App() {
         <SafeProvider>
           <TradingProvider>
             <WebSocketProvider>
-              <Layout />
+              <WatchlistProvider>
+                <AlertsProvider>
+                  <BracketsProvider>
+                    <Layout />
+                  </BracketsProvider>
+                </AlertsProvider>
+              </WatchlistProvider>
             </WebSocketProvider>
           </TradingProvider>
         </SafeProvider>
@@ -0,0 +1,88 @@
+// Bracket exits
+// Polymarket has no native stop orders, so take-profit and stop-loss exits are
+// triggered client-side. BracketsContext keeps the best bid of every bracketed
+// position from the market channel (best_bid_ask, price_change and book
+// snapshots) and sells through TradingContext.placeOrder when a level is
+// crossed. Triggers only run while the app is open.
+
+export type BracketLeg = 'takeProfit' | 'stopLoss';
+
+export interface Bracket {
+  // Token ID of the position; one bracket per position
+  assetId: string;
+  conditionId: string;
+  title: string;
+  outcome: string;
+  image: string;
+  negRisk: boolean;
+  // Shares to sell when a leg triggers
+  size: number;
+  // Best bid levels in dollars (0-1); either may be unset
+  takeProfit: number | null;
+  stopLoss: number | null;
+  // armed -> triggered once the exit order is sent; failed if it was rejected
+  status: 'armed' | 'triggered' | 'failed';
+  triggeredLeg: BracketLeg | null;
+  triggeredAt: number | null;
+  // Best bid that triggered the exit, which is also the sell price
+  triggerPrice: number | null;
+  orderId: string | null;
+  error: string | null;
+  createdAt: number;
+}
+
+// Fields chosen when creating or editing a bracket
+export type BracketDraft = Pick<
+  Bracket,
+  'assetId' | 'conditionId' | 'title' | 'outcome' | 'image' | 'negRisk' | 'size' | 'takeProfit' | 'stopLoss'
+>;
+
+// Tolerance for float error in prices like 0.52 - 0.50
+const EPSILON = 1e-6;
+
+// Which leg, if any, the best bid has crossed
+export function bracketLegHit(bracket: Bracket, bid: number): BracketLeg | null {
+  if (bracket.status !== 'armed' || !(bid > 0)) return null;
+  if (bracket.takeProfit !== null && bid >= bracket.takeProfit - EPSILON) return 'takeProfit';
+  if (bracket.stopLoss !== null && bid <= bracket.stopLoss + EPSILON) return 'stopLoss';
+  return null;
+}
+
+// Why a draft can't be saved, or null when it's valid. `bid` is the current
+// best bid, if known: a level that is already crossed would fire immediately.
+export function validateBracket(
+  draft: Pick<BracketDraft, 'size' | 'takeProfit' | 'stopLoss'>,
+  bid: number | null
+): string | null {
+  const { size, takeProfit, stopLoss } = draft;
+  if (takeProfit === null && stopLoss === null) return 'Set a take-profit or a stop-loss';
+  if (!(size > 0)) return 'Size must be more than 0 shares';
+  if (takeProfit !== null && !(takeProfit > 0 && takeProfit < 1)) return 'Take-profit must be between 0¢ and 100¢';
+  if (stopLoss !== null && !(stopLoss > 0 && stopLoss < 1)) return 'Stop-loss must be between 0¢ and 100¢';
+  if (takeProfit !== null && stopLoss !== null && stopLoss >= takeProfit - EPSILON) {
+    return 'Stop-loss must be below take-profit';
+  }
+  if (bid !== null && takeProfit !== null && bid >= takeProfit - EPSILON) return 'Take-profit is at or below the current bid';
+  if (bid !== null && stopLoss !== null && bid <= stopLoss + EPSILON) return 'Stop-loss is at or above the current bid';
+  return null;
+}
+
+const cents = (value: number) => `${Number((value * 100).toFixed(1))}¢`;
+
+export const LEG_LABELS: Record<BracketLeg, string> = {
+  takeProfit: 'Take-profit',
+  stopLoss: 'Stop-loss',
+};
+
+// e.g. "TP 70¢ · SL 40¢"
+export function describeBracket(bracket: Pick<Bracket, 'takeProfit' | 'stopLoss'>): string {
+  return [
+    bracket.takeProfit !== null ? `TP ${cents(bracket.takeProfit)}` : null,
+    bracket.stopLoss !== null ? `SL ${cents(bracket.stopLoss)}` : null,
+  ].filter(Boolean).join(' · ');
+}
+
+// e.g. "Stop-loss hit: selling 50 Yes @ 39¢"
+export function bracketTriggeredMessage(bracket: Bracket, leg: BracketLeg, price: number): string {
+  return `${LEG_LABELS[leg]} hit: selling ${Number(bracket.size.toFixed(2))} ${bracket.outcome} @ ${cents(price)}`;
+}
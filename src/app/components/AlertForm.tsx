@@ -0,0 +1,109 @@
+import { useState, type FormEvent } from 'react';
+import { describeAlert, type AlertKind, type PriceAlert } from '../priceAlerts';
+
+export interface AlertFormValues {
+  kind: AlertKind;
+  outcomeIndex: number;
+  threshold: number;
+  direction: 'above' | 'below';
+}
+
+interface AlertFormProps {
+  // Outcomes the alert can watch; `index` is the outcome's index in the market
+  outcomes: Array<{ index: number; label: string; price: number | null }>;
+  initial?: PriceAlert;
+  onSave: (values: AlertFormValues) => void;
+  onCancel: () => void;
+}
+
+const KIND_LABELS: Record<AlertKind, string> = {
+  price: 'Price',
+  spread: 'Spread',
+  change: '24h change',
+};
+
+// Create or edit one alert. Thresholds are entered in cents (price, spread)
+// or percent (change) and stored as fractions of $1.
+export function AlertForm({ outcomes, initial, onSave, onCancel }: AlertFormProps) {
+  const [kind, setKind] = useState<AlertKind>(initial?.kind ?? 'price');
+  const [outcomeIndex, setOutcomeIndex] = useState(initial?.outcomeIndex ?? outcomes[0]?.index ?? 0);
+  const [direction, setDirection] = useState<'above' | 'below'>(initial?.direction ?? 'above');
+  const [thresholdInput, setThresholdInput] = useState(
+    initial ? String(Number((initial.threshold * 100).toFixed(2))) : ''
+  );
+
+  const outcome = outcomes.find(o => o.index === outcomeIndex) ?? outcomes[0];
+  const threshold = Number(thresholdInput) / 100;
+  const isValid = thresholdInput !== '' && threshold > 0 && threshold < 1;
+
+  // Pick the direction that makes sense for the current price
+  const handleThresholdChange = (value: string) => {
+    setThresholdInput(value);
+    const next = Number(value) / 100;
+    if (kind === 'price' && outcome?.price != null && next > 0) {
+      setDirection(next >= outcome.price ? 'above' : 'below');
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSave({ kind, outcomeIndex, threshold, direction });
+  };
+
+  return (
+    <form className="alert-form" onSubmit={handleSubmit}>
+      <div className="alert-form-fields">
+        <select className="alert-select" value={kind} onChange={(e) => setKind(e.target.value as AlertKind)}>
+          {(Object.keys(KIND_LABELS) as AlertKind[]).map(k => (
+            <option key={k} value={k}>{KIND_LABELS[k]}</option>
+          ))}
+        </select>
+
+        {outcomes.length > 1 && (
+          <select className="alert-select" value={outcomeIndex} onChange={(e) => setOutcomeIndex(Number(e.target.value))}>
+            {outcomes.map(o => (
+              <option key={o.index} value={o.index}>{o.label}</option>
+            ))}
+          </select>
+        )}
+
+        {kind === 'price' ? (
+          <select className="alert-select" value={direction} onChange={(e) => setDirection(e.target.value as 'above' | 'below')}>
+            <option value="above">rises to</option>
+            <option value="below">falls to</option>
+          </select>
+        ) : (
+          <span className="alert-form-label">{kind === 'spread' ? 'below' : 'exceeds'}</span>
+        )}
+
+        <div className="alert-threshold">
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            placeholder={kind === 'price' ? '70' : kind === 'spread' ? '2' : '10'}
+            value={thresholdInput}
+            onChange={(e) => handleThresholdChange(e.target.value)}
+          />
+          <span className="alert-threshold-unit">{kind === 'change' ? '%' : '¢'}</span>
+        </div>
+      </div>
+
+      <div className="alert-form-footer">
+        <span className="alert-form-preview">
+          {isValid && outcome
+            ? describeAlert({ kind, threshold, direction, outcome: outcome.label })
+            : outcome?.price != null
+              ? `${outcome.label} is at ${(outcome.price * 100).toFixed(1)}¢`
+              : ''}
+        </span>
+        <button type="button" className="btn-secondary" onClick={onCancel}>Cancel</button>
+        <button type="submit" className="btn-primary" disabled={!isValid}>
+          {initial ? 'Save alert' : 'Create alert'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useAlerts } from '../contexts/AlertsContext';
+import { describeAlert, isAlertArmed, SNOOZE_OPTIONS, type PriceAlert } from '../priceAlerts';
+import { AlertForm, type AlertFormValues } from './AlertForm';
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+function alertStatus(alert: PriceAlert, now: number): { label: string; className: string } {
+  if (alert.enabled && alert.snoozedUntil !== null && alert.snoozedUntil > now) {
+    return { label: `Snoozed until ${formatTime(alert.snoozedUntil)}`, className: 'snoozed' };
+  }
+  if (alert.enabled) return { label: 'Active', className: 'active' };
+  if (alert.triggeredAt !== null) return { label: `Triggered ${formatTime(alert.triggeredAt)}`, className: 'triggered' };
+  return { label: 'Paused', className: 'paused' };
+}
+
+// Alert manager: every price alert with its status, plus edit, snooze, pause and delete
+export function AlertsView() {
+  const {
+    alerts,
+    updateAlert,
+    removeAlert,
+    setAlertEnabled,
+    snoozeAlert,
+    notificationPermission,
+    requestNotificationPermission,
+  } = useAlerts();
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const now = Date.now();
+  // Armed alerts first, then the most recently triggered
+  const sorted = [...alerts].sort((a, b) => {
+    const armed = Number(isAlertArmed(b, now)) - Number(isAlertArmed(a, now));
+    return armed !== 0 ? armed : (b.triggeredAt ?? b.createdAt) - (a.triggeredAt ?? a.createdAt);
+  });
+
+  const handleSave = (alert: PriceAlert, values: AlertFormValues) => {
+    updateAlert(alert.id, {
+      marketId: alert.marketId,
+      conditionId: alert.conditionId,
+      question: alert.question,
+      // Only the outcome the alert was created for is known here
+      outcome: alert.outcome,
+      outcomeIndex: alert.outcomeIndex,
+      tokenId: alert.tokenId,
+      kind: values.kind,
+      threshold: values.threshold,
+      direction: values.direction,
+      referencePrice: alert.referencePrice,
+    });
+    setEditingId(null);
+  };
+
+  const handleDelete = (alert: PriceAlert) => {
+    if (!confirm(`Delete the alert "${describeAlert(alert)}"?`)) return;
+    removeAlert(alert.id);
+  };
+
+  return (
+    <div id="alertsView" className="view active">
+      <div className="orders-header">
+        <h2>Price Alerts</h2>
+        <div className="orders-actions">
+          {notificationPermission === 'default' && (
+            <button className="btn-secondary" onClick={requestNotificationPermission}>
+              Enable browser notifications
+            </button>
+          )}
+          {notificationPermission === 'denied' && (
+            <span className="alert-permission-note">Browser notifications are blocked - alerts show in the app only</span>
+          )}
+        </div>
+      </div>
+
+      <div className="orders-container">
+        {sorted.length === 0 ? (
+          <div className="empty-state">No alerts yet - open a market and use 🔔 to create one</div>
+        ) : (
+          sorted.map(alert => {
+            const status = alertStatus(alert, now);
+            return (
+              <div key={alert.id} className={`alert-row ${status.className}`}>
+                <div className="alert-row-main">
+                  <div className="alert-info">
+                    <div className="order-market">{alert.question}</div>
+                    <div className="order-details">{describeAlert(alert)}</div>
+                  </div>
+                  <span className={`alert-status ${status.className}`}>{status.label}</span>
+                  <div className="alert-actions">
+                    <button className="btn-secondary" onClick={() => setEditingId(editingId === alert.id ? null : alert.id)}>
+                      Edit
+                    </button>
+                    <select
+                      className="alert-select"
+                      value=""
+                      onChange={(e) => snoozeAlert(alert.id, Number(e.target.value))}
+                    >
+                      <option value="" disabled>Snooze</option>
+                      {SNOOZE_OPTIONS.map(option => (
+                        <option key={option.ms} value={option.ms}>{option.label}</option>
+                      ))}
+                    </select>
+                    <button className="btn-secondary" onClick={() => setAlertEnabled(alert.id, !alert.enabled)}>
+                      {alert.enabled ? 'Pause' : 'Enable'}
+                    </button>
+                    <button className="btn-danger" onClick={() => handleDelete(alert)}>Delete</button>
+                  </div>
+                </div>
+                {editingId === alert.id && (
+                  <AlertForm
+                    outcomes={[{ index: alert.outcomeIndex, label: alert.outcome, price: null }]}
+                    initial={alert}
+                    onSave={(values) => handleSave(alert, values)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
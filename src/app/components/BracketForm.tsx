@@ -0,0 +1,99 @@
+import { useState, type FormEvent } from 'react';
+import { describeBracket, validateBracket, type Bracket, type BracketDraft } from '../brackets';
+
+export type BracketFormValues = Pick<BracketDraft, 'size' | 'takeProfit' | 'stopLoss'>;
+
+interface BracketFormProps {
+  // Shares held and their average cost
+  positionSize: number;
+  avgPrice: number;
+  // Current best bid, when known; levels already crossed are rejected
+  bid: number | null;
+  initial?: Bracket;
+  onSave: (values: BracketFormValues) => void;
+  onCancel: () => void;
+}
+
+const toCents = (value: number | null | undefined) => (value != null ? String(Number((value * 100).toFixed(2))) : '');
+
+// Create or edit the take-profit / stop-loss of one position. Levels are
+// entered in cents and compared against the best bid.
+export function BracketForm({ positionSize, avgPrice, bid, initial, onSave, onCancel }: BracketFormProps) {
+  const [takeProfitInput, setTakeProfitInput] = useState(toCents(initial?.takeProfit));
+  const [stopLossInput, setStopLossInput] = useState(toCents(initial?.stopLoss));
+  const [sizeInput, setSizeInput] = useState(String(Number((initial?.size ?? positionSize).toFixed(2))));
+
+  const values: BracketFormValues = {
+    size: Math.min(Number(sizeInput) || 0, positionSize),
+    takeProfit: takeProfitInput !== '' ? Number(takeProfitInput) / 100 : null,
+    stopLoss: stopLossInput !== '' ? Number(stopLossInput) / 100 : null,
+  };
+  const error = validateBracket(values, bid);
+
+  const pnlAt = (price: number | null) => {
+    if (price === null) return null;
+    const pnl = (price - avgPrice) * values.size;
+    return `${pnl >= 0 ? '+' : '-'}$${Math.abs(pnl).toFixed(2)}`;
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    onSave(values);
+  };
+
+  return (
+    <form className="bracket-form" onSubmit={handleSubmit}>
+      <div className="bracket-form-fields">
+        <label className="bracket-field">
+          <span>Take-profit</span>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            placeholder="—"
+            value={takeProfitInput}
+            onChange={(e) => setTakeProfitInput(e.target.value)}
+          />
+          <span className="bracket-unit">¢</span>
+        </label>
+        <label className="bracket-field">
+          <span>Stop-loss</span>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            placeholder="—"
+            value={stopLossInput}
+            onChange={(e) => setStopLossInput(e.target.value)}
+          />
+          <span className="bracket-unit">¢</span>
+        </label>
+        <label className="bracket-field">
+          <span>Shares</span>
+          <input
+            type="number"
+            min="0"
+            max={positionSize}
+            step="1"
+            value={sizeInput}
+            onChange={(e) => setSizeInput(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="bracket-form-footer">
+        <span className={`bracket-form-preview ${error ? 'invalid' : ''}`}>
+          {error ?? `${describeBracket(values)} on ${values.size} shares: ${[pnlAt(values.takeProfit), pnlAt(values.stopLoss)].filter(Boolean).join(' / ')}`}
+          {bid !== null && ` (bid ${(bid * 100).toFixed(1)}¢)`}
+        </span>
+        <button type="button" className="btn-secondary" onClick={onCancel}>Cancel</button>
+        <button type="submit" className="btn-primary" disabled={!!error}>
+          {initial?.status === 'armed' ? 'Save bracket' : 'Arm bracket'}
+        </button>
+      </div>
+    </form>
+  );
+}
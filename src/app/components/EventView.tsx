@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import type { PriceChangeMessage, LastTradePriceMessage } from '../websocket';
+import { gammaUrl } from '../../config';
+import { WatchStar } from './WatchStar';
+import { parseGammaMarket, applyPriceChange, type Market, type MarketEvent } from './MarketsView';
+
+interface EventViewProps {
+  event: MarketEvent;
+  onBack: () => void;
+  onSelectMarket: (market: Market, outcomeIndex: number) => void;
+  invalidMarketIds?: Set<string>;
+  isValidating?: boolean;
+}
+
+// How far the Yes prices of a neg-risk event may sum away from 100% before it is flagged
+const SUM_TOLERANCE = 0.02;
+
+// All markets of one Gamma event, one row per candidate.
+// In a neg-risk event exactly one candidate resolves Yes, so the Yes prices
+// should sum to about 100%; asks summing below 100% (or bids above) mean the
+// set of Yes shares is mispriced against the $1 it pays out.
+export function EventView({ event, onBack, onSelectMarket, invalidMarketIds = new Set(), isValidating = false }: EventViewProps) {
+  const { subscribeToMarket, subscribeToAsset, onMessage } = useWebSocket();
+
+  const [markets, setMarkets] = useState<Market[]>([]);
+  const [title, setTitle] = useState(event.title);
+  const [negRisk, setNegRisk] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the event with its markets
+  useEffect(() => {
+    const releases: Array<() => void> = [];
+    let cancelled = false;
+
+    async function fetchEvent() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(gammaUrl(`/events?id=${encodeURIComponent(event.id)}`));
+        if (!response.ok) throw new Error(`Failed to load event (${response.status})`);
+        const data = await response.json();
+        const found = Array.isArray(data) ? data[0] : data;
+        if (!found) throw new Error('Event not found');
+
+        const parsed: Market[] = (found.markets || [])
+          .filter((m: any) => m.active !== false && !m.closed)
+          .map((m: any) => parseGammaMarket({ ...m, events: m.events ?? [found] }))
+          .filter((m: Market) => m.clobTokenIds.length >= 2);
+
+        if (cancelled) return;
+        console.log('[Event] Loaded', parsed.length, 'markets for', found.title);
+        setMarkets(parsed);
+        setTitle(found.title || event.title);
+        setNegRisk(found.negRisk ?? parsed.some(m => m.negRisk));
+
+        parsed.forEach(m => {
+          if (m.conditionId) releases.push(subscribeToMarket(m.conditionId));
+          m.clobTokenIds.forEach(tokenId => releases.push(subscribeToAsset(tokenId)));
+        });
+      } catch (err: any) {
+        console.error('[Event] Failed to fetch event:', err);
+        if (!cancelled) setError(err.message || 'Failed to load event');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    fetchEvent();
+
+    return () => {
+      cancelled = true;
+      releases.forEach(release => release());
+    };
+  }, [event.id, event.title, subscribeToMarket, subscribeToAsset]);
+
+  // Live prices
+  useEffect(() => {
+    return onMessage((msg) => {
+      if (msg.event_type === 'price_change') {
+        setMarkets(prev => applyPriceChange(prev, msg as PriceChangeMessage));
+      } else if (msg.event_type === 'last_trade_price') {
+        const tradeMsg = msg as LastTradePriceMessage;
+        setMarkets(prev => {
+          const market = prev.find(m => m.clobTokenIds.includes(tradeMsg.asset_id));
+          if (!market) return prev;
+          const idx = market.clobTokenIds.indexOf(tradeMsg.asset_id);
+          const newPrices = [...market.outcomePrices];
+          newPrices[idx] = Number(tradeMsg.price);
+          return prev.map(m => (m === market ? { ...m, outcomePrices: newPrices } : m));
+        });
+      }
+    });
+  }, [onMessage]);
+
+  const candidates = markets
+    .filter(m => !invalidMarketIds.has(m.id))
+    .sort((a, b) => b.outcomePrices[0] - a.outcomePrices[0]);
+
+  // Neg-risk consistency: one Yes share of every candidate always pays exactly $1
+  const sumYes = candidates.reduce((sum, m) => sum + m.outcomePrices[0], 0);
+  const sumAsks = candidates.reduce((sum, m) => sum + m.bestAsk, 0);
+  const sumBids = candidates.reduce((sum, m) => sum + m.bestBid, 0);
+  const yesOff = Math.abs(sumYes - 1) > SUM_TOLERANCE;
+  const formatPct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div id="eventView" className="view active">
+      {isValidating && (
+        <div className="validation-overlay">
+          <div className="validation-spinner">
+            <div className="spinner"></div>
+            <span>Checking market...</span>
+          </div>
+        </div>
+      )}
+
+      <div className="toolbar">
+        <button className="btn-secondary" onClick={onBack}>← Markets</button>
+        <h2 className="event-title">{title}</h2>
+        {negRisk && <span className="event-badge">Multi-outcome</span>}
+      </div>
+
+      {negRisk && candidates.length > 1 && (
+        <div className="event-consistency">
+          <div className={`event-sum ${yesOff ? 'off' : ''}`}>
+            <span className="stat-label">Sum of Yes prices</span>
+            <span className="stat-value">{formatPct(sumYes)}</span>
+          </div>
+          <div className={`event-sum ${sumAsks < 1 ? 'off' : ''}`}>
+            <span className="stat-label">Cost to buy every Yes</span>
+            <span className="stat-value">{formatPct(sumAsks)}</span>
+          </div>
+          <div className={`event-sum ${sumBids > 1 ? 'off' : ''}`}>
+            <span className="stat-label">Proceeds selling every Yes</span>
+            <span className="stat-value">{formatPct(sumBids)}</span>
+          </div>
+          {sumAsks < 1 ? (
+            <div className="event-note">Buying one Yes share of every outcome costs less than the $1 it pays</div>
+          ) : sumBids > 1 ? (
+            <div className="event-note">Selling one Yes share of every outcome pays more than $1</div>
+          ) : yesOff ? (
+            <div className="event-note">Yes prices sum {sumYes > 1 ? 'above' : 'below'} 100% - some candidates may be mispriced</div>
+          ) : null}
+        </div>
+      )}
+
+      <div className="event-markets">
+        {isLoading ? (
+          <div className="loading-state">
+            <div className="spinner"></div>
+            <p>Loading event...</p>
+          </div>
+        ) : error ? (
+          <div className="empty-state">{error}</div>
+        ) : candidates.length === 0 ? (
+          <div className="empty-state">No open markets in this event</div>
+        ) : (
+          candidates.map(market => (
+            <div key={market.id} className="event-row">
+              <WatchStar market={market} />
+              <div className="event-row-name">
+                <span className="event-candidate-name">{market.groupItemTitle || market.question}</span>
+                <span className={`price-change ${market.oneDayPriceChange >= 0 ? 'up' : 'down'}`}>
+                  {market.oneDayPriceChange >= 0 ? '+' : ''}{(market.oneDayPriceChange * 100).toFixed(1)}%
+                </span>
+              </div>
+              <div className="event-row-chance">{(market.outcomePrices[0] * 100).toFixed(market.tickSize < 0.01 ? 1 : 0)}%</div>
+              <div className="event-row-actions">
+                {market.outcomes.map((outcome, index) => (
+                  <button
+                    key={outcome}
+                    className={`event-trade-btn ${index === 0 ? 'yes' : 'no'}`}
+                    onClick={() => onSelectMarket(market, index)}
+                  >
+                    {outcome} {(market.outcomePrices[index] * 100).toFixed(market.tickSize < 0.01 ? 1 : 0)}¢
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
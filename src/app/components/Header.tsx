@@ -2,17 +2,24 @@ import { useState } from 'react';
 import { useWallet } from '../contexts/WalletContext';
 import { useSafe } from '../contexts/SafeContext';
 import { useWebSocket } from '../contexts/WebSocketContext';
+import { useTrading } from '../contexts/TradingContext';
+import { useWatchlist } from '../contexts/WatchlistContext';
+import { useAlerts } from '../contexts/AlertsContext';
 import { WalletModal } from './WalletModal';
 
 interface HeaderProps {
-  currentView: 'markets' | 'portfolio' | 'orders';
-  onViewChange: (view: 'markets' | 'portfolio' | 'orders') => void;
+  currentView: 'markets' | 'watchlist' | 'alerts' | 'portfolio' | 'orders';
+  onViewChange: (view: 'markets' | 'watchlist' | 'alerts' | 'portfolio' | 'orders') => void;
 }
 
 export function Header({ currentView, onViewChange }: HeaderProps) {
   const { isConnected, isInitializing, address, connect, walletIcon, userName, walletType } = useWallet();
-  const { safeUsdceBalance, isSafeDeployed } = useSafe();
-  const { isConnected: wsConnected } = useWebSocket();
+  const { safeUsdceBalance, isSafeDeployed, isPaperMode } = useSafe();
+  const { connection } = useWebSocket();
+  const { backend, setBackend } = useTrading();
+  const { watchedCount } = useWatchlist();
+  const { alerts } = useAlerts();
+  const activeAlertCount = alerts.filter(a => a.enabled).length;
   const [isWalletModalOpen, setIsWalletModalOpen] = useState(false);
 
   const getWalletIconEmoji = () => {
@@ -35,6 +42,17 @@ export function Header({ currentView, onViewChange }: HeaderProps) {
     return 'Connected';
   };
 
+  const connectionLabel = {
+    good: 'Live',
+    degraded: 'Slow',
+    reconnecting: connection.reconnectAttempts > 0 ? `Reconnecting (${connection.reconnectAttempts})` : 'Connecting',
+    offline: 'Offline',
+  }[connection.quality];
+
+  const connectionTitle = connection.latencyMs !== null
+    ? `Market feed latency ${connection.latencyMs}ms`
+    : 'Market feed';
+
   const formatBalance = (balance: number) => {
     if (balance >= 1000000) return `$${(balance / 1000000).toFixed(2)}M`;
     if (balance >= 1000) return `$${(balance / 1000).toFixed(2)}K`;
@@ -56,6 +74,22 @@ export function Header({ currentView, onViewChange }: HeaderProps) {
           >
             Markets
           </a>
+          <a
+            href="#watchlist"
+            className={`nav-link ${currentView === 'watchlist' ? 'active' : ''}`}
+            onClick={(e) => { e.preventDefault(); onViewChange('watchlist'); }}
+          >
+            Watchlist
+            {watchedCount > 0 && <span className="nav-count">{watchedCount}</span>}
+          </a>
+          <a
+            href="#alerts"
+            className={`nav-link ${currentView === 'alerts' ? 'active' : ''}`}
+            onClick={(e) => { e.preventDefault(); onViewChange('alerts'); }}
+          >
+            Alerts
+            {activeAlertCount > 0 && <span className="nav-count">{activeAlertCount}</span>}
+          </a>
           <a
             href="#portfolio"
             className={`nav-link ${currentView === 'portfolio' ? 'active' : ''}`}
@@ -74,24 +108,39 @@ export function Header({ currentView, onViewChange }: HeaderProps) {
       </div>
 
       <div className="header-right">
-        <div className="connection-status">
-          <span className={`ws-indicator ${wsConnected ? 'connected' : 'disconnected'}`}></span>
-          <span>{wsConnected ? 'Live' : 'Offline'}</span>
+        <div className="backend-toggle" title="Paper mode fills against a simulated order book">
+          <button
+            className={`toggle-btn ${backend === 'live' ? 'active' : ''}`}
+            onClick={() => setBackend('live')}
+          >
+            Live
+          </button>
+          <button
+            className={`toggle-btn paper ${backend === 'paper' ? 'active' : ''}`}
+            onClick={() => setBackend('paper')}
+          >
+            Paper
+          </button>
         </div>
 
-        {isConnected && (
-          <>
-            <div className="balance-display">
-              <span className="balance-amount">{formatBalance(safeUsdceBalance)}</span>
-              <span className="balance-label">USDC.e</span>
-            </div>
+        <div className="connection-status" title={connectionTitle}>
+          <span className={`ws-indicator ${connection.quality}`}></span>
+          <span>{connectionLabel}</span>
+        </div>
+
+        {(isConnected || isPaperMode) && (
+          <div className="balance-display">
+            <span className="balance-amount">{formatBalance(safeUsdceBalance)}</span>
+            <span className="balance-label">{isPaperMode ? 'Paper USDC' : 'USDC.e'}</span>
+          </div>
+        )}
 
-            <div className="wallet-info">
-              <div className="wallet-type-badge">
-                {isSafeDeployed ? 'Safe' : 'Pending'}
-              </div>
+        {isConnected && (
+          <div className="wallet-info">
+            <div className="wallet-type-badge">
+              {isPaperMode ? 'Paper' : isSafeDeployed ? 'Safe' : 'Pending'}
             </div>
-          </>
+          </div>
         )}
 
         {isConnected ? (
@@ -1,33 +1,87 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { Header } from './Header';
 import { MarketsView } from './MarketsView';
+import { EventView } from './EventView';
+import { WatchlistView } from './WatchlistView';
+import { AlertsView } from './AlertsView';
 import { PortfolioView } from './PortfolioView';
 import { OrdersView } from './OrdersView';
 import { TradeModal } from './TradeModal';
 import { ToastContainer, type Toast } from './Toast';
-import type { Market } from './MarketsView';
+import { SessionRecorderPanel } from './SessionRecorderPanel';
+import type { Market, MarketEvent } from './MarketsView';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { useSafe } from '../contexts/SafeContext';
+import { useAlerts } from '../contexts/AlertsContext';
+import { useBrackets } from '../contexts/BracketsContext';
+import { userChannel, userFills } from '../userChannel';
+import { ENDPOINTS } from '../../config';
 
-const CLOB_HOST = 'https://clob.polymarket.com';
+const CLOB_HOST = ENDPOINTS.clob;
 
-type View = 'markets' | 'portfolio' | 'orders';
+type View = 'markets' | 'watchlist' | 'alerts' | 'portfolio' | 'orders';
+
+// Open the app with ?debug to get the WebSocket record/replay panel
+const SHOW_DEBUG_PANEL = new URLSearchParams(window.location.search).has('debug');
 
 export function Layout() {
   const [currentView, setCurrentView] = useState<View>('markets');
   const [selectedMarket, setSelectedMarket] = useState<Market | null>(null);
+  const [selectedOutcome, setSelectedOutcome] = useState(0);
+  const [selectedEvent, setSelectedEvent] = useState<MarketEvent | null>(null);
   const [toasts, setToasts] = useState<Array<{ id: number; message: string; type: 'success' | 'error' }>>([]);
   const [invalidMarketIds, setInvalidMarketIds] = useState<Set<string>>(new Set());
   const [isValidating, setIsValidating] = useState(false);
 
-  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
-    const id = Date.now();
+  const { onUserMessage } = useWebSocket();
+  const { refreshSafeBalance } = useSafe();
+  const { onAlertFired } = useAlerts();
+  const { onBracketTriggered } = useBrackets();
+
+  const showToast = useCallback((message: string, type: 'success' | 'error' = 'success') => {
+    const id = Date.now() + Math.random();
     setToasts(prev => [...prev, { id, message, type }]);
     setTimeout(() => {
       setToasts(prev => prev.filter(t => t.id !== id));
     }, 4000);
-  };
+  }, []);
+
+  // Fill notifications from the user channel, on whichever view is open
+  useEffect(() => {
+    return onUserMessage((msg) => {
+      if (msg.event_type !== 'trade') return;
+      const apiKey = userChannel.getApiKey();
+      const fills = apiKey ? userFills(msg, apiKey) : [];
+      if (fills.length === 0) return;
+
+      if (msg.status === 'MATCHED') {
+        fills.forEach(fill => {
+          showToast(`Filled: ${fill.side} ${fill.size.toFixed(2)} ${fill.outcome} @ ${(fill.price * 100).toFixed(1)}¢`, 'success');
+        });
+      } else if (msg.status === 'FAILED') {
+        showToast('A trade failed to settle on-chain', 'error');
+      } else if (msg.status === 'CONFIRMED') {
+        refreshSafeBalance();
+      }
+    });
+  }, [onUserMessage, showToast, refreshSafeBalance]);
+
+  // Alerts show as toasts on whichever view is open (and as browser notifications, see AlertsContext)
+  useEffect(() => {
+    return onAlertFired((alert, message) => {
+      showToast(`🔔 ${message} - ${alert.question}`, 'success');
+    });
+  }, [onAlertFired, showToast]);
+
+  // Bracket exits fire whichever view is open
+  useEffect(() => {
+    return onBracketTriggered((bracket, message, ok) => {
+      showToast(`${message} - ${bracket.title}`, ok ? 'success' : 'error');
+    });
+  }, [onBracketTriggered, showToast]);
 
   // Validate orderbook exists before opening modal
-  const openTradeModal = useCallback(async (market: Market) => {
+  const openTradeModal = useCallback(async (market: Market, outcomeIndex = 0) => {
     // Skip if already known to be invalid
     if (invalidMarketIds.has(market.id)) {
       showToast('This market is unavailable for trading', 'error');
@@ -37,8 +91,8 @@ export function Layout() {
     setIsValidating(true);
 
     try {
-      // Check if orderbook exists for the Yes token
-      const tokenId = market.clobTokenIds[0];
+      // Check if orderbook exists for the outcome being traded
+      const tokenId = market.clobTokenIds[outcomeIndex];
       const response = await fetch(`${CLOB_HOST}/book?token_id=${tokenId}`);
 
       if (!response.ok) {
@@ -53,6 +107,7 @@ export function Layout() {
       }
 
       // Orderbook is valid, open the modal
+      setSelectedOutcome(outcomeIndex);
       setSelectedMarket(market);
     } catch (error) {
       console.error('[Layout] Market validation failed:', market.question, error);
@@ -73,13 +128,31 @@ export function Layout() {
       <Header currentView={currentView} onViewChange={setCurrentView} />
 
       <main className="main">
-        {currentView === 'markets' && (
+        {currentView === 'markets' && !selectedEvent && (
           <MarketsView
             onSelectMarket={openTradeModal}
+            onSelectEvent={setSelectedEvent}
             invalidMarketIds={invalidMarketIds}
             isValidating={isValidating}
           />
         )}
+        {currentView === 'markets' && selectedEvent && (
+          <EventView
+            event={selectedEvent}
+            onBack={() => setSelectedEvent(null)}
+            onSelectMarket={openTradeModal}
+            invalidMarketIds={invalidMarketIds}
+            isValidating={isValidating}
+          />
+        )}
+        {currentView === 'watchlist' && (
+          <WatchlistView
+            onSelectMarket={openTradeModal}
+            invalidMarketIds={invalidMarketIds}
+            isValidating={isValidating}
+          />
+        )}
+        {currentView === 'alerts' && <AlertsView />}
         {currentView === 'portfolio' && (
           <PortfolioView showToast={showToast} />
         )}
@@ -91,11 +164,14 @@ export function Layout() {
       {selectedMarket && (
         <TradeModal
           market={selectedMarket}
+          initialOutcome={selectedOutcome}
           onClose={closeTradeModal}
           showToast={showToast}
         />
       )}
 
+      {SHOW_DEBUG_PANEL && <SessionRecorderPanel showToast={showToast} />}
+
       <ToastContainer toasts={toasts} />
     </div>
   );
@@ -1,9 +1,20 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useWebSocket } from '../contexts/WebSocketContext';
+import { WatchStar } from './WatchStar';
+import { Sparkline } from './Sparkline';
 import type { PriceChangeMessage, LastTradePriceMessage } from '../websocket';
-
-const GAMMA_API = 'https://gamma-api.polymarket.com';
-const CORS_PROXY = 'https://corsproxy.io/?url=';
+import {
+  CATEGORIES,
+  PAGE_SIZE,
+  filtersFromQuery,
+  filtersToQuery,
+  marketsPageUrl,
+  matchesFilters,
+  parseMarketsPage,
+  resolveTagId,
+  type MarketFilters,
+  type SortOption,
+} from '../marketSearch';
 
 export interface Market {
   id: string;
@@ -14,6 +25,7 @@ export interface Market {
   outcomes: string[];
   outcomePrices: number[];
   clobTokenIds: string[];
+  volume: number;
   volume24hr: number;
   liquidity: number;
   negRisk: boolean;
@@ -23,93 +35,214 @@ export interface Market {
   bestAsk: number;
   oneDayPriceChange: number;
   endDate: string;
+  // Candidate name within a multi-outcome event, e.g. "Team Alpha"
+  groupItemTitle: string;
+  event: MarketEvent | null;
+}
+
+// The Gamma event a market belongs to. Neg-risk events group one binary
+// market per candidate, of which exactly one resolves Yes.
+export interface MarketEvent {
+  id: string;
+  title: string;
+  slug: string;
+  image: string;
 }
 
 interface MarketsViewProps {
   onSelectMarket: (market: Market) => void;
+  onSelectEvent: (event: MarketEvent) => void;
   invalidMarketIds?: Set<string>;
   isValidating?: boolean;
 }
 
-type SortOption = 'volume24hr' | 'liquidity' | 'newest' | 'ending';
 type LayoutOption = 'grid' | 'list';
 
-export function MarketsView({ onSelectMarket, invalidMarketIds = new Set(), isValidating = false }: MarketsViewProps) {
+// Neg-risk markets are shown together as one card per event
+type MarketListItem =
+  | { kind: 'market'; market: Market }
+  | { kind: 'event'; event: MarketEvent; markets: Market[] };
+
+// Candidates shown on an event card before "+N more"
+const EVENT_CARD_CANDIDATES = 3;
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const LIQUIDITY_THRESHOLDS = [0, 1000, 10000, 100000];
+const VOLUME_THRESHOLDS = [0, 10000, 100000, 1000000];
+
+// Parse a market from the Gamma API (stringified JSON arrays, optional numbers)
+export function parseGammaMarket(m: any): Market {
+  const event = m.events?.[0];
+  return {
+    id: m.id,
+    question: m.question,
+    conditionId: m.conditionId,
+    slug: m.slug,
+    image: m.image || m.icon || '',
+    outcomes: JSON.parse(m.outcomes || '["Yes","No"]'),
+    outcomePrices: JSON.parse(m.outcomePrices || '[0.5,0.5]').map(Number),
+    clobTokenIds: JSON.parse(m.clobTokenIds || '[]'),
+    volume: Number(m.volumeNum || m.volume || 0),
+    volume24hr: Number(m.volume24hr || 0),
+    liquidity: Number(m.liquidityNum || m.liquidity || 0),
+    negRisk: m.negRisk ?? false,
+    tickSize: Number(m.orderPriceMinTickSize || 0.01),
+    minSize: Number(m.orderMinSize || 1),
+    bestBid: Number(m.bestBid || 0),
+    bestAsk: Number(m.bestAsk || 1),
+    oneDayPriceChange: Number(m.oneDayPriceChange || 0),
+    endDate: m.endDate || '',
+    groupItemTitle: m.groupItemTitle || '',
+    event: event ? { id: String(event.id), title: event.title || '', slug: event.slug || '', image: event.image || event.icon || '' } : null,
+  };
+}
+
+// Apply a price_change to a list of markets. Returns the same array when nothing matched.
+export function applyPriceChange(markets: Market[], msg: PriceChangeMessage): Market[] {
+  // Changes may be coalesced, so the last one for an asset carries its current best prices
+  const latest = [...msg.price_changes].reverse();
+  let changed = false;
+  const next = markets.map(market => {
+    const change = latest.find(pc => market.clobTokenIds.includes(pc.asset_id));
+    if (!change) return market;
+    changed = true;
+    const idx = market.clobTokenIds.indexOf(change.asset_id);
+    const newPrices = [...market.outcomePrices];
+    newPrices[idx] = Number(change.best_bid) || newPrices[idx];
+    // bestBid/bestAsk describe the first (Yes) token, as Gamma reports them
+    return idx === 0
+      ? { ...market, outcomePrices: newPrices, bestBid: Number(change.best_bid), bestAsk: Number(change.best_ask) }
+      : { ...market, outcomePrices: newPrices };
+  });
+  return changed ? next : markets;
+}
+
+export function MarketsView({ onSelectMarket, onSelectEvent, invalidMarketIds = new Set(), isValidating = false }: MarketsViewProps) {
   const { subscribeToMarket, subscribeToAsset, onMessage } = useWebSocket();
 
   const [markets, setMarkets] = useState<Market[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<SortOption>('volume24hr');
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [pagesLoaded, setPagesLoaded] = useState(0);
+  const [filters, setFilters] = useState<MarketFilters>(() => filtersFromQuery(window.location.search));
+  const [searchInput, setSearchInput] = useState(filters.search);
   const [layout, setLayout] = useState<LayoutOption>('grid');
   const [flashingMarkets, setFlashingMarkets] = useState<Set<string>>(new Set());
+  const loadMoreRef = useRef<(() => void) | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const updateFilters = (changes: Partial<MarketFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  // Search runs on the server, so wait for a pause in typing
+  useEffect(() => {
+    if (searchInput === filters.search) return;
+    const timer = setTimeout(() => updateFilters({ search: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, filters.search]);
+
+  // Mirror the filters in the URL so the view can be shared
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    const query = filtersToQuery(filters, search);
+    if (query !== search) {
+      window.history.replaceState(window.history.state, '', `${pathname}${query}${hash}`);
+    }
+  }, [filters]);
 
-  // Fetch markets on mount
+  // Load the first page whenever the filters change; later pages load on scroll
   useEffect(() => {
-    async function fetchMarkets() {
+    // Asset subscriptions are released when the filters change or the view unmounts
+    const releases: Array<() => void> = [];
+    const seen = new Set<string>();
+    let cancelled = false;
+    let loading = false;
+    let exhausted = false;
+    let offset = 0;
+
+    setMarkets([]);
+    setIsLoading(true);
+    setHasMore(false);
+
+    async function loadPage() {
+      if (loading || exhausted || cancelled) return;
+      loading = true;
+      if (offset > 0) setIsLoadingMore(true);
+
       try {
-        const apiUrl = `${GAMMA_API}/markets?active=true&closed=false&limit=50`;
-        const response = await fetch(`${CORS_PROXY}${encodeURIComponent(apiUrl)}`);
-        const data = await response.json();
-
-        const parsed: Market[] = data
-          .map((m: any) => ({
-            id: m.id,
-            question: m.question,
-            conditionId: m.conditionId,
-            slug: m.slug,
-            image: m.image || m.icon || '',
-            outcomes: JSON.parse(m.outcomes || '["Yes","No"]'),
-            outcomePrices: JSON.parse(m.outcomePrices || '[0.5,0.5]').map(Number),
-            clobTokenIds: JSON.parse(m.clobTokenIds || '[]'),
-            volume24hr: Number(m.volume24hr || 0),
-            liquidity: Number(m.liquidityNum || m.liquidity || 0),
-            negRisk: m.negRisk ?? false,
-            tickSize: Number(m.orderPriceMinTickSize || 0.01),
-            minSize: Number(m.orderMinSize || 1),
-            bestBid: Number(m.bestBid || 0),
-            bestAsk: Number(m.bestAsk || 1),
-            oneDayPriceChange: Number(m.oneDayPriceChange || 0),
-            endDate: m.endDate || '',
-          }))
-          // Filter out markets with low/no liquidity or no clobTokenIds
-          // Require minimum $100 liquidity to ensure orderbook exists
-          .filter((m: Market) => m.liquidity >= 100 && m.clobTokenIds.length >= 2);
-
-        console.log('[Markets] Loaded', parsed.length, 'markets with sufficient liquidity');
-        setMarkets(parsed);
+        const tagId = filters.tag ? await resolveTagId(filters.tag) : null;
+        const response = await fetch(marketsPageUrl(filters, offset, tagId));
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const page = parseMarketsPage(await response.json());
+        if (cancelled) return;
+
+        offset += PAGE_SIZE;
+        exhausted = !page.hasMore;
+
+        // Require an orderbook-sized market with both outcome tokens; pages can overlap while prices move
+        const parsed: Market[] = page.markets
+          .map((raw: any) => ({ raw, market: parseGammaMarket(raw) }))
+          .filter(({ raw, market }) => market.clobTokenIds.length >= 2 && !seen.has(market.id) && matchesFilters(raw, market, filters))
+          .map(({ market }) => market);
+        parsed.forEach(m => seen.add(m.id));
+
+        console.log('[Markets] Loaded', parsed.length, 'markets', offset > PAGE_SIZE ? `(page ${offset / PAGE_SIZE})` : '');
+        setMarkets(prev => [...prev, ...parsed]);
+        setHasMore(!exhausted);
+        setPagesLoaded(count => count + 1);
 
         // Subscribe to WebSocket for live updates
         parsed.forEach(m => {
-          if (m.conditionId) subscribeToMarket(m.conditionId);
-          m.clobTokenIds.forEach(tokenId => subscribeToAsset(tokenId));
+          if (m.conditionId) releases.push(subscribeToMarket(m.conditionId));
+          m.clobTokenIds.forEach(tokenId => releases.push(subscribeToAsset(tokenId)));
         });
-
       } catch (error) {
         console.error('Failed to fetch markets:', error);
+        // Stop paging; changing a filter starts over
+        exhausted = true;
+        if (!cancelled) setHasMore(false);
       } finally {
-        setIsLoading(false);
+        loading = false;
+        if (!cancelled) {
+          setIsLoading(false);
+          setIsLoadingMore(false);
+        }
       }
     }
 
-    fetchMarkets();
-  }, [subscribeToMarket, subscribeToAsset]);
+    loadMoreRef.current = loadPage;
+    loadPage();
+
+    return () => {
+      cancelled = true;
+      loadMoreRef.current = null;
+      releases.forEach(release => release());
+    };
+  }, [filters, subscribeToMarket, subscribeToAsset]);
+
+  // Infinite scroll: load the next page when the end of the list comes into view.
+  // Re-observing after each page also covers pages that were filtered down to nothing.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) loadMoreRef.current?.();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, pagesLoaded]);
 
   // Handle WebSocket messages
   useEffect(() => {
     const unsubscribe = onMessage((msg) => {
       if (msg.event_type === 'price_change') {
-        const priceMsg = msg as PriceChangeMessage;
-        setMarkets(prev => prev.map(market => {
-          const change = priceMsg.price_changes.find(pc => market.clobTokenIds.includes(pc.asset_id));
-          if (change) {
-            const idx = market.clobTokenIds.indexOf(change.asset_id);
-            const newPrices = [...market.outcomePrices];
-            newPrices[idx] = Number(change.best_bid) || newPrices[idx];
-            return { ...market, outcomePrices: newPrices, bestBid: Number(change.best_bid), bestAsk: Number(change.best_ask) };
-          }
-          return market;
-        }));
+        // Keeps the same array when nothing matched so React can skip the render
+        setMarkets(prev => applyPriceChange(prev, msg as PriceChangeMessage));
       } else if (msg.event_type === 'last_trade_price') {
         const tradeMsg = msg as LastTradePriceMessage;
         setMarkets(prev => prev.map(market => {
@@ -138,12 +271,12 @@ export function MarketsView({ onSelectMarket, invalidMarketIds = new Set(), isVa
     return unsubscribe;
   }, [onMessage]);
 
-  // Filter and sort markets
+  // Listing pages arrive in the chosen order; search results come back by relevance, so sort those here
   const filteredMarkets = markets
     .filter(m => !invalidMarketIds.has(m.id)) // Exclude markets with invalid orderbooks
-    .filter(m => m.question.toLowerCase().includes(searchQuery.toLowerCase()))
     .sort((a, b) => {
-      switch (sortBy) {
+      if (!filters.search) return 0;
+      switch (filters.sort) {
         case 'volume24hr': return b.volume24hr - a.volume24hr;
         case 'liquidity': return b.liquidity - a.liquidity;
         case 'newest': return Number(b.id) - Number(a.id);
@@ -152,12 +285,126 @@ export function MarketsView({ onSelectMarket, invalidMarketIds = new Set(), isVa
       }
     });
 
+  // Group neg-risk markets by event, placed where the event's first market sorts
+  const listItems: MarketListItem[] = [];
+  const eventItems = new Map<string, Extract<MarketListItem, { kind: 'event' }>>();
+  filteredMarkets.forEach(market => {
+    if (!market.negRisk || !market.event) {
+      listItems.push({ kind: 'market', market });
+      return;
+    }
+    const existing = eventItems.get(market.event.id);
+    if (existing) {
+      existing.markets.push(market);
+      return;
+    }
+    const item = { kind: 'event' as const, event: market.event, markets: [market] };
+    eventItems.set(market.event.id, item);
+    listItems.push(item);
+  });
+
   const formatVolume = (v: number) => {
     if (v >= 1e6) return `$${(v / 1e6).toFixed(1)}M`;
     if (v >= 1e3) return `$${(v / 1e3).toFixed(0)}K`;
     return `$${v.toFixed(0)}`;
   };
 
+  const renderMarketCard = (market: Market) => (
+    <div
+      key={market.id}
+      className={`market-card ${flashingMarkets.has(market.id) ? 'flash' : ''}`}
+      onClick={() => onSelectMarket(market)}
+    >
+      <div className="market-header">
+        <img
+          src={market.image}
+          alt=""
+          className="market-image"
+          onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+        />
+        <h3 className="market-title">{market.question}</h3>
+        <WatchStar market={market} />
+      </div>
+
+      <div className="market-prices">
+        <div className="price-box yes">
+          <div className="price-label">{market.outcomes[0] || 'Yes'}</div>
+          <div className="price-value">{(market.outcomePrices[0] * 100).toFixed(0)}¢</div>
+          <div className={`price-change ${market.oneDayPriceChange >= 0 ? 'up' : 'down'}`}>
+            {market.oneDayPriceChange >= 0 ? '+' : ''}{(market.oneDayPriceChange * 100).toFixed(1)}%
+          </div>
+        </div>
+        <div className="price-box no">
+          <div className="price-label">{market.outcomes[1] || 'No'}</div>
+          <div className="price-value">{(market.outcomePrices[1] * 100).toFixed(0)}¢</div>
+        </div>
+      </div>
+
+      {market.clobTokenIds[0] && <Sparkline tokenId={market.clobTokenIds[0]} />}
+
+      <div className="market-footer">
+        <div className="market-stat">
+          <span className="stat-label">24h Vol</span>
+          <span className="stat-value">{formatVolume(market.volume24hr)}</span>
+        </div>
+        <div className="market-stat">
+          <span className="stat-label">Liquidity</span>
+          <span className="stat-value">{formatVolume(market.liquidity)}</span>
+        </div>
+        <div className="market-stat">
+          <span className="stat-label"><span className="live-dot"></span>Live</span>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderEventCard = (event: MarketEvent, markets: Market[]) => (
+    <div
+      key={`event-${event.id}`}
+      className={`market-card event-card ${markets.some(m => flashingMarkets.has(m.id)) ? 'flash' : ''}`}
+      onClick={() => onSelectEvent(event)}
+    >
+      <div className="market-header">
+        <img
+          src={event.image || markets[0].image}
+          alt=""
+          className="market-image"
+          onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+        />
+        <h3 className="market-title">{event.title || markets[0].question}</h3>
+      </div>
+
+      <div className="event-candidates">
+        {[...markets]
+          .sort((a, b) => b.outcomePrices[0] - a.outcomePrices[0])
+          .slice(0, EVENT_CARD_CANDIDATES)
+          .map(market => (
+            <div key={market.id} className="event-candidate">
+              <span className="event-candidate-name">{market.groupItemTitle || market.question}</span>
+              <span className="event-candidate-price">{(market.outcomePrices[0] * 100).toFixed(0)}%</span>
+            </div>
+          ))}
+        {markets.length > EVENT_CARD_CANDIDATES && (
+          <div className="event-candidate more">+{markets.length - EVENT_CARD_CANDIDATES} more</div>
+        )}
+      </div>
+
+      <div className="market-footer">
+        <div className="market-stat">
+          <span className="stat-label">24h Vol</span>
+          <span className="stat-value">{formatVolume(markets.reduce((sum, m) => sum + m.volume24hr, 0))}</span>
+        </div>
+        <div className="market-stat">
+          <span className="stat-label">Outcomes</span>
+          <span className="stat-value">{markets.length}</span>
+        </div>
+        <div className="market-stat">
+          <span className="stat-label"><span className="live-dot"></span>Live</span>
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div id="marketsView" className="view active">
       {/* Validation overlay */}
@@ -177,8 +424,8 @@ export function MarketsView({ onSelectMarket, invalidMarketIds = new Set(), isVa
           <input
             type="text"
             placeholder="Search markets..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
           />
         </div>
 
@@ -186,8 +433,8 @@ export function MarketsView({ onSelectMarket, invalidMarketIds = new Set(), isVa
           {(['volume24hr', 'liquidity', 'newest', 'ending'] as SortOption[]).map(option => (
             <button
               key={option}
-              className={`pill ${sortBy === option ? 'active' : ''}`}
-              onClick={() => setSortBy(option)}
+              className={`pill ${filters.sort === option ? 'active' : ''}`}
+              onClick={() => updateFilters({ sort: option })}
             >
               {option === 'volume24hr' ? 'Trending' :
                option === 'liquidity' ? 'Liquid' :
@@ -212,6 +459,71 @@ export function MarketsView({ onSelectMarket, invalidMarketIds = new Set(), isVa
         </div>
       </div>
 
+      {/* Filters */}
+      <div className="filters-bar">
+        <div className="filter-pills">
+          <button
+            className={`pill ${!filters.tag ? 'active' : ''}`}
+            onClick={() => updateFilters({ tag: '' })}
+          >
+            All
+          </button>
+          {CATEGORIES.map(category => (
+            <button
+              key={category.slug}
+              className={`pill ${filters.tag === category.slug ? 'active' : ''}`}
+              onClick={() => updateFilters({ tag: category.slug })}
+            >
+              {category.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="filter-field">
+          <span>Min liquidity</span>
+          <select
+            value={filters.minLiquidity}
+            onChange={(e) => updateFilters({ minLiquidity: Number(e.target.value) })}
+          >
+            {LIQUIDITY_THRESHOLDS.map(value => (
+              <option key={value} value={value}>{value ? formatVolume(value) : 'Any'}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="filter-field">
+          <span>Min volume</span>
+          <select
+            value={filters.minVolume}
+            onChange={(e) => updateFilters({ minVolume: Number(e.target.value) })}
+          >
+            {VOLUME_THRESHOLDS.map(value => (
+              <option key={value} value={value}>{value ? formatVolume(value) : 'Any'}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="filter-field">
+          <span>Ends after</span>
+          <input
+            type="date"
+            value={filters.endAfter}
+            max={filters.endBefore || undefined}
+            onChange={(e) => updateFilters({ endAfter: e.target.value })}
+          />
+        </label>
+
+        <label className="filter-field">
+          <span>Ends before</span>
+          <input
+            type="date"
+            value={filters.endBefore}
+            min={filters.endAfter || undefined}
+            onChange={(e) => updateFilters({ endBefore: e.target.value })}
+          />
+        </label>
+      </div>
+
       {/* Markets Container */}
       <div className={`markets-container ${layout}-layout`}>
         {isLoading ? (
@@ -222,53 +534,17 @@ export function MarketsView({ onSelectMarket, invalidMarketIds = new Set(), isVa
         ) : filteredMarkets.length === 0 ? (
           <div className="empty-state">No markets found</div>
         ) : (
-          filteredMarkets.map(market => (
-            <div
-              key={market.id}
-              className={`market-card ${flashingMarkets.has(market.id) ? 'flash' : ''}`}
-              onClick={() => onSelectMarket(market)}
-            >
-              <div className="market-header">
-                <img
-                  src={market.image}
-                  alt=""
-                  className="market-image"
-                  onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
-                />
-                <h3 className="market-title">{market.question}</h3>
-              </div>
-
-              <div className="market-prices">
-                <div className="price-box yes">
-                  <div className="price-label">Yes</div>
-                  <div className="price-value">{(market.outcomePrices[0] * 100).toFixed(0)}¢</div>
-                  <div className={`price-change ${market.oneDayPriceChange >= 0 ? 'up' : 'down'}`}>
-                    {market.oneDayPriceChange >= 0 ? '+' : ''}{(market.oneDayPriceChange * 100).toFixed(1)}%
-                  </div>
-                </div>
-                <div className="price-box no">
-                  <div className="price-label">No</div>
-                  <div className="price-value">{(market.outcomePrices[1] * 100).toFixed(0)}¢</div>
-                </div>
-              </div>
-
-              <div className="market-footer">
-                <div className="market-stat">
-                  <span className="stat-label">24h Vol</span>
-                  <span className="stat-value">{formatVolume(market.volume24hr)}</span>
-                </div>
-                <div className="market-stat">
-                  <span className="stat-label">Liquidity</span>
-                  <span className="stat-value">{formatVolume(market.liquidity)}</span>
-                </div>
-                <div className="market-stat">
-                  <span className="stat-label"><span className="live-dot"></span>Live</span>
-                </div>
-              </div>
-            </div>
-          ))
+          listItems.map(item => item.kind === 'event' ? renderEventCard(item.event, item.markets) : renderMarketCard(item.market))
         )}
       </div>
+
+      {/* Next page loads when this scrolls into view */}
+      {!isLoading && hasMore && <div ref={sentinelRef} className="load-more-sentinel" />}
+      {isLoadingMore && (
+        <div className="load-more">
+          <div className="spinner"></div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { OrderBookLevel } from '../websocket';
+
+interface OrderBookDepthProps {
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  tickSize: number;
+  onSelectPrice: (price: string) => void;
+}
+
+interface DepthLevel {
+  price: number;
+  size: number;
+  // Running totals from the best price outwards
+  cumSize: number;
+  cumNotional: number;
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 110;
+// Price range shown either side of the mid in the depth chart
+const CHART_RANGE = 0.15;
+
+// Sort best-first and accumulate size and notional away from the touch
+function accumulate(levels: OrderBookLevel[], side: 'bid' | 'ask'): DepthLevel[] {
+  const sorted = levels
+    .map(level => ({ price: Number(level.price), size: Number(level.size) }))
+    .filter(level => level.size > 0)
+    .sort((a, b) => (side === 'bid' ? b.price - a.price : a.price - b.price));
+
+  let cumSize = 0;
+  let cumNotional = 0;
+  return sorted.map(level => {
+    cumSize += level.size;
+    cumNotional += level.size * level.price;
+    return { ...level, cumSize, cumNotional };
+  });
+}
+
+// Step-shaped area from the best price out to the edge of the chart
+function areaPath(levels: DepthLevel[], edge: number, x: (p: number) => number, y: (s: number) => number): string {
+  if (levels.length === 0) return '';
+
+  let d = `M${x(levels[0].price)},${y(0)}`;
+  levels.forEach((level, i) => {
+    const next = levels[i + 1];
+    d += ` L${x(level.price)},${y(level.cumSize)} L${x(next ? next.price : edge)},${y(level.cumSize)}`;
+  });
+  return `${d} L${x(edge)},${y(0)} Z`;
+}
+
+function formatSize(value: number): string {
+  if (value >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (value >= 1e4) return `${(value / 1e3).toFixed(1)}K`;
+  return value.toFixed(0);
+}
+
+export function OrderBookDepth({ bids, asks, tickSize, onSelectPrice }: OrderBookDepthProps) {
+  const ladderRef = useRef<HTMLDivElement>(null);
+  const spreadRef = useRef<HTMLDivElement>(null);
+  const hasCentered = useRef(false);
+
+  const decimals = Math.max(2, Math.round(-Math.log10(tickSize || 0.01)));
+  const bidLevels = useMemo(() => accumulate(bids, 'bid'), [bids]);
+  const askLevels = useMemo(() => accumulate(asks, 'ask'), [asks]);
+
+  const bestBid = bidLevels[0]?.price;
+  const bestAsk = askLevels[0]?.price;
+  const hasBoth = bestBid !== undefined && bestAsk !== undefined;
+  const spread = hasBoth ? bestAsk - bestBid : null;
+  const mid = hasBoth ? (bestAsk + bestBid) / 2 : bestBid ?? bestAsk ?? null;
+  const maxCumSize = Math.max(bidLevels[bidLevels.length - 1]?.cumSize || 0, askLevels[askLevels.length - 1]?.cumSize || 0);
+
+  // Start the ladder scrolled to the spread once levels arrive
+  useEffect(() => {
+    if (hasCentered.current || !ladderRef.current || !spreadRef.current) return;
+    if (bidLevels.length === 0 && askLevels.length === 0) return;
+
+    const ladder = ladderRef.current;
+    ladder.scrollTop = spreadRef.current.offsetTop - ladder.offsetTop - ladder.clientHeight / 2;
+    hasCentered.current = true;
+  }, [bidLevels.length, askLevels.length]);
+
+  // Depth chart, clipped to a window around the mid so dust at 1¢/99¢ doesn't flatten it
+  const chart = useMemo(() => {
+    if (mid === null) return null;
+
+    const minPrice = Math.max(0, mid - CHART_RANGE);
+    const maxPrice = Math.min(1, mid + CHART_RANGE);
+    const visibleBids = bidLevels.filter(level => level.price >= minPrice);
+    const visibleAsks = askLevels.filter(level => level.price <= maxPrice);
+    const maxSize = Math.max(
+      visibleBids[visibleBids.length - 1]?.cumSize || 0,
+      visibleAsks[visibleAsks.length - 1]?.cumSize || 0,
+      1
+    );
+
+    const x = (price: number) => ((price - minPrice) / (maxPrice - minPrice)) * CHART_WIDTH;
+    const y = (size: number) => CHART_HEIGHT - (size / maxSize) * (CHART_HEIGHT - 4);
+
+    return {
+      bidPath: areaPath(visibleBids, minPrice, x, y),
+      askPath: areaPath(visibleAsks, maxPrice, x, y),
+      midX: x(mid),
+      minPrice,
+      maxPrice,
+    };
+  }, [bidLevels, askLevels, mid]);
+
+  const renderLevel = (level: DepthLevel, side: 'bid' | 'ask') => {
+    const depthPct = maxCumSize > 0 ? (level.cumSize / maxCumSize) * 100 : 0;
+    const color = side === 'bid' ? 'var(--green-bg)' : 'var(--red-bg)';
+    const price = level.price.toFixed(decimals);
+
+    return (
+      <div
+        key={`${side}-${price}`}
+        className={`depth-row ${side}`}
+        style={{ background: `linear-gradient(to left, ${color} ${depthPct}%, transparent ${depthPct}%)` }}
+        onClick={() => onSelectPrice(price)}
+        title="Use this price"
+      >
+        <span className="ob-price">{price}</span>
+        <span className="ob-size">{formatSize(level.size)}</span>
+        <span className="ob-size">{formatSize(level.cumSize)}</span>
+        <span className="ob-size">${formatSize(level.cumNotional)}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="orderbook">
+      {chart && (
+        <svg className="depth-chart" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none">
+          <path d={chart.bidPath} className="depth-area bid" />
+          <path d={chart.askPath} className="depth-area ask" />
+          <line x1={chart.midX} x2={chart.midX} y1={0} y2={CHART_HEIGHT} className="depth-mid" />
+        </svg>
+      )}
+      {chart && (
+        <div className="depth-axis">
+          <span>{(chart.minPrice * 100).toFixed(0)}¢</span>
+          <span>{(chart.maxPrice * 100).toFixed(0)}¢</span>
+        </div>
+      )}
+
+      <div className="depth-row depth-columns">
+        <span>Price</span>
+        <span>Size</span>
+        <span>Total</span>
+        <span>Notional</span>
+      </div>
+
+      <div className="depth-ladder" ref={ladderRef}>
+        {[...askLevels].reverse().map(level => renderLevel(level, 'ask'))}
+        {askLevels.length === 0 && <div className="ob-level">No asks</div>}
+
+        <div className="ob-spread" ref={spreadRef}>
+          {spread !== null ? `Spread ${(spread * 100).toFixed(1)}¢` : 'Spread -'}
+          {' · '}
+          {mid !== null ? `Mid ${(mid * 100).toFixed(1)}¢` : 'Mid -'}
+        </div>
+
+        {bidLevels.map(level => renderLevel(level, 'bid'))}
+        {bidLevels.length === 0 && <div className="ob-level">No bids</div>}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { useState, useEffect, useCallback } from 'react';
 import { useWallet } from '../contexts/WalletContext';
 import { useSafe } from '../contexts/SafeContext';
 import { useTrading } from '../contexts/TradingContext';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { isMultipleOfTick } from '../../utils/tick';
+import { getExpiresAt, formatTimeLeft, EXPIRY_WARNING_MS } from '../orderExpiry';
 
 interface Order {
   id: string;
@@ -12,6 +15,25 @@ interface Order {
   size: number;
   filled: number;
   status: string;
+  orderType: string;
+  // When a GTD order stops matching (ms), null for GTC
+  expiresAt: number | null;
+}
+
+// Open order from the REST API or a user channel order event (same field names)
+function toOrder(o: any): Order {
+  return {
+    id: o.id,
+    asset_id: o.asset_id,
+    market: o.market,
+    side: o.side,
+    price: Number(o.price),
+    size: Number(o.original_size || o.size),
+    filled: Number(o.size_matched || 0),
+    status: o.status,
+    orderType: o.order_type || 'GTC',
+    expiresAt: getExpiresAt(o.expiration),
+  };
 }
 
 interface OrdersViewProps {
@@ -20,12 +42,16 @@ interface OrdersViewProps {
 
 export function OrdersView({ showToast }: OrdersViewProps) {
   const { isConnected } = useWallet();
-  const { refreshSafeBalance } = useSafe();
+  const { refreshSafeBalance, isPaperMode, paperFills } = useSafe();
   const { getOpenOrders, cancelOrder, cancelAllOrders, isInitialized } = useTrading();
+  const { subscribeToBook, onUserMessage, isUserChannelConnected } = useWebSocket();
 
   const [orders, setOrders] = useState<Order[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // Current tick size per asset, from the live book (follows tick_size_change)
+  const [tickSizes, setTickSizes] = useState<Record<string, string>>({});
 
   const fetchOrders = useCallback(async () => {
     if (!isInitialized) return;
@@ -34,16 +60,7 @@ export function OrdersView({ showToast }: OrdersViewProps) {
 
     try {
       const data = await getOpenOrders();
-      setOrders((data || []).map((o: any) => ({
-        id: o.id,
-        asset_id: o.asset_id,
-        market: o.market,
-        side: o.side,
-        price: Number(o.price),
-        size: Number(o.original_size || o.size),
-        filled: Number(o.size_matched || 0),
-        status: o.status,
-      })));
+      setOrders((data || []).map(toOrder));
     } catch (error) {
       console.error('Failed to fetch orders:', error);
       showToast('Failed to load orders', 'error');
@@ -52,11 +69,63 @@ export function OrdersView({ showToast }: OrdersViewProps) {
     }
   }, [isInitialized, getOpenOrders, showToast]);
 
+  // Paper fills change order status, so refetch whenever the engine fills
   useEffect(() => {
-    if (isConnected && isInitialized) {
+    if ((isConnected || isPaperMode) && isInitialized) {
       fetchOrders();
     }
-  }, [isConnected, isInitialized, fetchOrders]);
+  }, [isConnected, isPaperMode, isInitialized, fetchOrders, paperFills]);
+
+  // Apply live order events from the user channel
+  useEffect(() => {
+    if (isPaperMode) return;
+    return onUserMessage((msg) => {
+      if (msg.event_type !== 'order') return;
+
+      setOrders(prev => {
+        const rest = prev.filter(o => o.id !== msg.id);
+        if (msg.type === 'CANCELLATION') return rest;
+
+        const order = toOrder(msg);
+        const existing = prev.find(o => o.id === msg.id);
+        // Fully matched orders leave the book
+        if (order.filled >= order.size) return rest;
+        if (!existing) return [order, ...prev];
+        return prev.map(o => (o.id === msg.id ? { ...existing, filled: order.filled } : o));
+      });
+    });
+  }, [isPaperMode, onUserMessage]);
+
+  // Watch the books of assets with resting orders so tick size changes are noticed
+  const assetKey = [...new Set(orders.map(o => o.asset_id))].sort().join(',');
+  useEffect(() => {
+    if (!assetKey) return;
+    const unsubscribes = assetKey.split(',').map(assetId =>
+      subscribeToBook(assetId, (book) => {
+        if (book.status !== 'ready') return;
+        setTickSizes(prev => (prev[assetId] === book.tickSize ? prev : { ...prev, [assetId]: book.tickSize }));
+      })
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [assetKey, subscribeToBook]);
+
+  const isOffTick = (order: Order) => {
+    const tickSize = tickSizes[order.asset_id];
+    return !!tickSize && !isMultipleOfTick(order.price, tickSize);
+  };
+  const offTickCount = orders.filter(isOffTick).length;
+
+  // Tick the expiry countdowns, and refetch once an order has expired
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (orders.some(o => o.expiresAt !== null && o.expiresAt <= current)) {
+        fetchOrders();
+      }
+    }, 15000);
+    return () => clearInterval(timer);
+  }, [orders, fetchOrders]);
 
   const handleCancelOrder = async (orderId: string) => {
     setCancellingId(orderId);
@@ -91,7 +160,7 @@ export function OrdersView({ showToast }: OrdersViewProps) {
     }
   };
 
-  if (!isConnected) {
+  if (!isConnected && !isPaperMode) {
     return (
       <div id="ordersView" className="view active">
         <div className="empty-state">Connect wallet to view orders</div>
@@ -102,7 +171,12 @@ export function OrdersView({ showToast }: OrdersViewProps) {
   return (
     <div id="ordersView" className="view active">
       <div className="orders-header">
-        <h2>Open Orders</h2>
+        <h2>
+          Open Orders
+          {isUserChannelConnected && !isPaperMode && (
+            <span className="orders-live"><span className="live-dot"></span>Live</span>
+          )}
+        </h2>
         <div className="orders-actions">
           <button className="btn-secondary" onClick={fetchOrders} disabled={isLoading}>
             {isLoading ? 'Loading...' : 'Refresh'}
@@ -117,6 +191,12 @@ export function OrdersView({ showToast }: OrdersViewProps) {
         </div>
       </div>
 
+      {offTickCount > 0 && (
+        <div className="trade-warning">
+          {offTickCount} open {offTickCount === 1 ? 'order is' : 'orders are'} off the market's new tick size and won't match - cancel and re-place at a valid price
+        </div>
+      )}
+
       <div className="orders-container">
         {isLoading ? (
           <div className="loading-state">
@@ -125,28 +205,68 @@ export function OrdersView({ showToast }: OrdersViewProps) {
         ) : orders.length === 0 ? (
           <div className="empty-state">No open orders</div>
         ) : (
-          orders.map(order => (
-            <div key={order.id} className="order-card">
-              <span className={`order-side ${order.side.toLowerCase()}`}>
-                {order.side}
-              </span>
-              <div className="order-info">
-                <div className="order-market">{order.market.slice(0, 30)}...</div>
-                <div className="order-details">
-                  ${order.price.toFixed(3)} x {order.size} ({order.filled} filled)
+          orders.map(order => {
+            const timeLeft = order.expiresAt !== null ? order.expiresAt - now : null;
+            const expiringSoon = timeLeft !== null && timeLeft < EXPIRY_WARNING_MS;
+            const offTick = isOffTick(order);
+
+            return (
+              <div key={order.id} className={`order-card ${expiringSoon || offTick ? 'expiring' : ''}`}>
+                <span className={`order-side ${order.side.toLowerCase()}`}>
+                  {order.side}
+                </span>
+                <div className="order-info">
+                  <div className="order-market">{order.market.slice(0, 30)}...</div>
+                  <div className="order-details">
+                    ${order.price.toFixed(3)} x {order.size} ({order.filled} filled)
+                  </div>
+                  {offTick && (
+                    <div className="order-expiry soon">
+                      Off tick - the tick size is now {tickSizes[order.asset_id]}
+                    </div>
+                  )}
+                  {order.expiresAt !== null && (
+                    <div className={`order-expiry ${expiringSoon ? 'soon' : ''}`}>
+                      {order.orderType} - expires {new Date(order.expiresAt).toLocaleString()}
+                      {expiringSoon && ` (${formatTimeLeft(timeLeft!)})`}
+                    </div>
+                  )}
                 </div>
+                <button
+                  className="btn-danger"
+                  onClick={() => handleCancelOrder(order.id)}
+                  disabled={cancellingId === order.id}
+                >
+                  {cancellingId === order.id ? '...' : 'Cancel'}
+                </button>
               </div>
-              <button
-                className="btn-danger"
-                onClick={() => handleCancelOrder(order.id)}
-                disabled={cancellingId === order.id}
-              >
-                {cancellingId === order.id ? '...' : 'Cancel'}
-              </button>
-            </div>
-          ))
+            );
+          })
         )}
       </div>
+
+      {isPaperMode && paperFills.length > 0 && (
+        <>
+          <div className="orders-header">
+            <h2>Recent Paper Fills</h2>
+          </div>
+          <div className="orders-container">
+            {paperFills.slice(0, 20).map((fill, index) => (
+              <div key={`${fill.orderId}-${index}`} className="order-card">
+                <span className={`order-side ${fill.side.toLowerCase()}`}>
+                  {fill.side}
+                </span>
+                <div className="order-info">
+                  <div className="order-market">{fill.assetId.slice(0, 30)}...</div>
+                  <div className="order-details">
+                    ${fill.price.toFixed(3)} x {fill.size} - {new Date(fill.timestamp).toLocaleTimeString()}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 }
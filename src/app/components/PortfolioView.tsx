@@ -1,11 +1,21 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useWallet } from '../contexts/WalletContext';
 import { useSafe } from '../contexts/SafeContext';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { useBrackets } from '../contexts/BracketsContext';
+import { BracketForm, type BracketFormValues } from './BracketForm';
+import { LEG_LABELS, describeBracket } from '../brackets';
+import { userChannel, userFills } from '../userChannel';
+import { ENDPOINTS } from '../../config';
 
-const DATA_API = 'https://data-api.polymarket.com';
+const DATA_API = ENDPOINTS.dataApi;
 
 interface Position {
   asset: string;
+  conditionId: string;
+  outcomeIndex: number;
+  // Token ID of the other outcome in the same market
+  oppositeAsset: string;
   title: string;
   image: string;
   outcome: string;
@@ -14,6 +24,8 @@ interface Position {
   currentPrice: number;
   pnl: number;
   negRisk: boolean;
+  // Whether the market has resolved in this position's favour (null while unresolved)
+  won: boolean | null;
 }
 
 interface PortfolioViewProps {
@@ -22,15 +34,34 @@ interface PortfolioViewProps {
 
 export function PortfolioView({ showToast }: PortfolioViewProps) {
   const { isConnected } = useWallet();
-  const { safeAddress, refreshSafeBalance } = useSafe();
+  const {
+    safeAddress,
+    refreshSafeBalance,
+    safeUsdceBalance,
+    isPaperMode,
+    paperPositions,
+    paperRealizedPnl,
+    resetPaperAccount,
+    redeemPositions,
+  } = useSafe();
+  const { subscribeToAsset, onMessage, onUserMessage } = useWebSocket();
+  const { brackets, getBracket, setBracket, removeBracket, syncPositionSizes, getBestBid, isMonitoring } = useBrackets();
 
   const [positions, setPositions] = useState<Position[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // Safe address the positions list was last loaded for
+  const [positionsAccount, setPositionsAccount] = useState<string | null>(null);
+  // Condition ID -> winning token ID, from market_resolved events seen this session
+  const [resolvedMarkets, setResolvedMarkets] = useState<Record<string, string>>({});
+  const [redeemingMarket, setRedeemingMarket] = useState<string | null>(null);
+  // Asset ID of the position whose bracket is being edited
+  const [editingBracket, setEditingBracket] = useState<string | null>(null);
 
-  const fetchPositions = useCallback(async () => {
+  // Background refreshes (after live fills) keep the current list on screen
+  const fetchPositions = useCallback(async (background = false) => {
     if (!safeAddress) return;
 
-    setIsLoading(true);
+    if (!background) setIsLoading(true);
 
     try {
       const response = await fetch(
@@ -40,6 +71,9 @@ export function PortfolioView({ showToast }: PortfolioViewProps) {
 
       setPositions((data || []).map((p: any) => ({
         asset: p.asset,
+        conditionId: p.conditionId || '',
+        outcomeIndex: Number(p.outcomeIndex || 0),
+        oppositeAsset: p.oppositeAsset || '',
         title: p.title || 'Unknown',
         image: p.image || '',
         outcome: p.outcome || 'Yes',
@@ -48,7 +82,10 @@ export function PortfolioView({ showToast }: PortfolioViewProps) {
         currentPrice: Number(p.curPrice || 0),
         pnl: Number(p.cashPnl || 0),
         negRisk: p.negativeRisk ?? false,
+        // Resolved positions are redeemable and priced at their payout (1 or 0)
+        won: p.redeemable ? Number(p.curPrice || 0) > 0.5 : null,
       })));
+      setPositionsAccount(safeAddress.toLowerCase());
     } catch (error) {
       console.error('Failed to fetch positions:', error);
       showToast('Failed to load positions', 'error');
@@ -58,16 +95,151 @@ export function PortfolioView({ showToast }: PortfolioViewProps) {
   }, [safeAddress, showToast]);
 
   useEffect(() => {
-    if (isConnected && safeAddress) {
+    if (isConnected && safeAddress && !isPaperMode) {
       fetchPositions();
     }
-  }, [isConnected, safeAddress, fetchPositions]);
+  }, [isConnected, safeAddress, isPaperMode, fetchPositions]);
 
-  // Calculate totals
-  const portfolioValue = positions.reduce((sum, p) => sum + (p.size * p.currentPrice), 0);
-  const totalPnl = positions.reduce((sum, p) => sum + p.pnl, 0);
+  // Live fills from the user channel: adjust sizes as soon as a trade matches,
+  // then reload from the data API once it confirms (new positions, avg price, P&L)
+  useEffect(() => {
+    if (isPaperMode) return;
+    let refreshTimer: number | undefined;
+
+    const unsubscribe = onUserMessage((msg) => {
+      if (msg.event_type !== 'trade') return;
+      const apiKey = userChannel.getApiKey();
+      const fills = apiKey ? userFills(msg, apiKey) : [];
+      if (fills.length === 0) return;
+
+      if (msg.status === 'MATCHED') {
+        setPositions(prev => prev.map(p => {
+          const delta = fills
+            .filter(fill => fill.assetId === p.asset)
+            .reduce((sum, fill) => sum + (fill.side === 'BUY' ? fill.size : -fill.size), 0);
+          return delta ? { ...p, size: Math.max(0, p.size + delta) } : p;
+        }));
+      }
+
+      if (msg.status === 'CONFIRMED' || msg.status === 'FAILED') {
+        // Fills often confirm in bursts, so refresh once they settle
+        clearTimeout(refreshTimer);
+        refreshTimer = window.setTimeout(() => fetchPositions(true), 1000);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      clearTimeout(refreshTimer);
+    };
+  }, [isPaperMode, onUserMessage, fetchPositions]);
+
+  // Watch held markets for resolution (the data API can lag behind the feed)
+  useEffect(() => {
+    if (isPaperMode) return;
+    const releases = positions.filter(p => p.won === null).map(p => subscribeToAsset(p.asset));
+    return () => releases.forEach(release => release());
+  }, [positions, isPaperMode, subscribeToAsset]);
+
+  useEffect(() => {
+    if (isPaperMode) return;
+    return onMessage((msg) => {
+      if (msg.event_type !== 'market_resolved') return;
+      if (!positions.some(p => p.conditionId === msg.market)) return;
+
+      console.log('[Portfolio] Market resolved:', msg.question, '->', msg.winning_outcome);
+      setResolvedMarkets(prev => ({ ...prev, [msg.market]: msg.winning_asset_id }));
+      showToast(`Resolved: ${msg.question} (${msg.winning_outcome})`, 'success');
+    });
+  }, [positions, isPaperMode, onMessage, showToast]);
+
+  const handleRedeem = async (position: Position) => {
+    setRedeemingMarket(position.conditionId);
+    try {
+      // Token IDs in outcome order (Yes, No) for the neg risk adapter
+      const tokenIds = position.outcomeIndex === 0
+        ? [position.asset, position.oppositeAsset]
+        : [position.oppositeAsset, position.asset];
+      await redeemPositions({ conditionId: position.conditionId, negRisk: position.negRisk, tokenIds });
+      showToast(position.won ? `Redeemed $${position.size.toFixed(2)}` : 'Position cleared', 'success');
+      if (!isPaperMode) {
+        fetchPositions();
+      }
+    } catch (error: any) {
+      console.error('Redeem failed:', error);
+      showToast(error?.message || 'Redeem failed', 'error');
+    } finally {
+      setRedeemingMarket(null);
+    }
+  };
+
+  const handleResetPaper = () => {
+    if (!confirm('Reset the paper account? All paper positions and fills will be cleared.')) return;
+    resetPaperAccount();
+    showToast('Paper account reset', 'success');
+  };
+
+  const displayedPositions: Position[] = isPaperMode
+    ? paperPositions.map(p => ({
+        asset: p.assetId,
+        conditionId: p.market,
+        outcomeIndex: 0,
+        oppositeAsset: '',
+        title: p.title,
+        image: p.image || '',
+        outcome: p.outcome || 'Yes',
+        size: p.size,
+        avgPrice: p.avgPrice,
+        currentPrice: p.currentPrice,
+        pnl: p.pnl,
+        negRisk: p.negRisk,
+        won: p.resolved ? p.won : null,
+      }))
+    : positions.map(p => {
+        const winner = resolvedMarkets[p.conditionId];
+        if (p.won !== null || !winner) return p;
+        const won = winner === p.asset;
+        const currentPrice = won ? 1 : 0;
+        return { ...p, won, currentPrice, pnl: (currentPrice - p.avgPrice) * p.size };
+      });
+
+  // Calculate totals (paper P&L includes closed positions)
+  const portfolioValue = displayedPositions.reduce((sum, p) => sum + (p.size * p.currentPrice), 0);
+  const totalPnl = displayedPositions.reduce((sum, p) => sum + p.pnl, 0) + (isPaperMode ? paperRealizedPnl : 0);
+  const redeemableValue = displayedPositions.reduce((sum, p) => sum + (p.won ? p.size : 0), 0);
+
+  // Brackets never sell more than is still held. Only synced once the current
+  // account's positions have loaded, as a missing position means it was sold.
+  const positionSizesKey = displayedPositions.map(p => `${p.asset}:${p.size}`).join(',');
+  const loadedAccount = isPaperMode
+    ? 'paper'
+    : (positionsAccount && positionsAccount === safeAddress?.toLowerCase() ? positionsAccount : null);
 
-  if (!isConnected) {
+  useEffect(() => {
+    if (!loadedAccount) return;
+    syncPositionSizes(loadedAccount, Object.fromEntries(positionSizesKey.split(',').filter(Boolean).map(entry => {
+      const [asset, size] = entry.split(':');
+      return [asset, Number(size)];
+    })));
+  }, [loadedAccount, positionSizesKey, syncPositionSizes]);
+
+  const hasArmedBrackets = brackets.some(b => b.status === 'armed');
+
+  const handleSaveBracket = (position: Position, values: BracketFormValues) => {
+    setBracket({
+      ...values,
+      assetId: position.asset,
+      conditionId: position.conditionId,
+      title: position.title,
+      outcome: position.outcome,
+      image: position.image,
+      negRisk: position.negRisk,
+    });
+    setEditingBracket(null);
+    showToast(`Bracket armed: ${describeBracket(values)}`, 'success');
+  };
+
+  if (!isConnected && !isPaperMode) {
     return (
       <div id="portfolioView" className="view active">
         <div className="empty-state">Connect wallet to view positions</div>
@@ -91,12 +263,40 @@ export function PortfolioView({ showToast }: PortfolioViewProps) {
           </div>
           <div className="summary-card">
             <span className="summary-label">Positions</span>
-            <span className="summary-value">{positions.length}</span>
+            <span className="summary-value">{displayedPositions.length}</span>
           </div>
+          {redeemableValue > 0 && (
+            <div className="summary-card">
+              <span className="summary-label">Redeemable</span>
+              <span className="summary-value profit">${redeemableValue.toFixed(2)}</span>
+            </div>
+          )}
+          {isPaperMode && (
+            <div className="summary-card">
+              <span className="summary-label">Paper Cash</span>
+              <span className="summary-value">${safeUsdceBalance.toFixed(2)}</span>
+            </div>
+          )}
         </div>
-        <button className="btn-secondary" onClick={fetchPositions} disabled={isLoading}>
-          {isLoading ? 'Loading...' : 'Refresh'}
-        </button>
+        {isPaperMode ? (
+          <div className="orders-actions">
+            <button className="btn-secondary" onClick={refreshSafeBalance}>
+              Refresh
+            </button>
+            <button className="btn-danger" onClick={handleResetPaper}>
+              Reset
+            </button>
+          </div>
+        ) : (
+          <button className="btn-secondary" onClick={() => fetchPositions()} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </button>
+        )}
+      </div>
+
+      <div className="trade-info">
+        Take-profit and stop-loss brackets are watched by this browser tab - they only trigger while the app is open.
+        {hasArmedBrackets && !isMonitoring && ' Triggers are paused until the trading client is ready.'}
       </div>
 
       <div className="positions-container">
@@ -104,48 +304,103 @@ export function PortfolioView({ showToast }: PortfolioViewProps) {
           <div className="loading-state">
             <div className="spinner"></div>
           </div>
-        ) : positions.length === 0 ? (
-          <div className="empty-state">No positions found</div>
+        ) : displayedPositions.length === 0 ? (
+          <div className="empty-state">{isPaperMode ? 'No paper positions yet' : 'No positions found'}</div>
         ) : (
-          positions.map(position => (
-            <div key={position.asset} className="position-card">
-              <img
-                src={position.image}
-                alt=""
-                className="position-image"
-                onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
-              />
-              <div className="position-info">
-                <div className="position-title">{position.title}</div>
-                <span className={`position-outcome ${position.outcome.toLowerCase()}`}>
-                  {position.outcome}
-                </span>
-              </div>
-              <div className="position-stats">
-                <div className="position-stat">
-                  <div className="position-stat-label">Shares</div>
-                  <div className="position-stat-value">{position.size.toFixed(2)}</div>
+          displayedPositions.map(position => {
+            const bracket = getBracket(position.asset);
+            return (
+              <div key={position.asset} className={`position-card ${position.won !== null ? 'resolved' : ''}`}>
+                <img
+                  src={position.image}
+                  alt=""
+                  className="position-image"
+                  onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+                />
+                <div className="position-info">
+                  <div className="position-title">{position.title}</div>
+                  <span className={`position-outcome ${position.outcome.toLowerCase()}`}>
+                    {position.outcome}
+                  </span>
+                  {position.won !== null && (
+                    <span className={`position-resolution ${position.won ? 'won' : 'lost'}`}>
+                      {position.won ? 'Won' : 'Lost'}
+                    </span>
+                  )}
                 </div>
-                <div className="position-stat">
-                  <div className="position-stat-label">Avg</div>
-                  <div className="position-stat-value">${position.avgPrice.toFixed(3)}</div>
+                <div className="position-stats">
+                  <div className="position-stat">
+                    <div className="position-stat-label">Shares</div>
+                    <div className="position-stat-value">{position.size.toFixed(2)}</div>
+                  </div>
+                  <div className="position-stat">
+                    <div className="position-stat-label">Avg</div>
+                    <div className="position-stat-value">${position.avgPrice.toFixed(3)}</div>
+                  </div>
+                  <div className="position-stat">
+                    <div className="position-stat-label">Current</div>
+                    <div className="position-stat-value">${position.currentPrice.toFixed(3)}</div>
+                  </div>
+                  <div className="position-stat">
+                    <div className="position-stat-label">P&L</div>
+                    <div className={`position-stat-value ${position.pnl >= 0 ? 'profit' : 'loss'}`}>
+                      {position.pnl >= 0 ? '+' : ''}${position.pnl.toFixed(2)}
+                    </div>
+                  </div>
                 </div>
-                <div className="position-stat">
-                  <div className="position-stat-label">Current</div>
-                  <div className="position-stat-value">${position.currentPrice.toFixed(3)}</div>
+                <div className="position-actions">
+                  {position.won !== null ? (
+                    <button
+                      className={position.won ? 'btn-success' : 'btn-secondary'}
+                      onClick={() => handleRedeem(position)}
+                      disabled={redeemingMarket !== null || !position.conditionId}
+                      title={position.conditionId ? undefined : 'Market unknown for this position'}
+                    >
+                      {redeemingMarket === position.conditionId
+                        ? 'Redeeming...'
+                        : position.won ? `Redeem $${position.size.toFixed(2)}` : 'Clear'}
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        className="btn-secondary"
+                        onClick={() => setEditingBracket(editing => (editing === position.asset ? null : position.asset))}
+                      >
+                        {bracket?.status === 'armed' ? 'Edit Bracket' : 'Bracket'}
+                      </button>
+                      <button className="btn-success">Sell</button>
+                    </>
+                  )}
                 </div>
-                <div className="position-stat">
-                  <div className="position-stat-label">P&L</div>
-                  <div className={`position-stat-value ${position.pnl >= 0 ? 'profit' : 'loss'}`}>
-                    {position.pnl >= 0 ? '+' : ''}${position.pnl.toFixed(2)}
+                {bracket && editingBracket !== position.asset && (
+                  <div className={`position-bracket ${bracket.status}`}>
+                    <span>
+                      {bracket.status === 'armed'
+                        ? `${describeBracket(bracket)} on ${Number(bracket.size.toFixed(2))} shares`
+                        : bracket.status === 'triggered'
+                          ? `${LEG_LABELS[bracket.triggeredLeg!]} triggered at ${(bracket.triggerPrice! * 100).toFixed(1)}¢ ${new Date(bracket.triggeredAt!).toLocaleString()}${bracket.orderId ? ' - exit order sent' : ' - sending exit order...'}`
+                          : `${LEG_LABELS[bracket.triggeredLeg!]} exit failed: ${bracket.error}`}
+                    </span>
+                    <button className="btn-secondary" onClick={() => removeBracket(position.asset)}>
+                      {bracket.status === 'armed' ? 'Remove' : 'Dismiss'}
+                    </button>
                   </div>
-                </div>
-              </div>
-              <div className="position-actions">
-                <button className="btn-success">Sell</button>
+                )}
+                {editingBracket === position.asset && (
+                  <div className="position-bracket">
+                    <BracketForm
+                      positionSize={position.size}
+                      avgPrice={position.avgPrice}
+                      bid={getBestBid(position.asset)}
+                      initial={bracket}
+                      onSave={(values) => handleSaveBracket(position, values)}
+                      onCancel={() => setEditingBracket(null)}
+                    />
+                  </div>
+                )}
               </div>
-            </div>
-          ))
+            );
+          })
         )}
       </div>
     </div>
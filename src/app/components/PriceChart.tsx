@@ -0,0 +1,198 @@
+import { useState, useEffect, useMemo, useRef, type MouseEvent } from 'react';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import type { LastTradePriceMessage } from '../websocket';
+import { PRICE_RANGES, appendPricePoint, fetchPriceHistory, type PricePoint, type PriceRange } from '../priceHistory';
+
+// One of the user's own fills, drawn on top of the price line
+export interface ChartFill {
+  timestamp: number;
+  price: number;
+  side: 'BUY' | 'SELL';
+  size: number;
+}
+
+interface PriceChartProps {
+  tokenId: string;
+  outcome: string;
+  fills: ChartFill[];
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+// Vertical breathing room around the price range, in price units
+const Y_PADDING = 0.02;
+
+const formatTime = (t: number, range: PriceRange) => {
+  const date = new Date(t);
+  if (range === '1H' || range === '1D') return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+// Price history of one outcome token with selectable ranges. The latest point
+// follows last_trade_price messages; the user's fills are marked on the line.
+export function PriceChart({ tokenId, outcome, fills }: PriceChartProps) {
+  const { onMessage } = useWebSocket();
+  const [range, setRange] = useState<PriceRange>('1D');
+  const [points, setPoints] = useState<PricePoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setHoverIndex(null);
+
+    fetchPriceHistory(tokenId, range)
+      .then(history => {
+        if (!cancelled) setPoints(history);
+      })
+      .catch(err => {
+        console.error('[PriceChart] Failed to load history:', err);
+        if (!cancelled) {
+          setPoints([]);
+          setError(err.message || 'Failed to load price history');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId, range]);
+
+  // Extend the line with live trades
+  useEffect(() => {
+    return onMessage((msg) => {
+      if (msg.event_type !== 'last_trade_price' || msg.asset_id !== tokenId) return;
+      const trade = msg as LastTradePriceMessage;
+      const t = Number(trade.timestamp) || Date.now();
+      setPoints(prev => appendPricePoint(prev, { t, p: Number(trade.price) }));
+    });
+  }, [onMessage, tokenId]);
+
+  const chart = useMemo(() => {
+    if (points.length === 0) return null;
+
+    const start = points[0].t;
+    const end = Math.max(points[points.length - 1].t, start + 1);
+    const visibleFills = fills.filter(fill => fill.timestamp >= start && fill.timestamp <= end);
+    const prices = [...points.map(point => point.p), ...visibleFills.map(fill => fill.price)];
+    const minPrice = Math.max(0, Math.min(...prices) - Y_PADDING);
+    const maxPrice = Math.min(1, Math.max(...prices) + Y_PADDING);
+    const spanPrice = Math.max(maxPrice - minPrice, 0.01);
+
+    // Fractions of the plot (0-1) so HTML overlays can be placed with percentages
+    const fx = (t: number) => (t - start) / (end - start);
+    const fy = (p: number) => 1 - (p - minPrice) / spanPrice;
+
+    const line = points
+      .map((point, i) => `${i === 0 ? 'M' : 'L'}${(fx(point.t) * CHART_WIDTH).toFixed(1)},${(fy(point.p) * CHART_HEIGHT).toFixed(1)}`)
+      .join(' ');
+    const area = `${line} L${CHART_WIDTH},${CHART_HEIGHT} L0,${CHART_HEIGHT} Z`;
+
+    return { start, end, minPrice, maxPrice, fx, fy, line, area, visibleFills };
+  }, [points, fills]);
+
+  const first = points[0]?.p;
+  const last = points[points.length - 1]?.p;
+  const change = first !== undefined && last !== undefined ? last - first : 0;
+  const hovered = hoverIndex !== null ? points[hoverIndex] : null;
+
+  const handleMouseMove = (e: MouseEvent<HTMLDivElement>) => {
+    if (!chart || !plotRef.current) return;
+    const rect = plotRef.current.getBoundingClientRect();
+    const t = chart.start + ((e.clientX - rect.left) / rect.width) * (chart.end - chart.start);
+    // Nearest point by time
+    let nearest = 0;
+    points.forEach((point, i) => {
+      if (Math.abs(point.t - t) < Math.abs(points[nearest].t - t)) nearest = i;
+    });
+    setHoverIndex(nearest);
+  };
+
+  return (
+    <div className="price-chart">
+      <div className="price-chart-header">
+        <div className="price-chart-summary">
+          <span className="price-chart-outcome">{outcome}</span>
+          {(hovered || last !== undefined) && (
+            <span className="price-chart-price">{((hovered?.p ?? last) * 100).toFixed(1)}¢</span>
+          )}
+          {hovered ? (
+            <span className="price-chart-time">{new Date(hovered.t).toLocaleString()}</span>
+          ) : points.length > 1 && (
+            <span className={`price-change ${change >= 0 ? 'up' : 'down'}`}>
+              {change >= 0 ? '+' : ''}{(change * 100).toFixed(1)}¢
+            </span>
+          )}
+        </div>
+        <div className="price-chart-ranges">
+          {(Object.keys(PRICE_RANGES) as PriceRange[]).map(option => (
+            <button
+              key={option}
+              className={`range-btn ${range === option ? 'active' : ''}`}
+              onClick={() => setRange(option)}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        className="price-chart-plot"
+        ref={plotRef}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {isLoading && points.length === 0 ? (
+          <div className="price-chart-empty">Loading price history...</div>
+        ) : error ? (
+          <div className="price-chart-empty">{error}</div>
+        ) : !chart ? (
+          <div className="price-chart-empty">No trades in this range</div>
+        ) : (
+          <>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none">
+              <path d={chart.area} className={`price-chart-area ${change >= 0 ? 'up' : 'down'}`} />
+              <path d={chart.line} className={`price-chart-line ${change >= 0 ? 'up' : 'down'}`} vectorEffect="non-scaling-stroke" />
+            </svg>
+            {chart.visibleFills.map((fill, i) => (
+              <span
+                key={`${fill.timestamp}-${i}`}
+                className={`price-chart-fill ${fill.side.toLowerCase()}`}
+                style={{ left: `${chart.fx(fill.timestamp) * 100}%`, top: `${chart.fy(fill.price) * 100}%` }}
+                title={`${fill.side} ${fill.size.toFixed(2)} @ ${(fill.price * 100).toFixed(1)}¢`}
+              />
+            ))}
+            {hovered && (
+              <>
+                <span className="price-chart-crosshair" style={{ left: `${chart.fx(hovered.t) * 100}%` }} />
+                <span
+                  className="price-chart-dot"
+                  style={{ left: `${chart.fx(hovered.t) * 100}%`, top: `${chart.fy(hovered.p) * 100}%` }}
+                />
+              </>
+            )}
+            <div className="price-chart-axis y">
+              <span>{(chart.maxPrice * 100).toFixed(0)}¢</span>
+              <span>{(chart.minPrice * 100).toFixed(0)}¢</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      {chart && (
+        <div className="price-chart-axis x">
+          <span>{formatTime(chart.start, range)}</span>
+          <span>{formatTime(chart.end, range)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
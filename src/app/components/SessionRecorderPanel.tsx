@@ -0,0 +1,119 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  sessionRecorder,
+  parseRecording,
+  SessionReplayer,
+  type Recording,
+  type ReplaySpeed,
+} from '../sessionRecording';
+
+interface SessionRecorderPanelProps {
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+// Debug panel for recording and replaying market channel traffic.
+// Shown when the page is opened with ?debug in the URL.
+export function SessionRecorderPanel({ showToast }: SessionRecorderPanelProps) {
+  const [isRecording, setIsRecording] = useState(sessionRecorder.isRecording());
+  const [recordedFrames, setRecordedFrames] = useState(sessionRecorder.frameCount());
+  const [loaded, setLoaded] = useState<{ name: string; recording: Recording } | null>(null);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+  const [progress, setProgress] = useState<{ played: number; total: number } | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const replayerRef = useRef<SessionReplayer | null>(null);
+
+  // Frame counter while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => setRecordedFrames(sessionRecorder.frameCount()), 1000);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  // Stop a replay if the panel goes away
+  useEffect(() => {
+    return () => replayerRef.current?.stop();
+  }, []);
+
+  const toggleRecording = () => {
+    if (isRecording) {
+      sessionRecorder.stop();
+      setIsRecording(false);
+      setRecordedFrames(sessionRecorder.frameCount());
+    } else {
+      sessionRecorder.start();
+      setIsRecording(true);
+      setRecordedFrames(0);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const recording = parseRecording(await file.text());
+      setLoaded({ name: file.name, recording });
+      setProgress(null);
+      showToast(`Loaded ${recording.frames.length} frames`, 'success');
+    } catch (error: any) {
+      showToast(error?.message || 'Invalid recording', 'error');
+    }
+  };
+
+  const toggleReplay = async () => {
+    if (isReplaying) {
+      replayerRef.current?.stop();
+      return;
+    }
+    if (!loaded) return;
+
+    const replayer = new SessionReplayer(loaded.recording);
+    replayerRef.current = replayer;
+    replayer.onProgress((played, total) => setProgress({ played, total }));
+
+    setIsReplaying(true);
+    await replayer.play(speed);
+    setIsReplaying(false);
+    replayerRef.current = null;
+  };
+
+  return (
+    <div className="session-panel">
+      <div className="session-row">
+        <span className="session-title">WS session</span>
+        <button className={`btn-secondary ${isRecording ? 'recording' : ''}`} onClick={toggleRecording} disabled={isReplaying}>
+          {isRecording ? `Stop (${recordedFrames})` : 'Record'}
+        </button>
+        <button className="btn-secondary" onClick={() => sessionRecorder.download()} disabled={recordedFrames === 0}>
+          Download
+        </button>
+      </div>
+
+      <div className="session-row">
+        <input
+          type="file"
+          accept=".ndjson,.jsonl,application/x-ndjson"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          disabled={isReplaying}
+        />
+      </div>
+
+      <div className="session-row">
+        <select
+          value={String(speed)}
+          onChange={(e) => setSpeed(e.target.value === 'max' ? 'max' : (Number(e.target.value) as ReplaySpeed))}
+          disabled={isReplaying}
+        >
+          <option value="1">1x</option>
+          <option value="10">10x</option>
+          <option value="max">Max</option>
+        </select>
+        <button className="btn-secondary" onClick={toggleReplay} disabled={!loaded || isRecording}>
+          {isReplaying ? 'Stop replay' : 'Replay'}
+        </button>
+        {progress && (
+          <span className="session-progress">{progress.played}/{progress.total}</span>
+        )}
+      </div>
+      {isReplaying && <div className="session-note">Live feed paused during replay</div>}
+    </div>
+  );
+}
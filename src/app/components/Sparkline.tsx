@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef } from 'react';
+import { fetchSparkline, type PricePoint } from '../priceHistory';
+
+interface SparklineProps {
+  tokenId: string;
+}
+
+const WIDTH = 120;
+const HEIGHT = 32;
+
+// Compact 24h price line for a market card. History is only fetched once the
+// card scrolls into view, so long lists don't request every market up front.
+export function Sparkline({ tokenId }: SparklineProps) {
+  const [points, setPoints] = useState<PricePoint[] | null>(null);
+  const ref = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    let cancelled = false;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (!entries.some(entry => entry.isIntersecting)) return;
+      observer.disconnect();
+      fetchSparkline(tokenId).then(history => {
+        if (!cancelled) setPoints(history);
+      });
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [tokenId]);
+
+  let path = '';
+  let trend = 'flat';
+  if (points && points.length > 1) {
+    const prices = points.map(point => point.p);
+    const min = Math.min(...prices);
+    const span = Math.max(Math.max(...prices) - min, 0.005);
+    const start = points[0].t;
+    const duration = Math.max(points[points.length - 1].t - start, 1);
+    path = points
+      .map((point, i) => {
+        const x = ((point.t - start) / duration) * WIDTH;
+        const y = HEIGHT - 2 - ((point.p - min) / span) * (HEIGHT - 4);
+        return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+    const change = prices[prices.length - 1] - prices[0];
+    trend = change > 0 ? 'up' : change < 0 ? 'down' : 'flat';
+  }
+
+  return (
+    <svg ref={ref} className="sparkline" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none">
+      {path && <path d={path} className={`sparkline-line ${trend}`} vectorEffect="non-scaling-stroke" />}
+    </svg>
+  );
+}
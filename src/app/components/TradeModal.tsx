@@ -1,139 +1,238 @@
 import { useState, useEffect } from 'react';
 import { useWallet } from '../contexts/WalletContext';
 import { useSafe } from '../contexts/SafeContext';
-import { useTrading } from '../contexts/TradingContext';
-import { useWebSocket } from '../contexts/WebSocketContext';
+import { useTrading, type LimitOrderType, type MarketOrderType } from '../contexts/TradingContext';
+import { useOrderBook, useWebSocket } from '../contexts/WebSocketContext';
+import { useAlerts } from '../contexts/AlertsContext';
 import type { Market } from './MarketsView';
-import type { BookMessage } from '../websocket';
+import type { OrderBookLevel } from '../websocket';
+import { bestOppositePrice, crossesBook, estimateMarketFill, priceThroughBook, toMarketOrderAmount, type SizeUnit } from '../marketOrder';
+import { OrderBookDepth } from './OrderBookDepth';
+import { WatchStar } from './WatchStar';
+import { AlertForm, type AlertFormValues } from './AlertForm';
+import { PriceChart, type ChartFill } from './PriceChart';
+import { TradesTape } from './TradesTape';
+import { userChannel, userFills } from '../userChannel';
+import { isMultipleOfTick, snapToTick, tickDecimals } from '../../utils/tick';
 
 interface TradeModalProps {
   market: Market;
+  // Outcome selected when the modal opens (0 = first outcome, usually Yes)
+  initialOutcome?: number;
   onClose: () => void;
   showToast: (message: string, type: 'success' | 'error') => void;
 }
 
-interface OrderBookLevel {
-  price: string;
-  size: string;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Orders further than this through the best opposite level ask for confirmation (%)
+const MAX_SLIPPAGE_STORAGE_KEY = 'POLY_MAX_SLIPPAGE';
+const DEFAULT_MAX_SLIPPAGE = 5;
+
+function loadMaxSlippage(): string {
+  const stored = Number(localStorage.getItem(MAX_SLIPPAGE_STORAGE_KEY));
+  return String(stored > 0 ? stored : DEFAULT_MAX_SLIPPAGE);
+}
+
+// Format a timestamp for a datetime-local input (local time, minute precision)
+function toDateTimeInput(timestamp: number): string {
+  const date = new Date(timestamp);
+  return new Date(timestamp - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
 }
 
-export function TradeModal({ market, onClose, showToast }: TradeModalProps) {
+const NO_LEVELS: OrderBookLevel[] = [];
+
+function describeBookError(error: string | null): string {
+  const message = error || 'Failed to load orderbook';
+  if (message.includes('does not exist') || message.includes('No orderbook exists')) {
+    return 'This market orderbook does not exist. Try a different market.';
+  }
+  return message;
+}
+
+export function TradeModal({ market, initialOutcome = 0, onClose, showToast }: TradeModalProps) {
   const { isConnected, connect } = useWallet();
-  const { safeUsdceBalance, refreshSafeBalance, isSafeDeployed } = useSafe();
-  const { placeOrder, getOrderBook, isInitialized, isDerivingCreds } = useTrading();
-  const { subscribeToAsset, onMessage } = useWebSocket();
+  const { safeUsdceBalance, refreshSafeBalance, isSafeDeployed, isPaperMode, paperFills } = useSafe();
+  const { placeOrder, placeMarketOrder, isInitialized, isDerivingCreds, getFills } = useTrading();
+  const { onUserMessage } = useWebSocket();
+  const { alerts, addAlert, requestNotificationPermission } = useAlerts();
 
-  const [selectedOutcome, setSelectedOutcome] = useState(0);
+  const [selectedOutcome, setSelectedOutcome] = useState(initialOutcome);
   const [side, setSide] = useState<'BUY' | 'SELL'>('BUY');
-  const [price, setPrice] = useState(market.bestAsk.toFixed(3) || '0.50');
+  const [orderMode, setOrderMode] = useState<'limit' | 'market'>('limit');
+  const [marketOrderType, setMarketOrderType] = useState<MarketOrderType>('FOK');
+  const [limitOrderType, setLimitOrderType] = useState<LimitOrderType>('GTC');
+  const [expiry, setExpiry] = useState(() => toDateTimeInput(Date.now() + HOUR_MS));
+  // bestBid/bestAsk are quoted for the first outcome; the second's ask is the complement of its bid
+  const [price, setPrice] = useState(() => {
+    const ask = initialOutcome === 0 ? market.bestAsk : 1 - market.bestBid;
+    return snapToTick(ask || 0.5, market.tickSize).toFixed(tickDecimals(market.tickSize));
+  });
   const [amount, setAmount] = useState(String(market.minSize || 10));
+  const [sizeUnit, setSizeUnit] = useState<SizeUnit>('shares');
+  const [postOnly, setPostOnly] = useState(false);
+  const [maxSlippage, setMaxSlippage] = useState(loadMaxSlippage);
+  const [confirmingSlippage, setConfirmingSlippage] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [orderBook, setOrderBook] = useState<{ bids: OrderBookLevel[]; asks: OrderBookLevel[] }>({ bids: [], asks: [] });
-  const [orderbookError, setOrderbookError] = useState<string | null>(null);
-  const [isLoadingBook, setIsLoadingBook] = useState(true);
+  const [showAlertForm, setShowAlertForm] = useState(false);
+
+  // Paper mode trades against a virtual balance, so no wallet is needed
+  const canTrade = isConnected || isPaperMode;
+  const balanceLabel = isPaperMode ? 'Paper' : 'Safe';
 
   // Refresh balances when modal opens
   useEffect(() => {
-    if (isConnected) {
+    if (canTrade) {
       refreshSafeBalance();
     }
-  }, [isConnected, refreshSafeBalance]);
+  }, [canTrade, refreshSafeBalance]);
+
+  // Live book for the selected outcome, kept current from price_change deltas
+  const tokenId = market.clobTokenIds[selectedOutcome];
+  const book = useOrderBook(tokenId);
+  const orderBook = { bids: book?.bids ?? NO_LEVELS, asks: book?.asks ?? NO_LEVELS };
+  const isLoadingBook = !!tokenId && (!book || book.status === 'loading');
+  const orderbookError = !tokenId ? 'No token ID for this outcome'
+    : book?.status === 'error' ? describeBookError(book.error)
+    : book?.status === 'ready' && !book.bids.length && !book.asks.length ? 'No active orderbook for this market'
+    : null;
+
+  // The user's fills on the selected outcome, for the price chart
+  const [liveFills, setLiveFills] = useState<ChartFill[]>([]);
 
-  // Fetch initial order book
   useEffect(() => {
-    async function fetchBook() {
-      const tokenId = market.clobTokenIds[selectedOutcome];
-      if (!tokenId) {
-        setOrderbookError('No token ID for this outcome');
-        setIsLoadingBook(false);
-        return;
-      }
-
-      setIsLoadingBook(true);
-      setOrderbookError(null);
-
-      try {
-        const book = await getOrderBook(tokenId);
-
-        // Check if orderbook has any data
-        if (!book || (!book.bids?.length && !book.asks?.length)) {
-          setOrderbookError('No active orderbook for this market');
-          setOrderBook({ bids: [], asks: [] });
-        } else {
-          setOrderBook({
-            bids: book.bids || [],
-            asks: book.asks || [],
-          });
-          setOrderbookError(null);
-        }
-      } catch (error: any) {
-        console.error('Failed to fetch order book:', error);
-        const errorMsg = error?.response?.data?.error || error?.message || 'Failed to load orderbook';
-        if (errorMsg.includes('does not exist')) {
-          setOrderbookError('This market orderbook does not exist. Try a different market.');
-        } else {
-          setOrderbookError(errorMsg);
-        }
-        setOrderBook({ bids: [], asks: [] });
-      } finally {
-        setIsLoadingBook(false);
-      }
+    if (isPaperMode || !tokenId) {
+      setLiveFills([]);
+      return;
     }
+    let cancelled = false;
+    getFills(tokenId).then(fills => {
+      if (!cancelled) setLiveFills(fills);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isPaperMode, tokenId, getFills]);
 
-    fetchBook();
-    subscribeToAsset(market.clobTokenIds[selectedOutcome]);
-  }, [market, selectedOutcome, getOrderBook, subscribeToAsset]);
-
-  // Handle WebSocket order book updates
   useEffect(() => {
-    const unsubscribe = onMessage((msg) => {
-      if (msg.event_type === 'book') {
-        const bookMsg = msg as BookMessage;
-        if (market.clobTokenIds.includes(bookMsg.asset_id)) {
-          setOrderBook({
-            bids: bookMsg.bids || [],
-            asks: bookMsg.asks || [],
-          });
-        }
-      }
+    return onUserMessage((msg) => {
+      if (msg.event_type !== 'trade' || msg.status !== 'MATCHED') return;
+      const apiKey = userChannel.getApiKey();
+      const fills = apiKey ? userFills(msg, apiKey).filter(fill => fill.assetId === tokenId) : [];
+      if (fills.length === 0) return;
+      const timestamp = Number(msg.matchtime) * 1000 || Date.now();
+      setLiveFills(prev => [...prev, ...fills.map(fill => ({ ...fill, timestamp }))]);
     });
+  }, [onUserMessage, tokenId]);
+
+  const chartFills: ChartFill[] = isPaperMode
+    ? paperFills.filter(fill => fill.assetId === tokenId)
+    : liveFills;
 
-    return unsubscribe;
-  }, [market, onMessage]);
+  // The book's tick size is authoritative - it follows tick_size_change events
+  const tickSize = book?.status === 'ready' ? Number(book.tickSize) : market.tickSize;
+  const tickChanged = book?.status === 'ready' && tickSize !== market.tickSize;
+  const formatPrice = (value: number) => snapToTick(value, tickSize).toFixed(tickDecimals(tickSize));
+
+  const isMarket = orderMode === 'market';
+
+  // Market orders default to their native unit: USDC for buys, shares for sells
+  useEffect(() => {
+    if (isMarket) setSizeUnit(side === 'BUY' ? 'usdc' : 'shares');
+  }, [isMarket, side]);
+
+  useEffect(() => {
+    localStorage.setItem(MAX_SLIPPAGE_STORAGE_KEY, maxSlippage);
+  }, [maxSlippage]);
+
+  // Any change to the order dismisses a pending slippage confirmation
+  useEffect(() => {
+    setConfirmingSlippage(false);
+  }, [price, amount, side, orderMode, sizeUnit, selectedOutcome, marketOrderType]);
 
   // Calculate costs
+  // Market orders take a USDC amount for buys and a share count for sells;
+  // sizes entered in the other unit are converted against the book
   const priceNum = Number(price) || 0;
   const amountNum = Number(amount) || 0;
-  const totalCost = priceNum * amountNum;
-  const potentialReturn = amountNum;
+  const oppositeLevels = side === 'BUY' ? orderBook.asks : orderBook.bids;
+  const marketAmount = isMarket ? toMarketOrderAmount(oppositeLevels, side, amountNum, sizeUnit) : null;
+  const marketEstimate = marketAmount !== null ? estimateMarketFill(oppositeLevels, side, marketAmount) : null;
+  // Limit orders sized in USDC round down to whole cents of shares
+  const limitShares = sizeUnit === 'usdc'
+    ? (priceNum > 0 ? Math.floor((amountNum / priceNum) * 100) / 100 : 0)
+    : amountNum;
+  const shares = isMarket ? (marketEstimate?.shares ?? 0) : limitShares;
+  const totalCost = isMarket ? (marketEstimate?.notional ?? 0) : priceNum * limitShares;
+  const potentialReturn = shares;
   const potentialProfit = potentialReturn - totalCost;
   const profitPct = totalCost > 0 ? (potentialProfit / totalCost) * 100 : 0;
 
   // Validation
   const MIN_ORDER_VALUE = 1; // Polymarket requires minimum $1 order value
-  const insufficientBalance = side === 'BUY' && totalCost > safeUsdceBalance;
-  const belowMinSize = amountNum < market.minSize;
-  const belowMinValue = totalCost < MIN_ORDER_VALUE;
+  const spend = isMarket && side === 'BUY' ? (marketAmount ?? 0) : totalCost;
+  const insufficientBalance = side === 'BUY' && spend > safeUsdceBalance;
+  const belowMinSize = !isMarket && limitShares < market.minSize;
+  const belowMinValue = spend < MIN_ORDER_VALUE;
   const hasValidOrderbook = !orderbookError && (orderBook.bids.length > 0 || orderBook.asks.length > 0);
-  const canSubmit = isConnected && isInitialized && !insufficientBalance && !belowMinSize && !belowMinValue && priceNum > 0 && amountNum > 0 && hasValidOrderbook && !isLoadingBook;
+  const cannotFill = isMarket && (!marketEstimate || (marketOrderType === 'FOK' && !marketEstimate.filled));
+  const isGtd = !isMarket && limitOrderType === 'GTD';
+  const expiresAt = new Date(expiry).getTime();
+  const invalidExpiry = isGtd && !(expiresAt > Date.now() + 60 * 1000);
+  const offTick = !isMarket && priceNum > 0 && !isMultipleOfTick(priceNum, tickSize);
+  const postOnlyCrosses = !isMarket && postOnly && priceNum > 0 && crossesBook(oppositeLevels, side, priceNum);
+  const canSubmit = canTrade && isInitialized && !insufficientBalance && !belowMinSize && !belowMinValue && !cannotFill && !invalidExpiry && !offTick && !postOnlyCrosses && (isMarket || priceNum > 0) && amountNum > 0 && hasValidOrderbook && !isLoadingBook;
+
+  // Slippage guard: how far the order reaches past the best opposite level
+  const slippage = isMarket ? (marketEstimate?.slippage ?? 0) : priceThroughBook(oppositeLevels, side, priceNum);
+  const maxSlippageNum = Number(maxSlippage) || 0;
+  const exceedsSlippage = maxSlippageNum > 0 && slippage * 100 > maxSlippageNum;
+  const bestOpposite = bestOppositePrice(oppositeLevels, side);
 
   // Submit trade
-  const handleSubmit = async () => {
+  const handleSubmit = async (confirmed = false) => {
     if (!canSubmit) return;
 
+    // Ask once before sending an order past the slippage threshold
+    if (exceedsSlippage && !confirmed) {
+      setConfirmingSlippage(true);
+      return;
+    }
+
+    setConfirmingSlippage(false);
     setIsSubmitting(true);
 
+    const orderParams = {
+      tokenId,
+      side,
+      negRisk: market.negRisk,
+      tickSize: String(tickSize),
+      meta: {
+        title: market.question,
+        outcome: market.outcomes[selectedOutcome] || (selectedOutcome === 0 ? 'Yes' : 'No'),
+        image: market.image,
+      },
+    };
+
     try {
-      const result = await placeOrder({
-        tokenId: market.clobTokenIds[selectedOutcome],
-        price: priceNum,
-        size: amountNum,
-        side,
-        negRisk: market.negRisk,
-        tickSize: String(market.tickSize),
-      });
-
-      showToast(`Order placed! ID: ${result.orderID}`, 'success');
+      // Market orders are capped at the worst level the estimate walked to
+      const result = isMarket
+        ? await placeMarketOrder({
+            ...orderParams,
+            amount: marketAmount ?? 0,
+            orderType: marketOrderType,
+            price: marketEstimate?.worstPrice,
+          })
+        : await placeOrder({
+            ...orderParams,
+            price: priceNum,
+            size: limitShares,
+            orderType: limitOrderType,
+            expiresAt: isGtd ? expiresAt : undefined,
+            postOnly,
+          });
+
+      showToast(`${isMarket ? 'Market order' : 'Order'} placed! ID: ${result.orderID}`, 'success');
       onClose();
     } catch (error: any) {
       console.error('Trade failed:', error);
@@ -149,15 +248,34 @@ export function TradeModal({ market, onClose, showToast }: TradeModalProps) {
   const setMidPrice = () => {
     const bid = Number(orderBook.bids[0]?.price || 0.45);
     const ask = Number(orderBook.asks[0]?.price || 0.55);
-    setPrice(((bid + ask) / 2).toFixed(3));
+    setPrice(formatPrice((bid + ask) / 2));
   };
 
-  // Quick amount buttons
+  // Quick amount buttons, for buys only: they size from the USDC balance
   const setAmountPct = (pct: number) => {
+    const budget = Math.floor(safeUsdceBalance * pct) / 100;
+    if (sizeUnit === 'usdc') {
+      setAmount(budget.toFixed(2));
+      return;
+    }
+    if (isMarket) {
+      setAmount(String(Math.floor(estimateMarketFill(oppositeLevels, 'BUY', budget)?.shares ?? 0)));
+      return;
+    }
+    if (priceNum <= 0) return;
     const maxShares = Math.floor(safeUsdceBalance / priceNum);
     setAmount(String(Math.floor(maxShares * (pct / 100))));
   };
 
+  // Switch the size unit, carrying the current order size across
+  const changeSizeUnit = (unit: SizeUnit) => {
+    if (unit === sizeUnit) return;
+    if (amountNum > 0 && (shares > 0 || totalCost > 0)) {
+      setAmount(unit === 'usdc' ? totalCost.toFixed(2) : String(Math.floor(shares * 100) / 100));
+    }
+    setSizeUnit(unit);
+  };
+
   // Format volume
   const formatVolume = (v: number) => {
     if (v >= 1e6) return `$${(v / 1e6).toFixed(1)}M`;
@@ -165,6 +283,27 @@ export function TradeModal({ market, onClose, showToast }: TradeModalProps) {
     return `$${v.toFixed(0)}`;
   };
 
+  const marketAlertCount = alerts.filter(a => a.marketId === market.id && a.enabled).length;
+
+  const handleCreateAlert = (values: AlertFormValues) => {
+    // Gamma's 24h change is for the first outcome; the provider keeps this fresh
+    const yesReference = market.outcomePrices[0] - market.oneDayPriceChange;
+    addAlert({
+      ...values,
+      marketId: market.id,
+      conditionId: market.conditionId,
+      question: market.question,
+      outcome: market.outcomes[values.outcomeIndex] || (values.outcomeIndex === 0 ? 'Yes' : 'No'),
+      tokenId: market.clobTokenIds[values.outcomeIndex],
+      referencePrice: values.kind === 'change'
+        ? (values.outcomeIndex === 0 ? yesReference : 1 - yesReference)
+        : null,
+    });
+    requestNotificationPermission();
+    setShowAlertForm(false);
+    showToast('Alert created', 'success');
+  };
+
   return (
     <div className="modal open">
       <div className="modal-overlay" onClick={onClose}></div>
@@ -175,14 +314,51 @@ export function TradeModal({ market, onClose, showToast }: TradeModalProps) {
             <div>
               <h2 className="modal-title">{market.question}</h2>
               <div className="modal-meta">
+                {market.negRisk && market.event && (
+                  <span className="meta-item">{market.event.title}</span>
+                )}
                 <span className="meta-item">Vol: {formatVolume(market.volume24hr)}</span>
                 <span className="meta-item">Liq: {formatVolume(market.liquidity)}</span>
               </div>
             </div>
           </div>
-          <button className="modal-close" onClick={onClose}>&times;</button>
+          <div className="modal-header-actions">
+            <button
+              className={`alert-bell ${marketAlertCount > 0 ? 'active' : ''}`}
+              title="Price alerts"
+              onClick={() => setShowAlertForm(open => !open)}
+            >
+              🔔{marketAlertCount > 0 && <span className="alert-bell-count">{marketAlertCount}</span>}
+            </button>
+            <WatchStar market={market} />
+            <button className="modal-close" onClick={onClose}>&times;</button>
+          </div>
         </div>
 
+        {showAlertForm && (
+          <div className="modal-alert">
+            <AlertForm
+              outcomes={market.clobTokenIds.map((_, index) => ({
+                index,
+                label: market.outcomes[index] || (index === 0 ? 'Yes' : 'No'),
+                price: market.outcomePrices[index] ?? null,
+              }))}
+              onSave={handleCreateAlert}
+              onCancel={() => setShowAlertForm(false)}
+            />
+          </div>
+        )}
+
+        {tokenId && (
+          <div className="modal-chart">
+            <PriceChart
+              tokenId={tokenId}
+              outcome={market.outcomes[selectedOutcome] || (selectedOutcome === 0 ? 'Yes' : 'No')}
+              fills={chartFills}
+            />
+          </div>
+        )}
+
         <div className="modal-body">
           {/* Order Book */}
           <div className="orderbook-section">
@@ -190,61 +366,49 @@ export function TradeModal({ market, onClose, showToast }: TradeModalProps) {
               <span>Live Order Book</span>
               <span className="ob-update-time">{new Date().toLocaleTimeString()}</span>
             </div>
-            <div className="orderbook">
-              <div className="ob-side asks">
-                <div className="ob-header">Asks (Sell)</div>
-                <div className="ob-levels">
-                  {[...orderBook.asks].slice(0, 5).reverse().map((level, i) => (
-                    <div key={i} className="ob-level ask">
-                      <span className="ob-price">{Number(level.price).toFixed(3)}</span>
-                      <span className="ob-size">{Number(level.size).toFixed(0)}</span>
-                    </div>
-                  ))}
-                  {orderBook.asks.length === 0 && <div className="ob-level">No asks</div>}
-                </div>
-              </div>
-
-              <div className="ob-spread">
-                <span>
-                  Spread: {((Number(orderBook.asks[0]?.price || 1) - Number(orderBook.bids[0]?.price || 0)) * 100).toFixed(1)}%
-                </span>
-              </div>
-
-              <div className="ob-side bids">
-                <div className="ob-header">Bids (Buy)</div>
-                <div className="ob-levels">
-                  {orderBook.bids.slice(0, 5).map((level, i) => (
-                    <div key={i} className="ob-level bid">
-                      <span className="ob-price">{Number(level.price).toFixed(3)}</span>
-                      <span className="ob-size">{Number(level.size).toFixed(0)}</span>
-                    </div>
-                  ))}
-                  {orderBook.bids.length === 0 && <div className="ob-level">No bids</div>}
-                </div>
-              </div>
-            </div>
+            <OrderBookDepth
+              bids={orderBook.bids}
+              asks={orderBook.asks}
+              tickSize={tickSize}
+              onSelectPrice={(levelPrice) => {
+                setOrderMode('limit');
+                setPrice(levelPrice);
+              }}
+            />
+            <TradesTape market={market} />
           </div>
 
           {/* Outcome Selection */}
           <div className="outcome-section">
-            <div
-              className={`outcome-btn yes ${selectedOutcome === 0 ? 'selected' : ''}`}
-              onClick={() => setSelectedOutcome(0)}
-            >
-              <span className="outcome-label">Yes</span>
-              <span className="outcome-price">{(market.outcomePrices[0] * 100).toFixed(0)}¢</span>
-            </div>
-            <div
-              className={`outcome-btn no ${selectedOutcome === 1 ? 'selected' : ''}`}
-              onClick={() => setSelectedOutcome(1)}
-            >
-              <span className="outcome-label">No</span>
-              <span className="outcome-price">{(market.outcomePrices[1] * 100).toFixed(0)}¢</span>
-            </div>
+            {market.outcomes.map((outcome, index) => (
+              <div
+                key={outcome}
+                className={`outcome-btn ${index === 0 ? 'yes' : 'no'} ${selectedOutcome === index ? 'selected' : ''}`}
+                onClick={() => setSelectedOutcome(index)}
+              >
+                <span className="outcome-label">{outcome}</span>
+                <span className="outcome-price">{(market.outcomePrices[index] * 100).toFixed(0)}¢</span>
+              </div>
+            ))}
           </div>
 
           {/* Trade Form */}
           <div className="trade-section">
+            <div className="order-mode-toggle">
+              <button
+                className={`toggle-btn ${!isMarket ? 'active' : ''}`}
+                onClick={() => setOrderMode('limit')}
+              >
+                Limit
+              </button>
+              <button
+                className={`toggle-btn ${isMarket ? 'active' : ''}`}
+                onClick={() => setOrderMode('market')}
+              >
+                Market
+              </button>
+            </div>
+
             <div className="side-toggle">
               <button
                 className={`side-btn buy ${side === 'BUY' ? 'active' : ''}`}
@@ -260,51 +424,167 @@ export function TradeModal({ market, onClose, showToast }: TradeModalProps) {
               </button>
             </div>
 
-            <div className="input-group">
-              <label>Price</label>
-              <div className="input-with-btns">
-                <input
-                  type="number"
-                  step="0.001"
-                  min="0.001"
-                  max="0.999"
-                  value={price}
-                  onChange={(e) => setPrice(e.target.value)}
-                />
-                <div className="quick-btns">
-                  <button className="quick-btn" onClick={setBidPrice}>Bid</button>
-                  <button className="quick-btn" onClick={setMidPrice}>Mid</button>
-                  <button className="quick-btn" onClick={setAskPrice}>Ask</button>
+            {isMarket ? (
+              <div className="input-group">
+                <label>Execution</label>
+                <div className="order-mode-toggle">
+                  <button
+                    className={`toggle-btn ${marketOrderType === 'FOK' ? 'active' : ''}`}
+                    onClick={() => setMarketOrderType('FOK')}
+                  >
+                    Fill or Kill
+                  </button>
+                  <button
+                    className={`toggle-btn ${marketOrderType === 'FAK' ? 'active' : ''}`}
+                    onClick={() => setMarketOrderType('FAK')}
+                  >
+                    Fill and Kill
+                  </button>
                 </div>
               </div>
-            </div>
+            ) : (
+              <div className="input-group">
+                <label>Price</label>
+                <div className="input-with-btns">
+                  <input
+                    type="number"
+                    step={tickSize}
+                    min={tickSize}
+                    max={1 - tickSize}
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    onBlur={() => priceNum > 0 && setPrice(formatPrice(priceNum))}
+                  />
+                  <div className="quick-btns">
+                    <button className="quick-btn" onClick={setBidPrice}>Bid</button>
+                    <button className="quick-btn" onClick={setMidPrice}>Mid</button>
+                    <button className="quick-btn" onClick={setAskPrice}>Ask</button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {!isMarket && (
+              <div className="input-group">
+                <label>Time in Force</label>
+                <div className="order-mode-toggle">
+                  <button
+                    className={`toggle-btn ${limitOrderType === 'GTC' ? 'active' : ''}`}
+                    onClick={() => setLimitOrderType('GTC')}
+                  >
+                    Good til Cancelled
+                  </button>
+                  <button
+                    className={`toggle-btn ${limitOrderType === 'GTD' ? 'active' : ''}`}
+                    onClick={() => setLimitOrderType('GTD')}
+                  >
+                    Good til Date
+                  </button>
+                </div>
+                {isGtd && (
+                  <div className="input-with-btns">
+                    <input
+                      type="datetime-local"
+                      value={expiry}
+                      min={toDateTimeInput(Date.now())}
+                      onChange={(e) => setExpiry(e.target.value)}
+                    />
+                    <div className="quick-btns">
+                      <button className="quick-btn" onClick={() => setExpiry(toDateTimeInput(Date.now() + HOUR_MS))}>1h</button>
+                      <button className="quick-btn" onClick={() => setExpiry(toDateTimeInput(Date.now() + 24 * HOUR_MS))}>1d</button>
+                      <button className="quick-btn" onClick={() => setExpiry(toDateTimeInput(Date.now() + 7 * 24 * HOUR_MS))}>1w</button>
+                    </div>
+                  </div>
+                )}
+                <label className="post-only-toggle">
+                  <input
+                    type="checkbox"
+                    checked={postOnly}
+                    onChange={(e) => setPostOnly(e.target.checked)}
+                  />
+                  Post only (maker) - reject if it would match immediately
+                </label>
+              </div>
+            )}
 
             <div className="input-group">
-              <label>Amount (shares)</label>
+              <div className="input-label-row">
+                <label>Amount ({sizeUnit === 'usdc' ? 'USDC' : 'shares'})</label>
+                <div className="size-unit-toggle">
+                  <button
+                    className={`size-unit-btn ${sizeUnit === 'usdc' ? 'active' : ''}`}
+                    onClick={() => changeSizeUnit('usdc')}
+                  >
+                    USDC
+                  </button>
+                  <button
+                    className={`size-unit-btn ${sizeUnit === 'shares' ? 'active' : ''}`}
+                    onClick={() => changeSizeUnit('shares')}
+                  >
+                    Shares
+                  </button>
+                </div>
+              </div>
               <div className="input-with-btns">
                 <input
                   type="number"
-                  step="1"
+                  step={sizeUnit === 'usdc' ? '0.01' : '1'}
                   min="1"
                   value={amount}
                   onChange={(e) => setAmount(e.target.value)}
                 />
-                <div className="quick-btns">
-                  <button className="quick-btn" onClick={() => setAmountPct(25)}>25%</button>
-                  <button className="quick-btn" onClick={() => setAmountPct(50)}>50%</button>
-                  <button className="quick-btn" onClick={() => setAmountPct(100)}>Max</button>
-                </div>
+                {side === 'BUY' && (
+                  <div className="quick-btns">
+                    <button className="quick-btn" onClick={() => setAmountPct(25)}>25%</button>
+                    <button className="quick-btn" onClick={() => setAmountPct(50)}>50%</button>
+                    <button className="quick-btn" onClick={() => setAmountPct(100)}>Max</button>
+                  </div>
+                )}
               </div>
             </div>
 
+            <div className="input-group slippage-setting">
+              <label>Confirm orders more than</label>
+              <input
+                type="number"
+                step="0.5"
+                min="0"
+                value={maxSlippage}
+                onChange={(e) => setMaxSlippage(e.target.value)}
+              />
+              <label>% through the best {side === 'BUY' ? 'ask' : 'bid'}</label>
+            </div>
+
             {/* Cost Summary */}
             <div className="cost-summary">
               <div className="cost-row">
-                <span>Safe Balance</span>
-                <span>${safeUsdceBalance.toFixed(2)} USDC.e</span>
+                <span>{balanceLabel} Balance</span>
+                <span>${safeUsdceBalance.toFixed(2)} USDC{isPaperMode ? '' : '.e'}</span>
               </div>
+              {isMarket && marketEstimate && (
+                <>
+                  <div className="cost-row">
+                    <span>Est. Shares</span>
+                    <span>{marketEstimate.shares.toFixed(2)}</span>
+                  </div>
+                  <div className="cost-row">
+                    <span>Est. Avg Price</span>
+                    <span>${marketEstimate.avgPrice.toFixed(3)}</span>
+                  </div>
+                  <div className="cost-row">
+                    <span>Slippage</span>
+                    <span>{(marketEstimate.slippage * 100).toFixed(2)}% (worst ${marketEstimate.worstPrice.toFixed(3)})</span>
+                  </div>
+                </>
+              )}
+              {!isMarket && sizeUnit === 'usdc' && (
+                <div className="cost-row">
+                  <span>Shares</span>
+                  <span>{limitShares.toFixed(2)}</span>
+                </div>
+              )}
               <div className="cost-row">
-                <span>Total Cost</span>
+                <span>{side === 'SELL' ? 'Total Proceeds' : 'Total Cost'}</span>
                 <span>${totalCost.toFixed(2)}</span>
               </div>
               <div className="cost-row">
@@ -320,7 +600,7 @@ export function TradeModal({ market, onClose, showToast }: TradeModalProps) {
             {/* Warnings */}
             {insufficientBalance && (
               <div className="trade-warning">
-                Insufficient balance (${safeUsdceBalance.toFixed(2)} available in Safe)
+                Insufficient balance (${safeUsdceBalance.toFixed(2)} available in {balanceLabel})
               </div>
             )}
 
@@ -332,23 +612,69 @@ export function TradeModal({ market, onClose, showToast }: TradeModalProps) {
 
             {belowMinValue && !belowMinSize && (
               <div className="trade-warning">
-                Min order value: $1.00 (current: ${totalCost.toFixed(2)})
+                Min order value: $1.00 (current: ${spend.toFixed(2)})
+              </div>
+            )}
+
+            {offTick && (
+              <div className="trade-warning">
+                Price must be a multiple of the {tickSize} tick size (nearest: {formatPrice(priceNum)})
               </div>
             )}
 
-            {!isSafeDeployed && isConnected && (
+            {postOnlyCrosses && bestOpposite !== null && (
+              <div className="trade-warning">
+                Post-only order would cross the best {side === 'BUY' ? 'ask' : 'bid'} at {formatPrice(bestOpposite)} and be rejected
+              </div>
+            )}
+
+            {tickChanged && (
+              <div className="trade-info">
+                Tick size changed to {tickSize} (was {market.tickSize})
+              </div>
+            )}
+
+            {invalidExpiry && (
+              <div className="trade-warning">
+                Expiration must be at least 1 minute in the future
+              </div>
+            )}
+
+            {isMarket && !marketEstimate && amountNum > 0 && hasValidOrderbook && (
+              <div className="trade-warning">
+                {oppositeLevels.length > 0
+                  ? `Not enough liquidity to size a ${amountNum} ${sizeUnit === 'usdc' ? 'USDC' : 'share'} order`
+                  : `No ${side === 'BUY' ? 'asks' : 'bids'} to fill a market ${side.toLowerCase()}`}
+              </div>
+            )}
+
+            {isMarket && marketEstimate && !marketEstimate.filled && (
+              <div className="trade-warning">
+                {marketOrderType === 'FOK'
+                  ? 'Not enough liquidity to fill the whole order - a fill-or-kill order would be rejected'
+                  : `Only ${marketEstimate.shares.toFixed(2)} shares can fill now - the rest will be cancelled`}
+              </div>
+            )}
+
+            {isPaperMode && (
+              <div className="trade-info">
+                Paper trading - orders fill against a simulated book
+              </div>
+            )}
+
+            {!isSafeDeployed && isConnected && !isPaperMode && (
               <div className="trade-info">
                 Safe will be deployed automatically (gasless)
               </div>
             )}
 
-            {!isInitialized && isConnected && !isDerivingCreds && (
+            {!isInitialized && canTrade && !isDerivingCreds && (
               <div className="trade-info">
                 Initializing trading client...
               </div>
             )}
 
-            {safeUsdceBalance === 0 && isConnected && (
+            {safeUsdceBalance === 0 && isConnected && !isPaperMode && (
               <div className="trade-warning">
                 Transfer USDC.e to your Safe wallet to trade
               </div>
@@ -366,18 +692,36 @@ export function TradeModal({ market, onClose, showToast }: TradeModalProps) {
               </div>
             )}
 
+            {confirmingSlippage && (
+              <div className="slippage-confirm">
+                <div className="trade-warning">
+                  {isMarket
+                    ? `Estimated average price is ${(slippage * 100).toFixed(2)}% worse than the best ${side === 'BUY' ? 'ask' : 'bid'}`
+                    : `Limit price ${formatPrice(priceNum)} is ${(slippage * 100).toFixed(2)}% through the best ${side === 'BUY' ? 'ask' : 'bid'}${bestOpposite !== null ? ` (${formatPrice(bestOpposite)})` : ''}`}
+                  {` - above your ${maxSlippageNum}% limit.`}
+                </div>
+                <div className="slippage-confirm-actions">
+                  <button className="btn-secondary" onClick={() => setConfirmingSlippage(false)}>Cancel</button>
+                  <button className="btn-primary" onClick={() => handleSubmit(true)} disabled={isSubmitting}>
+                    Place Anyway
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Submit */}
             <button
               className={`btn-trade ${side.toLowerCase()}`}
-              onClick={isConnected ? handleSubmit : connect}
-              disabled={isConnected && (!canSubmit || isSubmitting || isDerivingCreds || !isInitialized)}
+              onClick={canTrade ? () => handleSubmit() : connect}
+              disabled={canTrade && (!canSubmit || confirmingSlippage || isSubmitting || isDerivingCreds || !isInitialized)}
             >
-              {!isConnected ? 'Connect Wallet' :
+              {!canTrade ? 'Connect Wallet' :
                isDerivingCreds ? 'Deriving API Keys...' :
                !isInitialized ? 'Initializing...' :
                isLoadingBook ? 'Loading Orderbook...' :
                orderbookError ? 'Market Unavailable' :
                isSubmitting ? 'Processing...' :
+               isMarket ? (side === 'BUY' ? 'Buy at Market' : 'Sell at Market') :
                side === 'BUY' ? 'Buy Shares' : 'Sell Shares'}
             </button>
           </div>
@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import type { LastTradePriceMessage } from '../websocket';
+import type { Market } from './MarketsView';
+import {
+  LARGE_PRINT_USDC,
+  PRINT_THRESHOLDS,
+  addTapeTrade,
+  fetchRecentTrades,
+  notional,
+  tradeFromMessage,
+  type TapeTrade,
+} from '../marketTrades';
+
+interface TradesTapeProps {
+  market: Market;
+}
+
+const formatUsd = (value: number) => {
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+// Time and sales for every outcome of a market, newest first
+export function TradesTape({ market }: TradesTapeProps) {
+  const { onMessage } = useWebSocket();
+  const [trades, setTrades] = useState<TapeTrade[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [minNotional, setMinNotional] = useState(0);
+
+  // Seed from REST
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchRecentTrades(market.conditionId)
+      .then(recent => {
+        // Live trades that arrived during the fetch are newer than the seed
+        if (!cancelled) setTrades(prev => prev.reduceRight(addTapeTrade, recent));
+      })
+      .catch(err => {
+        console.error('[Tape] Failed to load trades:', err);
+        if (!cancelled) setError(err.message || 'Failed to load trades');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [market.conditionId]);
+
+  // Live prints
+  useEffect(() => {
+    return onMessage((msg) => {
+      if (msg.event_type !== 'last_trade_price') return;
+      const trade = msg as LastTradePriceMessage;
+      const index = market.clobTokenIds.indexOf(trade.asset_id);
+      if (index === -1) return;
+      setTrades(prev => addTapeTrade(prev, tradeFromMessage(trade, market.outcomes[index] || '')));
+    });
+  }, [onMessage, market.clobTokenIds, market.outcomes]);
+
+  const visible = trades.filter(trade => notional(trade) >= minNotional);
+
+  return (
+    <div className="trades-tape">
+      <div className="orderbook-header">
+        <span>Recent Trades</span>
+        <select
+          className="tape-filter"
+          value={minNotional}
+          onChange={(e) => setMinNotional(Number(e.target.value))}
+        >
+          {PRINT_THRESHOLDS.map(threshold => (
+            <option key={threshold} value={threshold}>
+              {threshold === 0 ? 'All sizes' : `${formatUsd(threshold)}+`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="tape-row tape-columns">
+        <span>Time</span>
+        <span>Outcome</span>
+        <span>Side</span>
+        <span>Price</span>
+        <span>Shares</span>
+        <span>Value</span>
+      </div>
+
+      <div className="tape-rows">
+        {isLoading && trades.length === 0 ? (
+          <div className="ob-level">Loading trades...</div>
+        ) : error && trades.length === 0 ? (
+          <div className="ob-level">{error}</div>
+        ) : visible.length === 0 ? (
+          <div className="ob-level">{minNotional > 0 ? `No prints of ${formatUsd(minNotional)} or more` : 'No recent trades'}</div>
+        ) : (
+          visible.map(trade => (
+            <div
+              key={trade.id}
+              className={`tape-row ${trade.side.toLowerCase()} ${notional(trade) >= LARGE_PRINT_USDC ? 'large' : ''}`}
+            >
+              <span className="tape-time">{new Date(trade.timestamp).toLocaleTimeString()}</span>
+              <span>{trade.outcome}</span>
+              <span className="tape-side">{trade.side === 'BUY' ? 'Buy' : 'Sell'}</span>
+              <span className="tape-price">{(trade.price * 100).toFixed(1)}¢</span>
+              <span>{trade.size.toFixed(2)}</span>
+              <span>{formatUsd(notional(trade))}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
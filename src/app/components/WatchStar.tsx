@@ -0,0 +1,27 @@
+import { useWatchlist } from '../contexts/WatchlistContext';
+import type { Market } from './MarketsView';
+
+interface WatchStarProps {
+  market: Market;
+  className?: string;
+}
+
+// Star toggle that adds or removes a market from the active watchlist
+export function WatchStar({ market, className = '' }: WatchStarProps) {
+  const { activeWatchlist, isWatched, toggleWatched } = useWatchlist();
+  const watched = isWatched(market.id);
+
+  return (
+    <button
+      className={`watch-star ${watched ? 'active' : ''} ${className}`}
+      title={watched ? `Remove from ${activeWatchlist.name}` : `Add to ${activeWatchlist.name}`}
+      onClick={(e) => {
+        // Cards open the trade modal on click
+        e.stopPropagation();
+        toggleWatched(market);
+      }}
+    >
+      {watched ? '★' : '☆'}
+    </button>
+  );
+}
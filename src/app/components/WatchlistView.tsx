@@ -0,0 +1,205 @@
+import { useState, useEffect, type FormEvent } from 'react';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { useWatchlist } from '../contexts/WatchlistContext';
+import type { PriceChangeMessage, LastTradePriceMessage } from '../websocket';
+import { gammaUrl } from '../../config';
+import { parseGammaMarket, applyPriceChange, type Market } from './MarketsView';
+import { WatchStar } from './WatchStar';
+
+interface WatchlistViewProps {
+  onSelectMarket: (market: Market, outcomeIndex: number) => void;
+  invalidMarketIds?: Set<string>;
+  isValidating?: boolean;
+}
+
+// The watchlists, one tab per list. Markets are subscribed by WatchlistProvider;
+// this view refreshes the stored snapshots from Gamma and applies live prices.
+export function WatchlistView({ onSelectMarket, invalidMarketIds = new Set(), isValidating = false }: WatchlistViewProps) {
+  const { onMessage } = useWebSocket();
+  const {
+    watchlists,
+    activeWatchlist,
+    setActiveWatchlist,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+  } = useWatchlist();
+
+  const [markets, setMarkets] = useState<Market[]>(activeWatchlist.markets);
+  const [closedIds, setClosedIds] = useState<Set<string>>(new Set());
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [editing, setEditing] = useState<'new' | 'rename' | null>(null);
+  const [nameInput, setNameInput] = useState('');
+
+  const marketIds = activeWatchlist.markets.map(m => m.id).join(',');
+
+  // Refresh the snapshots of the open list (keyed on its ids, so renaming doesn't refetch)
+  useEffect(() => {
+    let cancelled = false;
+    setMarkets(activeWatchlist.markets);
+    if (!marketIds) return;
+
+    async function refresh() {
+      setIsRefreshing(true);
+      try {
+        const params = new URLSearchParams();
+        marketIds.split(',').forEach(id => params.append('id', id));
+        const response = await fetch(gammaUrl(`/markets?${params}`));
+        if (!response.ok) throw new Error(`Failed to refresh watchlist (${response.status})`);
+        const data: any[] = await response.json();
+        if (cancelled) return;
+
+        const fresh = new Map(data.map(m => [String(m.id), parseGammaMarket(m)]));
+        setMarkets(prev => prev.map(m => fresh.get(m.id) ?? m));
+        setClosedIds(new Set(data.filter(m => m.closed || m.active === false).map(m => String(m.id))));
+      } catch (err) {
+        console.error('[Watchlist] Failed to refresh markets:', err);
+      } finally {
+        if (!cancelled) setIsRefreshing(false);
+      }
+    }
+
+    refresh();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeWatchlist.id, marketIds]);
+
+  // Live prices
+  useEffect(() => {
+    return onMessage((msg) => {
+      if (msg.event_type === 'price_change') {
+        setMarkets(prev => applyPriceChange(prev, msg as PriceChangeMessage));
+      } else if (msg.event_type === 'last_trade_price') {
+        const tradeMsg = msg as LastTradePriceMessage;
+        setMarkets(prev => {
+          const market = prev.find(m => m.clobTokenIds.includes(tradeMsg.asset_id));
+          if (!market) return prev;
+          const idx = market.clobTokenIds.indexOf(tradeMsg.asset_id);
+          const newPrices = [...market.outcomePrices];
+          newPrices[idx] = Number(tradeMsg.price);
+          return prev.map(m => (m === market ? { ...m, outcomePrices: newPrices } : m));
+        });
+      }
+    });
+  }, [onMessage]);
+
+  const startEditing = (mode: 'new' | 'rename') => {
+    setEditing(mode);
+    setNameInput(mode === 'rename' ? activeWatchlist.name : '');
+  };
+
+  const submitName = (e: FormEvent) => {
+    e.preventDefault();
+    if (editing === 'new') createWatchlist(nameInput);
+    else if (editing === 'rename') renameWatchlist(activeWatchlist.id, nameInput);
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the watchlist "${activeWatchlist.name}"?`)) return;
+    deleteWatchlist(activeWatchlist.id);
+  };
+
+  const rows = markets.filter(m => activeWatchlist.markets.some(w => w.id === m.id));
+
+  return (
+    <div id="watchlistView" className="view active">
+      {isValidating && (
+        <div className="validation-overlay">
+          <div className="validation-spinner">
+            <div className="spinner"></div>
+            <span>Checking market...</span>
+          </div>
+        </div>
+      )}
+
+      <div className="toolbar">
+        <div className="filter-pills watchlist-tabs">
+          {watchlists.map(list => (
+            <button
+              key={list.id}
+              className={`pill ${list.id === activeWatchlist.id ? 'active' : ''}`}
+              onClick={() => { setActiveWatchlist(list.id); setEditing(null); }}
+            >
+              {list.name} <span className="watchlist-count">{list.markets.length}</span>
+            </button>
+          ))}
+        </div>
+
+        {editing ? (
+          <form className="watchlist-name-form" onSubmit={submitName}>
+            <input
+              type="text"
+              className="watchlist-name-input"
+              placeholder="Watchlist name"
+              value={nameInput}
+              maxLength={40}
+              autoFocus
+              onChange={(e) => setNameInput(e.target.value)}
+            />
+            <button type="submit" className="btn-secondary" disabled={!nameInput.trim()}>
+              {editing === 'new' ? 'Create' : 'Save'}
+            </button>
+            <button type="button" className="btn-secondary" onClick={() => setEditing(null)}>Cancel</button>
+          </form>
+        ) : (
+          <div className="watchlist-actions">
+            <button className="btn-secondary" onClick={() => startEditing('new')}>+ New list</button>
+            <button className="btn-secondary" onClick={() => startEditing('rename')}>Rename</button>
+            <button className="btn-danger" onClick={handleDelete} disabled={watchlists.length <= 1}>Delete</button>
+          </div>
+        )}
+      </div>
+
+      <div className="event-markets">
+        {rows.length === 0 ? (
+          <div className="empty-state">
+            No markets in {activeWatchlist.name} yet - star a market to add it here
+          </div>
+        ) : (
+          rows.map(market => {
+            const closed = closedIds.has(market.id);
+            const unavailable = closed || invalidMarketIds.has(market.id);
+            return (
+              <div key={market.id} className={`event-row ${unavailable ? 'unavailable' : ''}`}>
+                <WatchStar market={market} />
+                <img
+                  src={market.image}
+                  alt=""
+                  className="watchlist-image"
+                  onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+                />
+                <div className="event-row-name">
+                  <span className="event-candidate-name">{market.question}</span>
+                  {closed ? (
+                    <span className="watchlist-status">Closed</span>
+                  ) : (
+                    <span className={`price-change ${market.oneDayPriceChange >= 0 ? 'up' : 'down'}`}>
+                      {market.oneDayPriceChange >= 0 ? '+' : ''}{(market.oneDayPriceChange * 100).toFixed(1)}%
+                    </span>
+                  )}
+                </div>
+                <div className="event-row-chance">{(market.outcomePrices[0] * 100).toFixed(market.tickSize < 0.01 ? 1 : 0)}%</div>
+                <div className="event-row-actions">
+                  {market.outcomes.map((outcome, index) => (
+                    <button
+                      key={outcome}
+                      className={`event-trade-btn ${index === 0 ? 'yes' : 'no'}`}
+                      disabled={unavailable}
+                      onClick={() => onSelectMarket(market, index)}
+                    >
+                      {outcome} {(market.outcomePrices[index] * 100).toFixed(market.tickSize < 0.01 ? 1 : 0)}¢
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })
+        )}
+        {isRefreshing && rows.length > 0 && <div className="load-more">Refreshing prices...</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { createContext, useContext, useState, useCallback, useEffect, useRef, type ReactNode } from 'react';
+import { useWebSocket } from './WebSocketContext';
+import { gammaUrl } from '../../config';
+import { parseGammaMarket } from '../components/MarketsView';
+import {
+  alertFiredMessage,
+  alertValue,
+  applyQuoteMessage,
+  isAlertArmed,
+  isAlertMet,
+  type AlertDraft,
+  type AssetQuote,
+  type PriceAlert,
+} from '../priceAlerts';
+
+const STORAGE_KEY = 'POLY_PRICE_ALERTS';
+
+// How often change alerts re-read the 24h reference price from Gamma
+const REFERENCE_REFRESH_MS = 30 * 60 * 1000;
+
+type NotificationState = NotificationPermission | 'unsupported';
+
+interface AlertsContextType {
+  alerts: PriceAlert[];
+  addAlert: (draft: AlertDraft) => void;
+  // Editing an alert re-arms it
+  updateAlert: (id: string, draft: AlertDraft) => void;
+  removeAlert: (id: string) => void;
+  setAlertEnabled: (id: string, enabled: boolean) => void;
+  snoozeAlert: (id: string, ms: number) => void;
+  // Called with the alert and its message when one fires
+  onAlertFired: (handler: (alert: PriceAlert, message: string) => void) => () => void;
+  notificationPermission: NotificationState;
+  requestNotificationPermission: () => void;
+}
+
+const AlertsContext = createContext<AlertsContextType | null>(null);
+
+export function useAlerts() {
+  const context = useContext(AlertsContext);
+  if (!context) {
+    throw new Error('useAlerts must be used within an AlertsProvider');
+  }
+  return context;
+}
+
+function loadAlerts(): PriceAlert[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((a: any) => a?.id && a?.tokenId && a?.kind) : [];
+  } catch (error) {
+    console.warn('[Alerts] Ignoring unreadable stored alerts:', error);
+    return [];
+  }
+}
+
+const notificationsSupported = () => typeof Notification !== 'undefined';
+
+export function AlertsProvider({ children }: { children: ReactNode }) {
+  const { subscribeToMarket, subscribeToAsset, onMessage } = useWebSocket();
+  const [alerts, setAlerts] = useState<PriceAlert[]>(loadAlerts);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationState>(
+    () => (notificationsSupported() ? Notification.permission : 'unsupported')
+  );
+
+  const alertsRef = useRef(alerts);
+  alertsRef.current = alerts;
+  const quotesRef = useRef<Map<string, AssetQuote>>(new Map());
+  const firedHandlersRef = useRef<Set<(alert: PriceAlert, message: string) => void>>(new Set());
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(alerts));
+  }, [alerts]);
+
+  // Tokens of enabled alerts, snoozed ones included so they can fire the moment the snooze ends
+  const watchedKey = [...new Set(alerts.filter(a => a.enabled).map(a => `${a.conditionId}:${a.tokenId}`))].sort().join(',');
+
+  useEffect(() => {
+    if (!watchedKey) return;
+    const releases: Array<() => void> = [];
+    watchedKey.split(',').forEach(entry => {
+      const [conditionId, tokenId] = entry.split(':');
+      if (!quotesRef.current.has(tokenId)) {
+        quotesRef.current.set(tokenId, { bid: null, ask: null, last: null });
+      }
+      if (conditionId) releases.push(subscribeToMarket(conditionId));
+      releases.push(subscribeToAsset(tokenId));
+    });
+    return () => releases.forEach(release => release());
+  }, [watchedKey, subscribeToMarket, subscribeToAsset]);
+
+  const fire = useCallback((alert: PriceAlert, value: number) => {
+    const message = alertFiredMessage(alert, value);
+    console.log('[Alerts] Fired:', alert.question, message);
+    firedHandlersRef.current.forEach(handler => handler(alert, message));
+
+    if (notificationsSupported() && Notification.permission === 'granted') {
+      try {
+        new Notification(alert.question, { body: message, tag: alert.id });
+      } catch (error) {
+        // Some mobile browsers only allow notifications from a service worker
+        console.warn('[Alerts] Notification failed:', error);
+      }
+    }
+  }, []);
+
+  // Check armed alerts on every quote update
+  useEffect(() => {
+    return onMessage((msg) => {
+      const updated = applyQuoteMessage(quotesRef.current, msg);
+      if (updated.length === 0) return;
+
+      const now = Date.now();
+      const fired: Array<{ alert: PriceAlert; value: number }> = [];
+      alertsRef.current.forEach(alert => {
+        if (!updated.includes(alert.tokenId) || !isAlertArmed(alert, now)) return;
+        const value = alertValue(alert, quotesRef.current.get(alert.tokenId)!);
+        if (value !== null && isAlertMet(alert, value)) fired.push({ alert, value });
+      });
+      if (fired.length === 0) return;
+
+      const firedIds = new Set(fired.map(({ alert }) => alert.id));
+      // Disarm right away so the next message in the same batch can't fire it again
+      alertsRef.current = alertsRef.current.map(a => (firedIds.has(a.id) ? { ...a, enabled: false, triggeredAt: now } : a));
+      setAlerts(prev => prev.map(a => (firedIds.has(a.id) ? { ...a, enabled: false, triggeredAt: now, snoozedUntil: null } : a)));
+      fired.forEach(({ alert, value }) => fire(alert, value));
+    });
+  }, [onMessage, fire]);
+
+  // Change alerts compare against the price 24h ago, which Gamma reports as oneDayPriceChange
+  const changeMarketIds = [...new Set(alerts.filter(a => a.kind === 'change' && a.enabled).map(a => a.marketId))].sort().join(',');
+
+  useEffect(() => {
+    if (!changeMarketIds) return;
+    let cancelled = false;
+
+    async function refreshReferences() {
+      try {
+        const params = new URLSearchParams();
+        changeMarketIds.split(',').forEach(id => params.append('id', id));
+        const response = await fetch(gammaUrl(`/markets?${params}`));
+        if (!response.ok) throw new Error(`Failed to load markets (${response.status})`);
+        const data: any[] = await response.json();
+        if (cancelled) return;
+
+        // Gamma's change is for the first outcome; the second moves the other way
+        const yesReference = new Map(data.map(raw => {
+          const market = parseGammaMarket(raw);
+          return [market.id, market.outcomePrices[0] - market.oneDayPriceChange];
+        }));
+        setAlerts(prev => prev.map(a => {
+          const reference = a.kind === 'change' ? yesReference.get(a.marketId) : undefined;
+          if (reference === undefined) return a;
+          return { ...a, referencePrice: a.outcomeIndex === 0 ? reference : 1 - reference };
+        }));
+      } catch (error) {
+        console.error('[Alerts] Failed to refresh 24h reference prices:', error);
+      }
+    }
+
+    refreshReferences();
+    const interval = setInterval(refreshReferences, REFERENCE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [changeMarketIds]);
+
+  const addAlert = useCallback((draft: AlertDraft) => {
+    const alert: PriceAlert = {
+      ...draft,
+      id: `alert-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      enabled: true,
+      snoozedUntil: null,
+      triggeredAt: null,
+      createdAt: Date.now(),
+    };
+    setAlerts(prev => [...prev, alert]);
+  }, []);
+
+  const updateAlert = useCallback((id: string, draft: AlertDraft) => {
+    setAlerts(prev => prev.map(a => (
+      a.id === id ? { ...a, ...draft, enabled: true, snoozedUntil: null, triggeredAt: null } : a
+    )));
+  }, []);
+
+  const removeAlert = useCallback((id: string) => {
+    setAlerts(prev => prev.filter(a => a.id !== id));
+  }, []);
+
+  const setAlertEnabled = useCallback((id: string, enabled: boolean) => {
+    setAlerts(prev => prev.map(a => (
+      a.id === id ? { ...a, enabled, snoozedUntil: null, triggeredAt: enabled ? null : a.triggeredAt } : a
+    )));
+  }, []);
+
+  const snoozeAlert = useCallback((id: string, ms: number) => {
+    setAlerts(prev => prev.map(a => (a.id === id ? { ...a, enabled: true, snoozedUntil: Date.now() + ms, triggeredAt: null } : a)));
+  }, []);
+
+  const onAlertFired = useCallback((handler: (alert: PriceAlert, message: string) => void) => {
+    firedHandlersRef.current.add(handler);
+    return () => {
+      firedHandlersRef.current.delete(handler);
+    };
+  }, []);
+
+  // Call from a click; browsers ignore permission prompts otherwise
+  const requestNotificationPermission = useCallback(() => {
+    if (!notificationsSupported() || Notification.permission !== 'default') return;
+    Notification.requestPermission().then(setNotificationPermission);
+  }, []);
+
+  const value: AlertsContextType = {
+    alerts,
+    addAlert,
+    updateAlert,
+    removeAlert,
+    setAlertEnabled,
+    snoozeAlert,
+    onAlertFired,
+    notificationPermission,
+    requestNotificationPermission,
+  };
+
+  return (
+    <AlertsContext.Provider value={value}>
+      {children}
+    </AlertsContext.Provider>
+  );
+}
@@ -0,0 +1,248 @@
+import { createContext, useContext, useState, useCallback, useEffect, useRef, type ReactNode } from 'react';
+import { useSafe } from './SafeContext';
+import { useTrading } from './TradingContext';
+import { useWebSocket } from './WebSocketContext';
+import { applyQuoteMessage, type AssetQuote } from '../priceAlerts';
+import {
+  bracketLegHit,
+  bracketTriggeredMessage,
+  LEG_LABELS,
+  type Bracket,
+  type BracketDraft,
+  type BracketLeg,
+} from '../brackets';
+import { snapToTick } from '../../utils/tick';
+
+// Brackets are kept per account: the paper account, or each Safe address
+const STORAGE_PREFIX = 'POLY_BRACKETS';
+
+interface BracketsState {
+  storageKey: string;
+  brackets: Bracket[];
+}
+
+type TriggerHandler = (bracket: Bracket, message: string, ok: boolean) => void;
+
+interface BracketsContextType {
+  brackets: Bracket[];
+  getBracket: (assetId: string) => Bracket | undefined;
+  // Replaces (and re-arms) any bracket on the same position
+  setBracket: (draft: BracketDraft) => void;
+  removeBracket: (assetId: string) => void;
+  // Cap armed brackets to the shares still held, keyed by asset ID, for the
+  // account ('paper' or the Safe address) the positions were loaded for.
+  // Armed brackets on positions missing from `sizes` are removed.
+  syncPositionSizes: (account: string, sizes: Record<string, number>) => void;
+  // Latest best bid seen for a bracketed position
+  getBestBid: (assetId: string) => number | null;
+  // False while the trading client is unavailable; triggers wait until it is
+  isMonitoring: boolean;
+  // Called when a leg triggers, with whether the exit order was accepted
+  onBracketTriggered: (handler: TriggerHandler) => () => void;
+}
+
+const BracketsContext = createContext<BracketsContextType | null>(null);
+
+export function useBrackets() {
+  const context = useContext(BracketsContext);
+  if (!context) {
+    throw new Error('useBrackets must be used within a BracketsProvider');
+  }
+  return context;
+}
+
+function loadState(storageKey: string): BracketsState {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    const parsed = stored ? JSON.parse(stored) : [];
+    const brackets = Array.isArray(parsed) ? parsed.filter((b: any) => b?.assetId && b?.status) : [];
+    return { storageKey, brackets };
+  } catch (error) {
+    console.warn('[Brackets] Ignoring unreadable stored brackets:', error);
+    return { storageKey, brackets: [] };
+  }
+}
+
+export function BracketsProvider({ children }: { children: ReactNode }) {
+  const { safeAddress, isPaperMode } = useSafe();
+  const { placeOrder, getOrderBook, isInitialized } = useTrading();
+  const { subscribeToMarket, subscribeToAsset, onMessage } = useWebSocket();
+
+  const account = isPaperMode ? 'paper' : safeAddress?.toLowerCase();
+  const storageKey = account ? `${STORAGE_PREFIX}_${account}` : STORAGE_PREFIX;
+  const [state, setState] = useState<BracketsState>(() => loadState(storageKey));
+
+  // Switch to the brackets of the active account
+  useEffect(() => {
+    setState(prev => (prev.storageKey === storageKey ? prev : loadState(storageKey)));
+  }, [storageKey]);
+
+  // Persist under the key the state was loaded from, so switching accounts
+  // never writes one account's brackets over another's
+  useEffect(() => {
+    localStorage.setItem(state.storageKey, JSON.stringify(state.brackets));
+  }, [state]);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const quotesRef = useRef<Map<string, AssetQuote>>(new Map());
+  const handlersRef = useRef<Set<TriggerHandler>>(new Set());
+  // The message handler below outlives renders, so it reads these through refs
+  const tradingRef = useRef({ placeOrder, getOrderBook, isInitialized });
+  tradingRef.current = { placeOrder, getOrderBook, isInitialized };
+
+  // Update one bracket, unless the account changed since
+  const updateBracket = useCallback((key: string, assetId: string, changes: Partial<Bracket>) => {
+    setState(prev => (prev.storageKey !== key ? prev : {
+      ...prev,
+      brackets: prev.brackets.map(b => (b.assetId === assetId ? { ...b, ...changes } : b)),
+    }));
+  }, []);
+
+  // Positions with an armed bracket
+  const watchedKey = [...new Set(state.brackets.filter(b => b.status === 'armed').map(b => `${b.conditionId}:${b.assetId}`))].sort().join(',');
+
+  useEffect(() => {
+    if (!watchedKey) return;
+    const releases: Array<() => void> = [];
+    watchedKey.split(',').forEach(entry => {
+      const [conditionId, assetId] = entry.split(':');
+      if (!quotesRef.current.has(assetId)) {
+        quotesRef.current.set(assetId, { bid: null, ask: null, last: null });
+      }
+      if (conditionId) releases.push(subscribeToMarket(conditionId));
+      releases.push(subscribeToAsset(assetId));
+    });
+    return () => releases.forEach(release => release());
+  }, [watchedKey, subscribeToMarket, subscribeToAsset]);
+
+  // Sell the bracket's size at the bid that triggered it. Like closePosition,
+  // this is a GTC limit order, so anything the bid can't absorb rests there.
+  const trigger = useCallback(async (key: string, bracket: Bracket, leg: BracketLeg, bid: number) => {
+    const notify = (message: string, ok: boolean) => handlersRef.current.forEach(handler => handler(bracket, message, ok));
+    const trading = tradingRef.current;
+
+    try {
+      const book = await trading.getOrderBook(bracket.assetId);
+      const tickSize = String(book?.tick_size || '0.01');
+      const price = snapToTick(bid, tickSize);
+      const message = bracketTriggeredMessage(bracket, leg, price);
+      console.log('[Brackets] Triggered:', bracket.title, message);
+
+      const result = await trading.placeOrder({
+        tokenId: bracket.assetId,
+        price,
+        size: bracket.size,
+        side: 'SELL',
+        negRisk: bracket.negRisk,
+        tickSize,
+        meta: { title: bracket.title, outcome: bracket.outcome, image: bracket.image },
+      });
+      updateBracket(key, bracket.assetId, { orderId: result.orderID });
+      notify(message, true);
+    } catch (error: any) {
+      console.error('[Brackets] Exit order failed:', error);
+      const message = error?.message || 'Order failed';
+      updateBracket(key, bracket.assetId, { status: 'failed', error: message });
+      notify(`${LEG_LABELS[leg]} exit failed: ${message}`, false);
+    }
+  }, [updateBracket]);
+
+  // Check armed brackets on every quote update
+  useEffect(() => {
+    return onMessage((msg) => {
+      const updated = applyQuoteMessage(quotesRef.current, msg);
+      if (updated.length === 0 || !tradingRef.current.isInitialized) return;
+
+      const { storageKey: key, brackets } = stateRef.current;
+      const now = Date.now();
+      const hits: Array<{ bracket: Bracket; leg: BracketLeg; bid: number }> = [];
+      brackets.forEach(bracket => {
+        if (!updated.includes(bracket.assetId)) return;
+        const bid = quotesRef.current.get(bracket.assetId)?.bid ?? null;
+        const leg = bid !== null ? bracketLegHit(bracket, bid) : null;
+        if (leg) hits.push({ bracket, leg, bid: bid! });
+      });
+      if (hits.length === 0) return;
+
+      const hitsByAsset = new Map(hits.map(({ leg, bid, bracket }) => [bracket.assetId, { leg, bid }]));
+      const fire = (b: Bracket): Bracket => {
+        const hit = hitsByAsset.get(b.assetId);
+        return hit
+          ? { ...b, status: 'triggered', triggeredLeg: hit.leg, triggeredAt: now, triggerPrice: hit.bid, error: null }
+          : b;
+      };
+      // Mark them triggered right away so the next message in the same batch can't sell twice
+      stateRef.current = { storageKey: key, brackets: brackets.map(fire) };
+      setState(prev => (prev.storageKey !== key ? prev : { ...prev, brackets: prev.brackets.map(fire) }));
+      hits.forEach(({ bracket, leg, bid }) => trigger(key, bracket, leg, bid));
+    });
+  }, [onMessage, trigger]);
+
+  const getBracket = useCallback((assetId: string) => {
+    return state.brackets.find(b => b.assetId === assetId);
+  }, [state.brackets]);
+
+  const setBracket = useCallback((draft: BracketDraft) => {
+    const bracket: Bracket = {
+      ...draft,
+      status: 'armed',
+      triggeredLeg: null,
+      triggeredAt: null,
+      triggerPrice: null,
+      orderId: null,
+      error: null,
+      createdAt: Date.now(),
+    };
+    setState(prev => ({
+      ...prev,
+      brackets: [...prev.brackets.filter(b => b.assetId !== draft.assetId), bracket],
+    }));
+  }, []);
+
+  const removeBracket = useCallback((assetId: string) => {
+    setState(prev => ({ ...prev, brackets: prev.brackets.filter(b => b.assetId !== assetId) }));
+  }, []);
+
+  const syncPositionSizes = useCallback((account: string, sizes: Record<string, number>) => {
+    const key = `${STORAGE_PREFIX}_${account.toLowerCase()}`;
+    setState(prev => {
+      if (prev.storageKey !== key) return prev;
+      // A position no longer listed has been sold or closed
+      const held = prev.brackets.filter(b => b.status !== 'armed' || (sizes[b.assetId] ?? 0) > 0);
+      const capped = held.map(b => (
+        b.status === 'armed' && sizes[b.assetId] < b.size ? { ...b, size: sizes[b.assetId] } : b
+      ));
+      const changed = capped.length !== prev.brackets.length || capped.some((b, i) => b !== prev.brackets[i]);
+      return changed ? { ...prev, brackets: capped } : prev;
+    });
+  }, []);
+
+  const getBestBid = useCallback((assetId: string) => {
+    return quotesRef.current.get(assetId)?.bid ?? null;
+  }, []);
+
+  const onBracketTriggered = useCallback((handler: TriggerHandler) => {
+    handlersRef.current.add(handler);
+    return () => {
+      handlersRef.current.delete(handler);
+    };
+  }, []);
+
+  const value: BracketsContextType = {
+    brackets: state.brackets,
+    getBracket,
+    setBracket,
+    removeBracket,
+    syncPositionSizes,
+    getBestBid,
+    isMonitoring: isInitialized,
+    onBracketTriggered,
+  };
+
+  return (
+    <BracketsContext.Provider value={value}>
+      {children}
+    </BracketsContext.Provider>
+  );
+}
@@ -3,9 +3,12 @@ import { ethers } from 'ethers';
 import { deriveSafe } from '@polymarket/builder-relayer-client/dist/builder/derive';
 import { getContractConfig } from '@polymarket/builder-relayer-client/dist/config';
 import { useWallet } from './WalletContext';
+import { paperClob, type PaperFill, type PaperPosition } from '../paperClob';
 
 const POLYGON_CHAIN_ID = 137;
 
+const PAPER_MODE_STORAGE_KEY = 'POLY_TRADING_BACKEND';
+
 // Contract addresses on Polygon
 const ADDRESSES = {
   USDCe: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
@@ -25,8 +28,16 @@ const CTF_ABI = [
   'function isApprovedForAll(address,address) view returns (bool)',
   'function setApprovalForAll(address,bool)',
   'function balanceOf(address,uint256) view returns (uint256)',
+  'function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)',
+];
+
+const NEG_RISK_ADAPTER_ABI = [
+  'function redeemPositions(bytes32 conditionId, uint256[] amounts)',
 ];
 
+// Binary markets: index set 1 = outcome 0 (Yes), 2 = outcome 1 (No)
+const BINARY_INDEX_SETS = [1, 2];
+
 export interface ApprovalStatus {
   name: string;
   approved: boolean;
@@ -62,6 +73,17 @@ interface SafeContextType {
   checkApprovals: () => Promise<void>;
   approveAll: () => Promise<void>;
   allApproved: boolean;
+
+  // Redeem resolved positions (gasless via server API, or settled locally in paper mode)
+  redeemPositions: (params: { conditionId: string; negRisk: boolean; tokenIds: string[] }) => Promise<void>;
+
+  // Paper mode - virtual balance and positions instead of on-chain reads
+  isPaperMode: boolean;
+  setPaperMode: (enabled: boolean) => void;
+  paperPositions: PaperPosition[];
+  paperFills: PaperFill[];
+  paperRealizedPnl: number;
+  resetPaperAccount: () => void;
 }
 
 const SafeContext = createContext<SafeContextType | null>(null);
@@ -107,6 +129,34 @@ export function SafeProvider({ children }: { children: ReactNode }) {
   const [isCheckingApprovals, setIsCheckingApprovals] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
 
+  // Paper mode
+  const [isPaperMode, setIsPaperMode] = useState(() => localStorage.getItem(PAPER_MODE_STORAGE_KEY) === 'paper');
+  const [paperBalance, setPaperBalance] = useState(() => paperClob.getBalance());
+  const [paperPositions, setPaperPositions] = useState<PaperPosition[]>(() => paperClob.getPositions());
+  const [paperFills, setPaperFills] = useState<PaperFill[]>(() => paperClob.getFills());
+  const [paperRealizedPnl, setPaperRealizedPnl] = useState(() => paperClob.getRealizedPnl());
+
+  const setPaperMode = useCallback((enabled: boolean) => {
+    localStorage.setItem(PAPER_MODE_STORAGE_KEY, enabled ? 'paper' : 'live');
+    setIsPaperMode(enabled);
+  }, []);
+
+  // Mirror the paper account whenever the engine fills an order
+  const syncPaperAccount = useCallback(() => {
+    setPaperBalance(paperClob.getBalance());
+    setPaperPositions(paperClob.getPositions());
+    setPaperFills(paperClob.getFills());
+    setPaperRealizedPnl(paperClob.getRealizedPnl());
+  }, []);
+
+  useEffect(() => {
+    return paperClob.onAccountChange(syncPaperAccount);
+  }, [syncPaperAccount]);
+
+  const resetPaperAccount = useCallback(() => {
+    paperClob.reset();
+  }, []);
+
   // Derive Safe address from EOA
   useEffect(() => {
     if (!address) {
@@ -169,6 +219,10 @@ export function SafeProvider({ children }: { children: ReactNode }) {
 
   // Refresh Safe balance
   const refreshSafeBalance = useCallback(async () => {
+    if (isPaperMode) {
+      syncPaperAccount();
+      return;
+    }
     if (!provider || !safeAddress) return;
 
     try {
@@ -185,7 +239,7 @@ export function SafeProvider({ children }: { children: ReactNode }) {
     } catch (error) {
       console.error('[Safe] Failed to refresh Safe balance:', error);
     }
-  }, [provider, safeAddress]);
+  }, [isPaperMode, syncPaperAccount, provider, safeAddress]);
 
   // Auto-refresh balance when Safe address changes
   useEffect(() => {
@@ -408,6 +462,153 @@ export function SafeProvider({ children }: { children: ReactNode }) {
     return multisendInterface.encodeFunctionData('multiSend', [packedData]);
   };
 
+  // Execute transactions from the Safe (gasless via server API)
+  // Signs a SafeTx for one call or a multisend batch and submits it through the relayer
+  const executeSafeTransactions = useCallback(async (
+    transactions: Array<{ to: string; data: string; value: string; operation: number }>,
+    metadata: string
+  ) => {
+    if (!signer || !address || !safeAddress) {
+      throw new Error('No signer or Safe address');
+    }
+
+    // Get nonce from relayer
+    console.log('[Safe] Getting nonce...');
+    const nonceResponse = await fetch(`/api/safe/nonce?address=${address}&type=SAFE`);
+    const nonceData = await nonceResponse.json();
+    // Nonce must be a string for the relayer API
+    const nonce = String(nonceData.nonce || '0');
+    console.log('[Safe] Got nonce:', nonce);
+
+    // Aggregate transactions - single tx or multisend
+    let finalTo: string;
+    let finalData: string;
+    let finalOperation: number;
+
+    if (transactions.length === 1) {
+      finalTo = transactions[0].to;
+      finalData = transactions[0].data;
+      finalOperation = 0; // CALL
+    } else {
+      // Use multisend for multiple transactions
+      finalTo = SAFE_MULTISEND;
+      finalData = createMultisendData(transactions);
+      finalOperation = 1; // DELEGATECALL for multisend
+    }
+
+    // Build EIP-712 struct hash for SafeTx (matching SDK approach)
+    const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+    // Create the EIP-712 typed data hash manually
+    const safeTxDomain = {
+      chainId: POLYGON_CHAIN_ID,
+      verifyingContract: safeAddress,
+    };
+
+    const safeTxTypes = {
+      SafeTx: [
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'data', type: 'bytes' },
+        { name: 'operation', type: 'uint8' },
+        { name: 'safeTxGas', type: 'uint256' },
+        { name: 'baseGas', type: 'uint256' },
+        { name: 'gasPrice', type: 'uint256' },
+        { name: 'gasToken', type: 'address' },
+        { name: 'refundReceiver', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+      ],
+    };
+
+    const safeTxMessage = {
+      to: finalTo,
+      value: ethers.BigNumber.from(0),
+      data: finalData,
+      operation: finalOperation,
+      safeTxGas: ethers.BigNumber.from(0),
+      baseGas: ethers.BigNumber.from(0),
+      gasPrice: ethers.BigNumber.from(0),
+      gasToken: ZERO_ADDRESS,
+      refundReceiver: ZERO_ADDRESS,
+      nonce: ethers.BigNumber.from(nonce),
+    };
+
+    // Compute the EIP-712 typed data hash using ethers._TypedDataEncoder
+    const typedDataHash = ethers.utils._TypedDataEncoder.hash(
+      safeTxDomain,
+      safeTxTypes,
+      safeTxMessage
+    );
+    console.log('[Safe] Computed typed data hash:', typedDataHash);
+
+    // Sign the hash using signMessage (eth_sign / personal_sign)
+    // This matches the SDK's approach: signer.signMessage(structHash)
+    console.log('[Safe] Signing with signMessage...');
+    const signature = await signer.signMessage(ethers.utils.arrayify(typedDataHash));
+    console.log('[Safe] Got signature:', signature.substring(0, 30) + '...');
+
+    // Pack signature in Gnosis format with adjusted v value for eth_sign
+    // v = 27/28 for EIP-712, v = 31/32 for eth_sign (add +4)
+    const sig = ethers.utils.splitSignature(signature);
+    let adjustedV = sig.v;
+    if (adjustedV === 27 || adjustedV === 28) {
+      adjustedV += 4; // Convert to eth_sign format for Gnosis Safe
+    }
+    const packedSig = ethers.utils.solidityPack(
+      ['uint256', 'uint256', 'uint8'],
+      [sig.r, sig.s, adjustedV]
+    );
+    console.log('[Safe] Packed signature (v adjusted to', adjustedV, '):', packedSig.substring(0, 40) + '...');
+
+    console.log('[Safe] Submitting', transactions.length, 'transactions:', metadata);
+
+    // Send to server API with correct format
+    const response = await fetch('/api/safe/execute', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        from: address,
+        to: finalTo,
+        proxyWallet: safeAddress,
+        data: finalData,
+        nonce: nonce,
+        signature: packedSig,
+        signatureParams: {
+          gasPrice: '0',
+          operation: `${finalOperation}`,
+          safeTxnGas: '0',
+          baseGas: '0',
+          gasToken: ZERO_ADDRESS,
+          refundReceiver: ZERO_ADDRESS,
+        },
+        metadata,
+      }),
+    });
+
+    const responseText = await response.text();
+    console.log('[Safe] Execute response:', response.status, responseText);
+
+    if (!response.ok) {
+      let error;
+      try {
+        error = JSON.parse(responseText);
+      } catch {
+        error = { error: responseText };
+      }
+      throw new Error(error.error || 'Execute request failed');
+    }
+
+    const result = JSON.parse(responseText);
+    console.log('[Safe] Transaction submitted:', result.transactionID || result.id);
+
+    // Poll for completion
+    const txId = result.transactionID || result.id;
+    if (txId) {
+      return await pollTransactionStatus(txId);
+    }
+    return result;
+  }, [signer, address, safeAddress]);
+
   // Approve all (gasless via server API)
   const approveAll = useCallback(async () => {
     if (!signer || !address || !safeAddress) {
@@ -453,140 +654,7 @@ export function SafeProvider({ children }: { children: ReactNode }) {
         }
       });
 
-      // Get nonce from relayer
-      console.log('[Safe] Getting nonce...');
-      const nonceResponse = await fetch(`/api/safe/nonce?address=${address}&type=SAFE`);
-      const nonceData = await nonceResponse.json();
-      // Nonce must be a string for the relayer API
-      const nonce = String(nonceData.nonce || '0');
-      console.log('[Safe] Got nonce:', nonce);
-
-      // Aggregate transactions - single tx or multisend
-      let finalTo: string;
-      let finalData: string;
-      let finalOperation: number;
-
-      if (transactions.length === 1) {
-        finalTo = transactions[0].to;
-        finalData = transactions[0].data;
-        finalOperation = 0; // CALL
-      } else {
-        // Use multisend for multiple transactions
-        finalTo = SAFE_MULTISEND;
-        finalData = createMultisendData(transactions);
-        finalOperation = 1; // DELEGATECALL for multisend
-      }
-
-      // Build EIP-712 struct hash for SafeTx (matching SDK approach)
-      const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
-
-      // Create the EIP-712 typed data hash manually
-      const safeTxDomain = {
-        chainId: POLYGON_CHAIN_ID,
-        verifyingContract: safeAddress,
-      };
-
-      const safeTxTypes = {
-        SafeTx: [
-          { name: 'to', type: 'address' },
-          { name: 'value', type: 'uint256' },
-          { name: 'data', type: 'bytes' },
-          { name: 'operation', type: 'uint8' },
-          { name: 'safeTxGas', type: 'uint256' },
-          { name: 'baseGas', type: 'uint256' },
-          { name: 'gasPrice', type: 'uint256' },
-          { name: 'gasToken', type: 'address' },
-          { name: 'refundReceiver', type: 'address' },
-          { name: 'nonce', type: 'uint256' },
-        ],
-      };
-
-      const safeTxMessage = {
-        to: finalTo,
-        value: ethers.BigNumber.from(0),
-        data: finalData,
-        operation: finalOperation,
-        safeTxGas: ethers.BigNumber.from(0),
-        baseGas: ethers.BigNumber.from(0),
-        gasPrice: ethers.BigNumber.from(0),
-        gasToken: ZERO_ADDRESS,
-        refundReceiver: ZERO_ADDRESS,
-        nonce: ethers.BigNumber.from(nonce),
-      };
-
-      // Compute the EIP-712 typed data hash using ethers._TypedDataEncoder
-      const typedDataHash = ethers.utils._TypedDataEncoder.hash(
-        safeTxDomain,
-        safeTxTypes,
-        safeTxMessage
-      );
-      console.log('[Safe] Computed typed data hash:', typedDataHash);
-
-      // Sign the hash using signMessage (eth_sign / personal_sign)
-      // This matches the SDK's approach: signer.signMessage(structHash)
-      console.log('[Safe] Signing with signMessage...');
-      const signature = await signer.signMessage(ethers.utils.arrayify(typedDataHash));
-      console.log('[Safe] Got signature:', signature.substring(0, 30) + '...');
-
-      // Pack signature in Gnosis format with adjusted v value for eth_sign
-      // v = 27/28 for EIP-712, v = 31/32 for eth_sign (add +4)
-      const sig = ethers.utils.splitSignature(signature);
-      let adjustedV = sig.v;
-      if (adjustedV === 27 || adjustedV === 28) {
-        adjustedV += 4; // Convert to eth_sign format for Gnosis Safe
-      }
-      const packedSig = ethers.utils.solidityPack(
-        ['uint256', 'uint256', 'uint8'],
-        [sig.r, sig.s, adjustedV]
-      );
-      console.log('[Safe] Packed signature (v adjusted to', adjustedV, '):', packedSig.substring(0, 40) + '...');
-
-      console.log('[Safe] Submitting', transactions.length, 'approval transactions...');
-
-      // Send to server API with correct format
-      const response = await fetch('/api/safe/execute', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          from: address,
-          to: finalTo,
-          proxyWallet: safeAddress,
-          data: finalData,
-          nonce: nonce,
-          signature: packedSig,
-          signatureParams: {
-            gasPrice: '0',
-            operation: `${finalOperation}`,
-            safeTxnGas: '0',
-            baseGas: '0',
-            gasToken: ZERO_ADDRESS,
-            refundReceiver: ZERO_ADDRESS,
-          },
-          metadata: 'Set token approvals',
-        }),
-      });
-
-      const responseText = await response.text();
-      console.log('[Safe] Execute response:', response.status, responseText);
-
-      if (!response.ok) {
-        let error;
-        try {
-          error = JSON.parse(responseText);
-        } catch {
-          error = { error: responseText };
-        }
-        throw new Error(error.error || 'Execute request failed');
-      }
-
-      const result = JSON.parse(responseText);
-      console.log('[Safe] Approval transaction submitted:', result.transactionID || result.id);
-
-      // Poll for completion
-      const txId = result.transactionID || result.id;
-      if (txId) {
-        await pollTransactionStatus(txId);
-      }
+      await executeSafeTransactions(transactions, 'Set token approvals');
 
       console.log('[Safe] Approvals set successfully!');
       await checkApprovals();
@@ -596,7 +664,58 @@ export function SafeProvider({ children }: { children: ReactNode }) {
     } finally {
       setIsApproving(false);
     }
-  }, [signer, address, safeAddress, isSafeDeployed, deploySafe, approvals, checkApprovals]);
+  }, [signer, address, safeAddress, isSafeDeployed, deploySafe, approvals, checkApprovals, executeSafeTransactions]);
+
+  // Redeem a resolved market's positions for USDC.e (gasless via server API)
+  // Binary markets redeem on the CTF; neg-risk markets go through the NegRisk adapter,
+  // which needs the exact amount held of each outcome token.
+  const redeemPositions = useCallback(async (params: {
+    conditionId: string;
+    negRisk: boolean;
+    // Outcome token IDs ordered by outcome index (Yes, No)
+    tokenIds: string[];
+  }) => {
+    if (isPaperMode) {
+      paperClob.redeem(params.conditionId);
+      return;
+    }
+    if (!provider || !safeAddress) {
+      throw new Error('Connect a wallet to redeem');
+    }
+    if (params.negRisk && (params.tokenIds.length !== 2 || params.tokenIds.some(id => !id))) {
+      throw new Error('Both outcome tokens are needed to redeem a neg risk market');
+    }
+
+    console.log('[Safe] Redeeming positions for condition', params.conditionId, params.negRisk ? '(neg risk)' : '');
+
+    let transaction: { to: string; data: string; value: string; operation: number };
+    if (params.negRisk) {
+      const ctf = new ethers.Contract(ADDRESSES.CTF, CTF_ABI, provider);
+      const amounts = await Promise.all(params.tokenIds.map(tokenId => ctf.balanceOf(safeAddress, tokenId)));
+      transaction = {
+        to: ADDRESSES.NEG_RISK_ADAPTER,
+        data: new ethers.utils.Interface(NEG_RISK_ADAPTER_ABI).encodeFunctionData('redeemPositions', [params.conditionId, amounts]),
+        value: '0',
+        operation: 0, // CALL
+      };
+    } else {
+      transaction = {
+        to: ADDRESSES.CTF,
+        data: new ethers.utils.Interface(CTF_ABI).encodeFunctionData('redeemPositions', [
+          ADDRESSES.USDCe,
+          ethers.constants.HashZero, // parent collection
+          params.conditionId,
+          BINARY_INDEX_SETS,
+        ]),
+        value: '0',
+        operation: 0, // CALL
+      };
+    }
+
+    await executeSafeTransactions([transaction], 'Redeem positions');
+    console.log('[Safe] Positions redeemed');
+    await refreshSafeBalance();
+  }, [isPaperMode, provider, safeAddress, executeSafeTransactions, refreshSafeBalance]);
 
   const allApproved = approvals.length > 0 && approvals.every(a => a.approved);
 
@@ -605,7 +724,7 @@ export function SafeProvider({ children }: { children: ReactNode }) {
     isSafeDeployed,
     isDeployingSafe,
     deploySafe,
-    safeUsdceBalance,
+    safeUsdceBalance: isPaperMode ? paperBalance : safeUsdceBalance,
     safeMaticBalance,
     refreshSafeBalance,
     approvals,
@@ -614,6 +733,13 @@ export function SafeProvider({ children }: { children: ReactNode }) {
     checkApprovals,
     approveAll,
     allApproved,
+    redeemPositions,
+    isPaperMode,
+    setPaperMode,
+    paperPositions,
+    paperFills,
+    paperRealizedPnl,
+    resetPaperAccount,
   };
 
   return (
@@ -3,8 +3,12 @@ import { ClobClient, Side, OrderType } from '@polymarket/clob-client';
 import type { ApiKeyCreds, TickSize } from '@polymarket/clob-client';
 import { useWallet } from './WalletContext';
 import { useSafe } from './SafeContext';
+import { ENDPOINTS } from '../../config';
+import { paperClob, type ClobClientLike, type PaperAssetInfo } from '../paperClob';
+import { toGtdExpiration } from '../orderExpiry';
+import { restTradeFills, type UserFill } from '../userChannel';
 
-const HOST = 'https://clob.polymarket.com';
+const HOST = ENDPOINTS.clob;
 const CHAIN_ID = 137;
 
 // Signature types for Polymarket
@@ -14,12 +18,23 @@ const CHAIN_ID = 137;
 const SIGNATURE_TYPE_EOA = 0;
 const SIGNATURE_TYPE_POLY_GNOSIS_SAFE = 2;
 
+// 'paper' routes every order to the in-memory matching engine (paperClob.ts)
+// The mode itself lives in SafeContext so balances follow it too
+export type TradingBackend = 'live' | 'paper';
+
+export type LimitOrderType = 'GTC' | 'GTD';
+export type MarketOrderType = 'FOK' | 'FAK';
+
 interface TradingContextType {
-  client: ClobClient | null;
+  client: ClobClientLike | null;
   apiCreds: ApiKeyCreds | null;
   isInitialized: boolean;
   isDerivingCreds: boolean;
 
+  // Backend
+  backend: TradingBackend;
+  setBackend: (backend: TradingBackend) => void;
+
   // Trading
   placeOrder: (params: {
     tokenId: string;
@@ -28,6 +43,27 @@ interface TradingContextType {
     side: 'BUY' | 'SELL';
     negRisk: boolean;
     tickSize: string;
+    // Defaults to GTC; GTD orders require expiresAt (ms)
+    orderType?: LimitOrderType;
+    expiresAt?: number;
+    // Reject the order instead of matching if it would cross the book
+    postOnly?: boolean;
+    // Labels the resulting paper position
+    meta?: PaperAssetInfo;
+  }) => Promise<{ orderID: string; status: string }>;
+
+  // Market orders - amount is USDC for BUY, shares for SELL
+  // FOK fills completely or is rejected, FAK fills what it can and cancels the rest
+  placeMarketOrder: (params: {
+    tokenId: string;
+    amount: number;
+    side: 'BUY' | 'SELL';
+    orderType: MarketOrderType;
+    // Worst acceptable price; omit to let the client price from the book
+    price?: number;
+    negRisk: boolean;
+    tickSize: string;
+    meta?: PaperAssetInfo;
   }) => Promise<{ orderID: string; status: string }>;
 
   // Orders
@@ -35,6 +71,9 @@ interface TradingContextType {
   cancelOrder: (orderId: string) => Promise<void>;
   cancelAllOrders: () => Promise<void>;
 
+  // The user's live fills on one token (paper fills are in SafeContext)
+  getFills: (assetId: string) => Promise<Array<UserFill & { timestamp: number }>>;
+
   // Order book
   getOrderBook: (tokenId: string) => Promise<any>;
 }
@@ -51,18 +90,27 @@ export function useTrading() {
 
 export function TradingProvider({ children }: { children: ReactNode }) {
   const { signer, address } = useWallet();
-  const { safeAddress, isSafeDeployed, deploySafe, approveAll, allApproved } = useSafe();
+  const { safeAddress, isSafeDeployed, deploySafe, approveAll, allApproved, isPaperMode, setPaperMode } = useSafe();
 
-  const [client, setClient] = useState<ClobClient | null>(null);
+  const [liveClient, setLiveClient] = useState<ClobClient | null>(null);
   const [apiCreds, setApiCreds] = useState<ApiKeyCreds | null>(null);
   const [isDerivingCreds, setIsDerivingCreds] = useState(false);
+  const backend: TradingBackend = isPaperMode ? 'paper' : 'live';
+
+  // Paper mode never touches the live client, so it works without a wallet
+  const client: ClobClientLike | null = backend === 'paper' ? paperClob : liveClient;
+
+  const setBackend = useCallback((next: TradingBackend) => {
+    setPaperMode(next === 'paper');
+    console.log('[Trading] Backend switched to', next);
+  }, [setPaperMode]);
 
   // Initialize CLOB client when wallet connects
   // The client uses EOA signer but trades execute from Safe address
   useEffect(() => {
     async function initClient() {
       if (!signer || !address || !safeAddress) {
-        setClient(null);
+        setLiveClient(null);
         setApiCreds(null);
         return;
       }
@@ -115,7 +163,7 @@ export function TradingProvider({ children }: { children: ReactNode }) {
           safeAddress // funder address (Safe wallet)
         );
 
-        setClient(clobClient);
+        setLiveClient(clobClient);
         console.log('[Trading] CLOB client initialized');
         console.log('[Trading] - EOA Signer:', address);
         console.log('[Trading] - Safe/Funder:', safeAddress);
@@ -131,6 +179,24 @@ export function TradingProvider({ children }: { children: ReactNode }) {
     initClient();
   }, [signer, address, safeAddress]);
 
+  // Deploy the Safe and set approvals if needed (both gasless), or label the paper position
+  const prepareToTrade = useCallback(async (tokenId: string, meta?: PaperAssetInfo) => {
+    if (backend === 'paper') {
+      if (meta) paperClob.setAssetInfo(tokenId, meta);
+      return;
+    }
+
+    if (!isSafeDeployed) {
+      console.log('[Trading] Deploying Safe before trading...');
+      await deploySafe();
+    }
+
+    if (!allApproved) {
+      console.log('[Trading] Setting approvals before trading...');
+      await approveAll();
+    }
+  }, [backend, isSafeDeployed, deploySafe, allApproved, approveAll]);
+
   // Place order
   const placeOrder = useCallback(async (params: {
     tokenId: string;
@@ -139,22 +205,21 @@ export function TradingProvider({ children }: { children: ReactNode }) {
     side: 'BUY' | 'SELL';
     negRisk: boolean;
     tickSize: string;
+    orderType?: LimitOrderType;
+    expiresAt?: number;
+    postOnly?: boolean;
+    meta?: PaperAssetInfo;
   }) => {
     if (!client) {
       throw new Error('Trading client not initialized');
     }
 
-    // Deploy Safe if needed (gasless)
-    if (!isSafeDeployed) {
-      console.log('[Trading] Deploying Safe before trading...');
-      await deploySafe();
+    const isGtd = params.orderType === 'GTD';
+    if (isGtd && !(params.expiresAt && params.expiresAt > Date.now())) {
+      throw new Error('GTD orders need an expiration in the future');
     }
 
-    // Ensure approvals before trading (gasless)
-    if (!allApproved) {
-      console.log('[Trading] Setting approvals before trading...');
-      await approveAll();
-    }
+    await prepareToTrade(params.tokenId, params.meta);
 
     console.log('[Trading] Placing order...', params);
 
@@ -182,12 +247,15 @@ export function TradingProvider({ children }: { children: ReactNode }) {
         price: params.price,
         size: params.size,
         side: params.side === 'BUY' ? Side.BUY : Side.SELL,
+        expiration: isGtd ? toGtdExpiration(params.expiresAt!) : undefined,
       },
       {
         tickSize: params.tickSize as TickSize,
         negRisk: params.negRisk,
       },
-      OrderType.GTC
+      isGtd ? OrderType.GTD : OrderType.GTC,
+      false,
+      params.postOnly
     );
 
     console.log('[Trading] Order placed:', response);
@@ -201,7 +269,52 @@ export function TradingProvider({ children }: { children: ReactNode }) {
       orderID: response.orderID || '',
       status: response.status || 'unknown',
     };
-  }, [client, isSafeDeployed, deploySafe, allApproved, approveAll]);
+  }, [client, prepareToTrade]);
+
+  // Place market order (FOK/FAK)
+  const placeMarketOrder = useCallback(async (params: {
+    tokenId: string;
+    amount: number;
+    side: 'BUY' | 'SELL';
+    orderType: MarketOrderType;
+    price?: number;
+    negRisk: boolean;
+    tickSize: string;
+    meta?: PaperAssetInfo;
+  }) => {
+    if (!client) {
+      throw new Error('Trading client not initialized');
+    }
+
+    await prepareToTrade(params.tokenId, params.meta);
+
+    console.log('[Trading] Placing market order...', params);
+
+    const response = await client.createAndPostMarketOrder(
+      {
+        tokenID: params.tokenId,
+        amount: params.amount,
+        side: params.side === 'BUY' ? Side.BUY : Side.SELL,
+        price: params.price,
+      },
+      {
+        tickSize: params.tickSize as TickSize,
+        negRisk: params.negRisk,
+      },
+      params.orderType === 'FAK' ? OrderType.FAK : OrderType.FOK
+    );
+
+    console.log('[Trading] Market order placed:', response);
+
+    if (response.error || response.status === 400) {
+      throw new Error(response.error || 'Order failed');
+    }
+
+    return {
+      orderID: response.orderID || '',
+      status: response.status || 'unknown',
+    };
+  }, [client, prepareToTrade]);
 
   // Get open orders
   const getOpenOrders = useCallback(async () => {
@@ -226,6 +339,20 @@ export function TradingProvider({ children }: { children: ReactNode }) {
     await client.cancelAll();
   }, [client]);
 
+  // Get the user's fills on one token
+  const getFills = useCallback(async (assetId: string) => {
+    if (backend !== 'live' || !liveClient || !apiCreds) return [];
+    try {
+      const trades = await liveClient.getTrades({ asset_id: assetId }, true);
+      return trades.flatMap(trade => restTradeFills(trade, apiCreds.key)
+        .filter(fill => fill.assetId === assetId)
+        .map(fill => ({ ...fill, timestamp: Number(trade.match_time) * 1000 })));
+    } catch (error) {
+      console.error('[Trading] Failed to get trades:', error);
+      return [];
+    }
+  }, [backend, liveClient, apiCreds]);
+
   // Get order book
   const getOrderBook = useCallback(async (tokenId: string) => {
     if (!client) {
@@ -239,11 +366,15 @@ export function TradingProvider({ children }: { children: ReactNode }) {
     client,
     apiCreds,
     isInitialized: !!client,
-    isDerivingCreds,
+    isDerivingCreds: backend === 'live' && isDerivingCreds,
+    backend,
+    setBackend,
     placeOrder,
+    placeMarketOrder,
     getOpenOrders,
     cancelOrder,
     cancelAllOrders,
+    getFills,
     getOrderBook,
   };
 
@@ -0,0 +1,171 @@
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, type ReactNode } from 'react';
+import { useSafe } from './SafeContext';
+import { useWebSocket } from './WebSocketContext';
+import type { Market } from '../components/MarketsView';
+
+// Watchlists are kept per Safe address (or one shared set before connecting)
+const STORAGE_PREFIX = 'POLY_WATCHLISTS';
+
+const DEFAULT_LIST_NAME = 'Favorites';
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  // Snapshots taken when starred; prices are refreshed by the Watchlist view
+  markets: Market[];
+}
+
+interface WatchlistState {
+  storageKey: string;
+  activeId: string;
+  lists: Watchlist[];
+}
+
+interface WatchlistContextType {
+  watchlists: Watchlist[];
+  // List that stars add to and remove from
+  activeWatchlist: Watchlist;
+  setActiveWatchlist: (id: string) => void;
+  createWatchlist: (name: string) => void;
+  renameWatchlist: (id: string, name: string) => void;
+  // The last list can't be deleted
+  deleteWatchlist: (id: string) => void;
+  isWatched: (marketId: string) => boolean;
+  toggleWatched: (market: Market) => void;
+  // Number of distinct markets across all lists
+  watchedCount: number;
+}
+
+const WatchlistContext = createContext<WatchlistContextType | null>(null);
+
+export function useWatchlist() {
+  const context = useContext(WatchlistContext);
+  if (!context) {
+    throw new Error('useWatchlist must be used within a WatchlistProvider');
+  }
+  return context;
+}
+
+function newWatchlist(name: string): Watchlist {
+  const id = `wl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  return { id, name, markets: [] };
+}
+
+function loadState(storageKey: string): WatchlistState {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    const parsed = stored ? JSON.parse(stored) : null;
+    const lists: Watchlist[] = Array.isArray(parsed?.lists)
+      ? parsed.lists.filter((l: any) => l?.id && typeof l.name === 'string' && Array.isArray(l.markets))
+      : [];
+    if (lists.length > 0) {
+      const activeId = lists.some(l => l.id === parsed.activeId) ? parsed.activeId : lists[0].id;
+      return { storageKey, activeId, lists };
+    }
+  } catch (error) {
+    console.warn('[Watchlist] Ignoring unreadable stored watchlists:', error);
+  }
+  const list = newWatchlist(DEFAULT_LIST_NAME);
+  return { storageKey, activeId: list.id, lists: [list] };
+}
+
+export function WatchlistProvider({ children }: { children: ReactNode }) {
+  const { safeAddress } = useSafe();
+  const { subscribeToMarket, subscribeToAsset } = useWebSocket();
+
+  const storageKey = safeAddress ? `${STORAGE_PREFIX}_${safeAddress.toLowerCase()}` : STORAGE_PREFIX;
+  const [state, setState] = useState<WatchlistState>(() => loadState(storageKey));
+
+  // Switch to the lists of the connected Safe
+  useEffect(() => {
+    setState(prev => (prev.storageKey === storageKey ? prev : loadState(storageKey)));
+  }, [storageKey]);
+
+  // Persist under the key the state was loaded from, so switching Safes never
+  // writes one Safe's lists over another's
+  useEffect(() => {
+    const { storageKey: key, ...stored } = state;
+    localStorage.setItem(key, JSON.stringify(stored));
+  }, [state]);
+
+  const watchedMarkets = useMemo(() => {
+    const byId = new Map<string, Market>();
+    state.lists.forEach(list => list.markets.forEach(m => byId.set(m.id, m)));
+    return [...byId.values()];
+  }, [state.lists]);
+
+  // Markets and tokens to keep live, so list edits that don't change them don't resubscribe
+  const watchedKey = watchedMarkets.map(m => `${m.conditionId}:${m.clobTokenIds.join('|')}`).sort().join(',');
+
+  // Keep every watched market live, whichever view is open
+  useEffect(() => {
+    if (!watchedKey) return;
+    const releases: Array<() => void> = [];
+    watchedKey.split(',').forEach(entry => {
+      const [conditionId, tokenIds] = entry.split(':');
+      if (conditionId) releases.push(subscribeToMarket(conditionId));
+      tokenIds.split('|').filter(Boolean).forEach(tokenId => releases.push(subscribeToAsset(tokenId)));
+    });
+    return () => releases.forEach(release => release());
+  }, [watchedKey, subscribeToMarket, subscribeToAsset]);
+
+  const updateList = useCallback((id: string, update: (list: Watchlist) => Watchlist) => {
+    setState(prev => ({ ...prev, lists: prev.lists.map(l => (l.id === id ? update(l) : l)) }));
+  }, []);
+
+  const setActiveWatchlist = useCallback((id: string) => {
+    setState(prev => (prev.lists.some(l => l.id === id) ? { ...prev, activeId: id } : prev));
+  }, []);
+
+  const createWatchlist = useCallback((name: string) => {
+    const list = newWatchlist(name.trim() || DEFAULT_LIST_NAME);
+    setState(prev => ({ ...prev, activeId: list.id, lists: [...prev.lists, list] }));
+  }, []);
+
+  const renameWatchlist = useCallback((id: string, name: string) => {
+    if (!name.trim()) return;
+    updateList(id, l => ({ ...l, name: name.trim() }));
+  }, [updateList]);
+
+  const deleteWatchlist = useCallback((id: string) => {
+    setState(prev => {
+      if (prev.lists.length <= 1) return prev;
+      const lists = prev.lists.filter(l => l.id !== id);
+      const activeId = prev.activeId === id ? lists[0].id : prev.activeId;
+      return { ...prev, activeId, lists };
+    });
+  }, []);
+
+  const activeWatchlist = state.lists.find(l => l.id === state.activeId) || state.lists[0];
+
+  const isWatched = useCallback((marketId: string) => {
+    return activeWatchlist.markets.some(m => m.id === marketId);
+  }, [activeWatchlist]);
+
+  const toggleWatched = useCallback((market: Market) => {
+    updateList(activeWatchlist.id, l => ({
+      ...l,
+      markets: l.markets.some(m => m.id === market.id)
+        ? l.markets.filter(m => m.id !== market.id)
+        : [...l.markets, market],
+    }));
+  }, [activeWatchlist.id, updateList]);
+
+  const value: WatchlistContextType = {
+    watchlists: state.lists,
+    activeWatchlist,
+    setActiveWatchlist,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    isWatched,
+    toggleWatched,
+    watchedCount: watchedMarkets.length,
+  };
+
+  return (
+    <WatchlistContext.Provider value={value}>
+      {children}
+    </WatchlistContext.Provider>
+  );
+}
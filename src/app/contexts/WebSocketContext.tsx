@@ -1,13 +1,26 @@
 import { createContext, useContext, useEffect, useState, useCallback, type ReactNode } from 'react';
-import { polymarketWS, type WebSocketMessage, type BookMessage } from '../websocket';
+import type { WebSocketMessage, ConnectionInfo } from '../websocket';
+import { marketFeed } from '../marketFeed';
+import { paperClob } from '../paperClob';
+import { OrderBookStore, type BookState } from '../orderBookStore';
+import { userChannel, type UserChannelMessage } from '../userChannel';
+import { useTrading } from './TradingContext';
 
 interface WebSocketContextType {
   isConnected: boolean;
-  subscribeToMarket: (conditionId: string) => void;
-  subscribeToAsset: (assetId: string) => void;
-  unsubscribeFromMarket: (conditionId: string) => void;
+  // Quality and latency of the market channel, for the Header indicator
+  connection: ConnectionInfo;
+  // Both return a function that releases the subscription
+  subscribeToMarket: (conditionId: string) => () => void;
+  subscribeToAsset: (assetId: string) => () => void;
   onMessage: (handler: (msg: WebSocketMessage) => void) => () => void;
+  // Live, delta-maintained book for an asset (see orderBookStore.ts)
+  subscribeToBook: (assetId: string, listener: (book: BookState) => void) => () => void;
   getStats: () => { connected: boolean; subscribedMarkets: number; subscribedAssets: number; messagesReceived: number };
+
+  // Authenticated user channel (live backend only)
+  isUserChannelConnected: boolean;
+  onUserMessage: (handler: (msg: UserChannelMessage) => void) => () => void;
 }
 
 const WebSocketContext = createContext<WebSocketContextType | null>(null);
@@ -20,49 +33,137 @@ export function useWebSocket() {
   return context;
 }
 
+// Subscribe a component to one asset's live order book
+export function useOrderBook(assetId: string | undefined): BookState | null {
+  const { subscribeToBook } = useWebSocket();
+  const [book, setBook] = useState<BookState | null>(null);
+
+  useEffect(() => {
+    setBook(null);
+    if (!assetId) return;
+    return subscribeToBook(assetId, setBook);
+  }, [assetId, subscribeToBook]);
+
+  return book;
+}
+
+// Strip live updates for assets whose book is simulated by the paper engine
+function withoutPaperAssets(msg: WebSocketMessage): WebSocketMessage | null {
+  if (msg.event_type === 'price_change') {
+    const priceChanges = msg.price_changes.filter(pc => !paperClob.hasBook(pc.asset_id));
+    return priceChanges.length > 0 ? { ...msg, price_changes: priceChanges } : null;
+  }
+  if ('asset_id' in msg && paperClob.hasBook(msg.asset_id)) {
+    return null;
+  }
+  return msg;
+}
+
+// Paper books are simulated on the main thread by the paper engine, so they get
+// their own store; live books are maintained by the market feed (possibly in a worker)
+const paperBooks = new OrderBookStore();
+paperBooks.setSnapshotSource((assetId) => paperClob.getOrderBook(assetId));
+paperClob.onMessage((msg) => paperBooks.handleMessage(msg));
+
 export function WebSocketProvider({ children }: { children: ReactNode }) {
+  const { backend, apiCreds } = useTrading();
   const [isConnected, setIsConnected] = useState(false);
+  const [connection, setConnection] = useState<ConnectionInfo>(() => marketFeed.getConnectionInfo());
+  const [isUserChannelConnected, setIsUserChannelConnected] = useState(false);
 
   // Connect to WebSocket on mount
   useEffect(() => {
-    const unsubscribeStatus = polymarketWS.onStatusChange((connected) => {
+    const unsubscribeStatus = marketFeed.onStatusChange((connected) => {
       setIsConnected(connected);
     });
+    const unsubscribeQuality = marketFeed.onQualityChange(setConnection);
 
-    polymarketWS.connect().catch(console.error);
+    marketFeed.connect();
 
     return () => {
       unsubscribeStatus();
+      unsubscribeQuality();
     };
   }, []);
 
-  const subscribeToMarket = useCallback((conditionId: string) => {
-    polymarketWS.subscribeToMarket(conditionId);
+  // User channel follows the live API credentials; paper mode reports through the paper engine
+  useEffect(() => {
+    return userChannel.onStatusChange(setIsUserChannelConnected);
   }, []);
 
-  const subscribeToAsset = useCallback((assetId: string) => {
-    polymarketWS.subscribeToAsset(assetId);
+  useEffect(() => {
+    if (backend === 'live' && apiCreds) {
+      userChannel.connect(apiCreds);
+    } else {
+      userChannel.disconnect();
+    }
+  }, [backend, apiCreds]);
+
+  useEffect(() => {
+    return () => userChannel.disconnect();
+  }, []);
+
+  const onUserMessage = useCallback((handler: (msg: UserChannelMessage) => void) => {
+    return userChannel.onMessage(handler);
+  }, []);
+
+  const subscribeToMarket = useCallback((conditionId: string) => {
+    return marketFeed.subscribeToMarket(conditionId);
   }, []);
 
-  const unsubscribeFromMarket = useCallback((conditionId: string) => {
-    polymarketWS.unsubscribeFromMarket(conditionId);
+  const subscribeToAsset = useCallback((assetId: string) => {
+    return marketFeed.subscribeToAsset(assetId);
   }, []);
 
+  // In paper mode, paper engine events replace the live feed for simulated books
   const onMessage = useCallback((handler: (msg: WebSocketMessage) => void) => {
-    return polymarketWS.onMessage(handler);
+    if (backend !== 'paper') {
+      return marketFeed.onMessage(handler);
+    }
+
+    const unsubscribeLive = marketFeed.onMessage((msg) => {
+      const filtered = withoutPaperAssets(msg);
+      if (filtered) handler(filtered);
+    });
+    const unsubscribePaper = paperClob.onMessage(handler);
+
+    return () => {
+      unsubscribeLive();
+      unsubscribePaper();
+    };
+  }, [backend]);
+
+  // Paper positions settle on real resolutions
+  useEffect(() => {
+    return marketFeed.onMessage((msg) => {
+      if (msg.event_type === 'market_resolved') {
+        paperClob.resolveMarket(msg.market, msg.winning_asset_id);
+      }
+    });
   }, []);
 
+  // Books follow the active backend: paper books come from the paper engine
+  const subscribeToBook = useCallback((assetId: string, listener: (book: BookState) => void) => {
+    if (backend === 'paper') {
+      return paperBooks.subscribe(assetId, listener);
+    }
+    return marketFeed.subscribeToBook(assetId, listener);
+  }, [backend]);
+
   const getStats = useCallback(() => {
-    return polymarketWS.getStats();
+    return marketFeed.getStats();
   }, []);
 
   const value: WebSocketContextType = {
     isConnected,
+    connection,
     subscribeToMarket,
     subscribeToAsset,
-    unsubscribeFromMarket,
     onMessage,
+    subscribeToBook,
     getStats,
+    isUserChannelConnected,
+    onUserMessage,
   };
 
   return (
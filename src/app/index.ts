@@ -11,13 +11,11 @@ import {
   type NewMarketMessage,
   type WebSocketMessage
 } from "./websocket";
+import { ENDPOINTS, gammaUrl } from "../config";
 
 // ============= Constants =============
-const HOST = "https://clob.polymarket.com";
+const HOST = ENDPOINTS.clob;
 const CHAIN_ID = 137;
-const GAMMA_API = "https://gamma-api.polymarket.com";
-const DATA_API = "https://data-api.polymarket.com";
-const CORS_PROXY = "https://corsproxy.io/?url=";
 
 const ADDRESSES = {
   USDCe: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174",
@@ -369,9 +367,8 @@ function updateOrderBookUI(book: BookMessage) {
 // Only called ONCE on startup - all subsequent updates come via WebSocket
 async function fetchMarkets() {
   try {
-    // Use CORS proxy for initial fetch only - WebSocket handles all live updates
-    const apiUrl = `${GAMMA_API}/markets?active=true&closed=false&limit=50`;
-    const response = await fetch(`${CORS_PROXY}${encodeURIComponent(apiUrl)}`);
+    // Initial fetch only (through the /api/gamma proxy) - WebSocket handles all live updates
+    const response = await fetch(gammaUrl("/markets?active=true&closed=false&limit=50"));
     const data = await response.json();
 
     console.log(`[Markets] Loaded ${data.length} markets from API (one-time fetch)`);
@@ -871,7 +868,7 @@ async function fetchPositions() {
   positionsContainer.innerHTML = '<div class="loading-state"><div class="spinner"></div></div>';
 
   try {
-    const response = await fetch(`${DATA_API}/positions?user=${signerAddress.toLowerCase()}&sizeThreshold=1&limit=100`);
+    const response = await fetch(`${ENDPOINTS.dataApi}/positions?user=${signerAddress.toLowerCase()}&sizeThreshold=1&limit=100`);
     const data = await response.json();
 
     positions = (data || []).map((p: any) => ({
@@ -0,0 +1,278 @@
+// Market Feed
+// The React app reaches the market channel through a MarketFeed, which has two transports:
+//   main   - PolymarketWebSocket and the order book store run on the main thread
+//   worker - both run in marketFeed.worker.ts (socket, JSON parsing, book
+//            maintenance); the main thread receives coalesced batches every
+//            ~100ms, so a busy market can't make the UI stutter
+// Choose with VITE_WS_TRANSPORT=main|worker. The worker is the default where supported.
+
+import { polymarketWS, type WebSocketMessage, type ConnectionInfo } from './websocket';
+import { orderBookStore, type BookState } from './orderBookStore';
+
+export type FeedStats = ReturnType<typeof polymarketWS.getStats>;
+
+export interface MarketFeed {
+  connect(): void;
+  // Reference counted; call the returned function to release
+  subscribeToMarket(conditionId: string): () => void;
+  subscribeToAsset(assetId: string): () => void;
+  // Live, delta-maintained book (also subscribes to the asset)
+  subscribeToBook(assetId: string, listener: (book: BookState) => void): () => void;
+  onMessage(handler: (msg: WebSocketMessage) => void): () => void;
+  onStatusChange(handler: (connected: boolean) => void): () => void;
+  onQualityChange(handler: (info: ConnectionInfo) => void): () => void;
+  getConnectionInfo(): ConnectionInfo;
+  getStats(): FeedStats;
+  // Recording and replay (see sessionRecording.ts)
+  // Called with each frame and when it arrived (epoch ms)
+  onRawMessage(handler: (data: unknown, receivedAt: number) => void): () => void;
+  injectMessage(data: unknown): void;
+  setLiveMuted(muted: boolean): void;
+}
+
+// Main thread -> worker
+export type FeedCommand =
+  | { type: 'connect' }
+  | { type: 'resume' }
+  | { type: 'subscribeMarket'; conditionId: string }
+  | { type: 'releaseMarket'; conditionId: string }
+  | { type: 'subscribeAsset'; assetId: string }
+  | { type: 'releaseAsset'; assetId: string }
+  | { type: 'watchBook'; assetId: string }
+  | { type: 'unwatchBook'; assetId: string }
+  | { type: 'record'; enabled: boolean }
+  | { type: 'inject'; data: unknown }
+  | { type: 'mute'; muted: boolean };
+
+// A raw frame stamped where the socket received it, so batching doesn't skew recordings
+export interface RawFrame {
+  data: unknown;
+  receivedAt: number;
+}
+
+// Worker -> main thread
+export type FeedEvent =
+  | { type: 'status'; connected: boolean }
+  | { type: 'quality'; info: ConnectionInfo }
+  | { type: 'batch'; messages: WebSocketMessage[]; books: BookState[]; raw: RawFrame[]; stats: FeedStats };
+
+// Everything on the main thread, as before the worker existed
+class MainThreadFeed implements MarketFeed {
+  constructor() {
+    polymarketWS.onMessage((msg) => orderBookStore.handleMessage(msg));
+  }
+
+  connect() {
+    polymarketWS.connect().catch(console.error);
+  }
+
+  subscribeToMarket(conditionId: string) {
+    return polymarketWS.subscribeToMarket(conditionId);
+  }
+
+  subscribeToAsset(assetId: string) {
+    return polymarketWS.subscribeToAsset(assetId);
+  }
+
+  subscribeToBook(assetId: string, listener: (book: BookState) => void) {
+    const release = polymarketWS.subscribeToAsset(assetId);
+    const unsubscribe = orderBookStore.subscribe(assetId, listener);
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }
+
+  onMessage(handler: (msg: WebSocketMessage) => void) {
+    return polymarketWS.onMessage(handler);
+  }
+
+  onStatusChange(handler: (connected: boolean) => void) {
+    return polymarketWS.onStatusChange(handler);
+  }
+
+  onQualityChange(handler: (info: ConnectionInfo) => void) {
+    return polymarketWS.onQualityChange(handler);
+  }
+
+  getConnectionInfo() {
+    return polymarketWS.getConnectionInfo();
+  }
+
+  getStats() {
+    return polymarketWS.getStats();
+  }
+
+  onRawMessage(handler: (data: unknown, receivedAt: number) => void) {
+    return polymarketWS.onRawMessage(handler);
+  }
+
+  injectMessage(data: unknown) {
+    polymarketWS.injectMessage(data);
+  }
+
+  setLiveMuted(muted: boolean) {
+    polymarketWS.setLiveMuted(muted);
+  }
+}
+
+// Proxy for the feed running in marketFeed.worker.ts
+class WorkerFeed implements MarketFeed {
+  private worker: Worker;
+  private messageHandlers: Set<(msg: WebSocketMessage) => void> = new Set();
+  private statusHandlers: Set<(connected: boolean) => void> = new Set();
+  private qualityHandlers: Set<(info: ConnectionInfo) => void> = new Set();
+  private rawHandlers: Set<(data: unknown, receivedAt: number) => void> = new Set();
+  private bookListeners: Map<string, Set<(book: BookState) => void>> = new Map();
+  // Latest state per watched book, so late subscribers get it immediately
+  private books: Map<string, BookState> = new Map();
+  private connectionInfo: ConnectionInfo = { quality: 'offline', latencyMs: null, lastMessageAt: 0, reconnectAttempts: 0 };
+  private stats: FeedStats = { connected: false, subscribedMarkets: 0, subscribedAssets: 0, messagesReceived: 0 };
+
+  constructor(worker: Worker) {
+    this.worker = worker;
+    this.worker.onmessage = (event: MessageEvent<FeedEvent>) => this.handleEvent(event.data);
+    this.worker.onerror = (error) => console.error('[Feed] Worker error:', error);
+
+    // The worker can't see the page, so relay visibility for its reconnect check
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') this.post({ type: 'resume' });
+    });
+  }
+
+  connect() {
+    this.post({ type: 'connect' });
+  }
+
+  // Each subscribe holds one reference in the worker's PolymarketWebSocket
+  subscribeToMarket(conditionId: string) {
+    this.post({ type: 'subscribeMarket', conditionId });
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.post({ type: 'releaseMarket', conditionId });
+    };
+  }
+
+  subscribeToAsset(assetId: string) {
+    this.post({ type: 'subscribeAsset', assetId });
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.post({ type: 'releaseAsset', assetId });
+    };
+  }
+
+  subscribeToBook(assetId: string, listener: (book: BookState) => void) {
+    let listeners = this.bookListeners.get(assetId);
+    if (!listeners) {
+      listeners = new Set();
+      this.bookListeners.set(assetId, listeners);
+      this.post({ type: 'watchBook', assetId });
+    }
+    listeners.add(listener);
+
+    const book = this.books.get(assetId);
+    if (book) listener(book);
+
+    return () => {
+      const current = this.bookListeners.get(assetId);
+      if (!current?.delete(listener) || current.size > 0) return;
+      this.bookListeners.delete(assetId);
+      this.books.delete(assetId);
+      this.post({ type: 'unwatchBook', assetId });
+    };
+  }
+
+  onMessage(handler: (msg: WebSocketMessage) => void) {
+    this.messageHandlers.add(handler);
+    return () => { this.messageHandlers.delete(handler); };
+  }
+
+  onStatusChange(handler: (connected: boolean) => void) {
+    this.statusHandlers.add(handler);
+    return () => { this.statusHandlers.delete(handler); };
+  }
+
+  onQualityChange(handler: (info: ConnectionInfo) => void) {
+    this.qualityHandlers.add(handler);
+    handler(this.connectionInfo);
+    return () => { this.qualityHandlers.delete(handler); };
+  }
+
+  getConnectionInfo() {
+    return this.connectionInfo;
+  }
+
+  getStats() {
+    return this.stats;
+  }
+
+  // Raw frames only cross the worker boundary while someone is recording
+  onRawMessage(handler: (data: unknown, receivedAt: number) => void) {
+    this.rawHandlers.add(handler);
+    if (this.rawHandlers.size === 1) this.post({ type: 'record', enabled: true });
+    return () => {
+      if (this.rawHandlers.delete(handler) && this.rawHandlers.size === 0) {
+        this.post({ type: 'record', enabled: false });
+      }
+    };
+  }
+
+  injectMessage(data: unknown) {
+    this.post({ type: 'inject', data });
+  }
+
+  setLiveMuted(muted: boolean) {
+    this.post({ type: 'mute', muted });
+  }
+
+  // Private methods
+  private post(command: FeedCommand) {
+    this.worker.postMessage(command);
+  }
+
+  private handleEvent(event: FeedEvent) {
+    switch (event.type) {
+      case 'status':
+        this.statusHandlers.forEach(handler => handler(event.connected));
+        break;
+
+      case 'quality':
+        this.connectionInfo = event.info;
+        this.qualityHandlers.forEach(handler => handler(event.info));
+        break;
+
+      case 'batch':
+        this.stats = event.stats;
+        event.raw.forEach(({ data, receivedAt }) => this.rawHandlers.forEach(handler => handler(data, receivedAt)));
+        event.books.forEach(book => {
+          const listeners = this.bookListeners.get(book.assetId);
+          if (!listeners) return;
+          this.books.set(book.assetId, book);
+          listeners.forEach(listener => listener(book));
+        });
+        event.messages.forEach(msg => this.messageHandlers.forEach(handler => handler(msg)));
+        break;
+    }
+  }
+}
+
+function createMarketFeed(): MarketFeed {
+  const transport = import.meta.env.VITE_WS_TRANSPORT === 'main' ? 'main' : 'worker';
+  if (transport === 'worker' && typeof Worker !== 'undefined') {
+    try {
+      const worker = new Worker(new URL('./marketFeed.worker.ts', import.meta.url), { type: 'module' });
+      console.log('[Feed] Market feed running in a Web Worker');
+      return new WorkerFeed(worker);
+    } catch (error) {
+      console.warn('[Feed] Could not start the feed worker, using the main thread:', error);
+    }
+  }
+  return new MainThreadFeed();
+}
+
+// Singleton instance
+export const marketFeed: MarketFeed = createMarketFeed();
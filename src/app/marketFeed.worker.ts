@@ -0,0 +1,182 @@
+// Market feed worker
+// Owns the market channel socket and the order book store off the main thread.
+// Messages are collected for FLUSH_INTERVAL_MS, coalesced and posted as one batch
+// (see FeedEvent in marketFeed.ts):
+//   book, tick_size_change, best_bid_ask - latest per asset
+//   price_change - merged per market, latest size per asset/side/price level
+//   last_trade_price, new_market, market_resolved - all kept, in order
+// Watched books are posted as their latest state, not as deltas.
+
+import { polymarketWS, type WebSocketMessage, type PriceChangeMessage } from './websocket';
+import { orderBookStore, type BookState } from './orderBookStore';
+import type { FeedCommand, FeedEvent, RawFrame } from './marketFeed';
+
+const FLUSH_INTERVAL_MS = 100;
+
+let pendingMessages: WebSocketMessage[] = [];
+let pendingBooks: Map<string, BookState> = new Map();
+let pendingRaw: RawFrame[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let recording = false;
+
+// One release function per subscribe command, so the main thread's references map 1:1
+const marketReleases: Map<string, Array<() => void>> = new Map();
+const assetReleases: Map<string, Array<() => void>> = new Map();
+const bookWatches: Map<string, () => void> = new Map();
+
+function post(event: FeedEvent) {
+  self.postMessage(event);
+}
+
+// Later messages win; the Map keeps keys in order of their latest occurrence
+function coalesce(messages: WebSocketMessage[]): WebSocketMessage[] {
+  const merged: Map<string, WebSocketMessage> = new Map();
+  const levels: Map<string, Map<string, PriceChangeMessage['price_changes'][number]>> = new Map();
+
+  const put = (key: string, msg: WebSocketMessage) => {
+    merged.delete(key);
+    merged.set(key, msg);
+  };
+
+  messages.forEach((msg, index) => {
+    switch (msg.event_type) {
+      case 'book':
+      case 'tick_size_change':
+      case 'best_bid_ask':
+        put(`${msg.event_type}:${msg.asset_id}`, msg);
+        break;
+
+      case 'price_change': {
+        const key = `price_change:${msg.market}`;
+        let marketLevels = levels.get(key);
+        if (!marketLevels) {
+          marketLevels = new Map();
+          levels.set(key, marketLevels);
+        }
+        msg.price_changes.forEach(change => {
+          const levelKey = `${change.asset_id}:${change.side}:${change.price}`;
+          marketLevels!.delete(levelKey);
+          marketLevels!.set(levelKey, change);
+        });
+        put(key, { ...msg, price_changes: [...marketLevels.values()] });
+        break;
+      }
+
+      default:
+        put(`${msg.event_type}:${index}`, msg);
+    }
+  });
+
+  return [...merged.values()];
+}
+
+function scheduleFlush() {
+  if (flushTimer) return;
+  flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS);
+}
+
+function flush() {
+  flushTimer = null;
+  const batch: FeedEvent = {
+    type: 'batch',
+    messages: coalesce(pendingMessages),
+    books: [...pendingBooks.values()],
+    raw: pendingRaw,
+    stats: polymarketWS.getStats(),
+  };
+  pendingMessages = [];
+  pendingBooks = new Map();
+  pendingRaw = [];
+  post(batch);
+}
+
+polymarketWS.onMessage((msg) => {
+  orderBookStore.handleMessage(msg);
+  pendingMessages.push(msg);
+  scheduleFlush();
+});
+
+polymarketWS.onRawMessage((data, receivedAt) => {
+  if (!recording) return;
+  pendingRaw.push({ data, receivedAt });
+  scheduleFlush();
+});
+
+polymarketWS.onStatusChange((connected) => post({ type: 'status', connected }));
+polymarketWS.onQualityChange((info) => post({ type: 'quality', info }));
+
+self.onmessage = (event: MessageEvent<FeedCommand>) => {
+  const command = event.data;
+
+  switch (command.type) {
+    case 'connect':
+      polymarketWS.connect().catch(error => console.error('[FeedWorker] Connect failed:', error));
+      break;
+
+    case 'resume':
+      polymarketWS.resume();
+      break;
+
+    case 'subscribeMarket': {
+      const releases = marketReleases.get(command.conditionId) ?? [];
+      releases.push(polymarketWS.subscribeToMarket(command.conditionId));
+      marketReleases.set(command.conditionId, releases);
+      break;
+    }
+
+    case 'releaseMarket': {
+      const releases = marketReleases.get(command.conditionId);
+      releases?.pop()?.();
+      if (releases?.length === 0) marketReleases.delete(command.conditionId);
+      break;
+    }
+
+    case 'subscribeAsset': {
+      const releases = assetReleases.get(command.assetId) ?? [];
+      releases.push(polymarketWS.subscribeToAsset(command.assetId));
+      assetReleases.set(command.assetId, releases);
+      break;
+    }
+
+    case 'releaseAsset': {
+      const releases = assetReleases.get(command.assetId);
+      releases?.pop()?.();
+      if (releases?.length === 0) assetReleases.delete(command.assetId);
+      break;
+    }
+
+    case 'watchBook': {
+      if (bookWatches.has(command.assetId)) break;
+      const assetId = command.assetId;
+      const release = polymarketWS.subscribeToAsset(assetId);
+      const unsubscribe = orderBookStore.subscribe(assetId, (book) => {
+        pendingBooks.set(assetId, book);
+        scheduleFlush();
+      });
+      bookWatches.set(assetId, () => {
+        unsubscribe();
+        release();
+      });
+      break;
+    }
+
+    case 'unwatchBook':
+      bookWatches.get(command.assetId)?.();
+      bookWatches.delete(command.assetId);
+      pendingBooks.delete(command.assetId);
+      break;
+
+    case 'record':
+      recording = command.enabled;
+      if (!recording) pendingRaw = [];
+      break;
+
+    case 'inject':
+      polymarketWS.injectMessage(command.data);
+      break;
+
+    case 'mute':
+      polymarketWS.setLiveMuted(command.muted);
+      break;
+  }
+};
@@ -0,0 +1,120 @@
+// Market order estimation
+// Walks order book levels to estimate what a market order would fill at.
+// Amounts follow UserMarketOrder: BUY spends a USDC amount against the asks,
+// SELL sells a share count into the bids.
+
+import type { OrderBookLevel } from './websocket';
+
+export interface MarketFillEstimate {
+  // Shares bought or sold
+  shares: number;
+  // USDC spent (BUY) or received (SELL)
+  notional: number;
+  avgPrice: number;
+  bestPrice: number;
+  worstPrice: number;
+  // Average price vs best price, as a fraction of the best price
+  slippage: number;
+  // False when the book is too thin to fill the whole amount
+  filled: boolean;
+}
+
+const EPSILON = 1e-9;
+
+// Levels from the REST book are not guaranteed to be best-first, so sort here
+function bestFirst(levels: OrderBookLevel[], side: 'BUY' | 'SELL') {
+  return levels
+    .map(level => ({ price: Number(level.price), size: Number(level.size) }))
+    .filter(level => level.price > 0 && level.size > 0)
+    .sort((a, b) => (side === 'BUY' ? a.price - b.price : b.price - a.price));
+}
+
+// Estimate a market order against the opposite side of the book
+// (asks for BUY, bids for SELL). Returns null when nothing would fill.
+export function estimateMarketFill(
+  levels: OrderBookLevel[],
+  side: 'BUY' | 'SELL',
+  amount: number
+): MarketFillEstimate | null {
+  if (!(amount > 0)) return null;
+
+  const sorted = bestFirst(levels, side);
+  if (sorted.length === 0) return null;
+
+  let remaining = amount;
+  let shares = 0;
+  let notional = 0;
+  let worstPrice = sorted[0].price;
+
+  for (const level of sorted) {
+    if (remaining <= EPSILON) break;
+
+    const take = side === 'BUY' ? Math.min(level.size, remaining / level.price) : Math.min(level.size, remaining);
+    shares += take;
+    notional += take * level.price;
+    remaining -= side === 'BUY' ? take * level.price : take;
+    worstPrice = level.price;
+  }
+
+  const bestPrice = sorted[0].price;
+  const avgPrice = notional / shares;
+
+  return {
+    shares,
+    notional,
+    avgPrice,
+    bestPrice,
+    worstPrice,
+    slippage: side === 'BUY' ? (avgPrice - bestPrice) / bestPrice : (bestPrice - avgPrice) / bestPrice,
+    filled: remaining <= EPSILON,
+  };
+}
+
+export type SizeUnit = 'shares' | 'usdc';
+
+// Convert an order size entered in `unit` to the amount a market order takes
+// (USDC for BUY, shares for SELL) by walking the opposite side of the book.
+// Returns null when the book can't absorb the whole size.
+export function toMarketOrderAmount(
+  levels: OrderBookLevel[],
+  side: 'BUY' | 'SELL',
+  amount: number,
+  unit: SizeUnit
+): number | null {
+  if (!(amount > 0)) return null;
+  // Already in the order's own unit
+  if ((side === 'BUY') === (unit === 'usdc')) return amount;
+
+  let remaining = amount;
+  let converted = 0;
+  for (const level of bestFirst(levels, side)) {
+    if (remaining <= EPSILON) break;
+    // BUY: shares in, USDC out; SELL: USDC in, shares out
+    const shares = side === 'BUY' ? Math.min(level.size, remaining) : Math.min(level.size, remaining / level.price);
+    converted += side === 'BUY' ? shares * level.price : shares;
+    remaining -= side === 'BUY' ? shares : shares * level.price;
+  }
+  return remaining <= EPSILON ? converted : null;
+}
+
+// Best price on the opposite side of the book for an order, or null when it's empty
+export function bestOppositePrice(levels: OrderBookLevel[], side: 'BUY' | 'SELL'): number | null {
+  return bestFirst(levels, side)[0]?.price ?? null;
+}
+
+// Whether a limit order at `price` would match resting orders immediately
+// (a post-only order at this price would be rejected)
+export function crossesBook(levels: OrderBookLevel[], side: 'BUY' | 'SELL', price: number): boolean {
+  const best = bestOppositePrice(levels, side);
+  if (best === null) return false;
+  return side === 'BUY' ? price >= best - EPSILON : price <= best + EPSILON;
+}
+
+// How far a limit price reaches past the best opposite level, as a fraction of
+// that level's price; 0 when it doesn't cross
+export function priceThroughBook(levels: OrderBookLevel[], side: 'BUY' | 'SELL', price: number): number {
+  const best = bestOppositePrice(levels, side);
+  if (best === null) return 0;
+  const through = side === 'BUY' ? (price - best) / best : (best - price) / best;
+  return Math.max(0, through);
+}
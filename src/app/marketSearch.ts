@@ -0,0 +1,199 @@
+// Market search
+// Builds Gamma queries for the markets list and keeps its filters in the page
+// URL, so a filtered view can be shared as a link.
+//
+// Without search text the list pages through /markets, where Gamma applies
+// the category, liquidity, volume and end-date filters. With search text it
+// pages through /public-search, which returns events with their markets and
+// ignores those filters, so they are applied to the results here instead.
+
+import { gammaUrl } from '../config';
+
+export type SortOption = 'volume24hr' | 'liquidity' | 'newest' | 'ending';
+
+export interface MarketFilters {
+  search: string;
+  // Gamma tag slug, e.g. "crypto"
+  tag: string;
+  sort: SortOption;
+  // ISO dates (yyyy-mm-dd), empty for no bound
+  endAfter: string;
+  endBefore: string;
+  minLiquidity: number;
+  minVolume: number;
+}
+
+export const PAGE_SIZE = 50;
+
+// Markets below this liquidity rarely have an order book to trade against
+export const MIN_LIQUIDITY = 100;
+
+export const DEFAULT_FILTERS: MarketFilters = {
+  search: '',
+  tag: '',
+  sort: 'volume24hr',
+  endAfter: '',
+  endBefore: '',
+  minLiquidity: 0,
+  minVolume: 0,
+};
+
+export const CATEGORIES: Array<{ slug: string; label: string }> = [
+  { slug: 'politics', label: 'Politics' },
+  { slug: 'crypto', label: 'Crypto' },
+  { slug: 'sports', label: 'Sports' },
+  { slug: 'economy', label: 'Economy' },
+  { slug: 'tech', label: 'Tech' },
+  { slug: 'pop-culture', label: 'Culture' },
+];
+
+const SORT_OPTIONS: SortOption[] = ['volume24hr', 'liquidity', 'newest', 'ending'];
+
+// Gamma `order` field for each sort
+const SORT_ORDER: Record<SortOption, { order: string; ascending: boolean }> = {
+  volume24hr: { order: 'volume24hr', ascending: false },
+  liquidity: { order: 'liquidityNum', ascending: false },
+  newest: { order: 'startDate', ascending: false },
+  ending: { order: 'endDate', ascending: true },
+};
+
+// URL parameter for each filter
+const QUERY_KEYS: Record<keyof MarketFilters, string> = {
+  search: 'q',
+  tag: 'tag',
+  sort: 'sort',
+  endAfter: 'ends_after',
+  endBefore: 'ends_before',
+  minLiquidity: 'min_liquidity',
+  minVolume: 'min_volume',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function filtersFromQuery(query: string): MarketFilters {
+  const params = new URLSearchParams(query);
+  const get = (key: keyof MarketFilters) => params.get(QUERY_KEYS[key]) || '';
+  const sort = get('sort') as SortOption;
+
+  return {
+    search: get('search'),
+    tag: get('tag'),
+    sort: SORT_OPTIONS.includes(sort) ? sort : DEFAULT_FILTERS.sort,
+    endAfter: DATE_PATTERN.test(get('endAfter')) ? get('endAfter') : '',
+    endBefore: DATE_PATTERN.test(get('endBefore')) ? get('endBefore') : '',
+    minLiquidity: Math.max(0, Number(get('minLiquidity')) || 0),
+    minVolume: Math.max(0, Number(get('minVolume')) || 0),
+  };
+}
+
+// Write the filters into `query`, keeping unrelated parameters (e.g. ?debug).
+// Defaults are left out so the plain page URL stays clean.
+export function filtersToQuery(filters: MarketFilters, query = ''): string {
+  const params = new URLSearchParams(query);
+  (Object.keys(QUERY_KEYS) as Array<keyof MarketFilters>).forEach(key => {
+    const value = filters[key];
+    if (value === DEFAULT_FILTERS[key] || value === '') {
+      params.delete(QUERY_KEYS[key]);
+    } else {
+      params.set(QUERY_KEYS[key], String(value));
+    }
+  });
+  // Flags like ?debug are written back without a trailing "="
+  const result = params.toString().replace(/=(?=&|$)/g, '');
+  return result ? `?${result}` : '';
+}
+
+// End-of-day bound so "ends before" includes the chosen date
+const endOfDay = (date: string) => `${date}T23:59:59Z`;
+const startOfDay = (date: string) => `${date}T00:00:00Z`;
+
+// Gamma URL for one page of results
+export function marketsPageUrl(filters: MarketFilters, offset: number, tagId: string | null): string {
+  const search = filters.search.trim();
+  if (search) {
+    const params = new URLSearchParams({
+      q: search,
+      limit_per_type: String(PAGE_SIZE),
+      page: String(Math.floor(offset / PAGE_SIZE) + 1),
+      events_status: 'active',
+      keep_closed_markets: '0',
+    });
+    return gammaUrl(`/public-search?${params}`);
+  }
+
+  const { order, ascending } = SORT_ORDER[filters.sort];
+  const params = new URLSearchParams({
+    active: 'true',
+    closed: 'false',
+    limit: String(PAGE_SIZE),
+    offset: String(offset),
+    order,
+    ascending: String(ascending),
+    liquidity_num_min: String(Math.max(MIN_LIQUIDITY, filters.minLiquidity)),
+    // Tags come back on each market, for the client-side pass in matchesFilters
+    include_tag: 'true',
+  });
+  if (filters.minVolume > 0) params.set('volume_num_min', String(filters.minVolume));
+  if (tagId) params.set('tag_id', tagId);
+  // Ending soon only makes sense for markets that haven't ended yet
+  if (filters.endAfter) params.set('end_date_min', startOfDay(filters.endAfter));
+  else if (filters.sort === 'ending') params.set('end_date_min', new Date().toISOString());
+  if (filters.endBefore) params.set('end_date_max', endOfDay(filters.endBefore));
+  return gammaUrl(`/markets?${params}`);
+}
+
+// Raw Gamma markets from a page response, and whether another page may follow.
+// Search results are events; their markets are tagged with the event so the
+// filters below and the event grouping in MarketsView still work.
+export function parseMarketsPage(data: any): { markets: any[]; hasMore: boolean } {
+  if (Array.isArray(data)) {
+    return { markets: data, hasMore: data.length >= PAGE_SIZE };
+  }
+
+  const events: any[] = data?.events || [];
+  const markets = events.flatMap(event => (event.markets || []).map((m: any) => ({
+    ...m,
+    events: m.events ?? [{ id: event.id, title: event.title, slug: event.slug, image: event.image }],
+    tags: m.tags ?? event.tags,
+  })));
+  return { markets, hasMore: data?.pagination?.hasMore ?? events.length >= PAGE_SIZE };
+}
+
+// Client-side pass of the same filters, for search results (and as a guard
+// for hosts that ignore some of the query parameters)
+export function matchesFilters(
+  raw: any,
+  market: { liquidity: number; volume: number; endDate: string },
+  filters: MarketFilters
+): boolean {
+  if (market.liquidity < Math.max(MIN_LIQUIDITY, filters.minLiquidity)) return false;
+  if (market.volume < filters.minVolume) return false;
+  if (raw.active === false || raw.closed) return false;
+
+  const endTime = new Date(market.endDate).getTime();
+  if (filters.endAfter && !(endTime >= new Date(startOfDay(filters.endAfter)).getTime())) return false;
+  if (filters.endBefore && !(endTime <= new Date(endOfDay(filters.endBefore)).getTime())) return false;
+
+  // Tags are only known when the response includes them
+  if (filters.tag && Array.isArray(raw.tags) && !raw.tags.some((t: any) => t.slug === filters.tag)) return false;
+  return true;
+}
+
+const tagIds: Map<string, Promise<string | null>> = new Map();
+
+// Gamma filters markets by tag ID; categories are known by slug
+export function resolveTagId(slug: string): Promise<string | null> {
+  let pending = tagIds.get(slug);
+  if (!pending) {
+    pending = fetch(gammaUrl(`/tags/slug/${encodeURIComponent(slug)}`))
+      .then(response => (response.ok ? response.json() : null))
+      .then(tag => (tag?.id != null ? String(tag.id) : null))
+      .catch(error => {
+        console.error('[Markets] Failed to resolve tag', slug, error);
+        tagIds.delete(slug);
+        return null;
+      });
+    tagIds.set(slug, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,88 @@
+// Market trades
+// Recent trades of a market for the TradeModal time-and-sales tape: seeded
+// from the data-api trades endpoint, then extended from last_trade_price
+// messages on the market channel.
+
+import { ENDPOINTS } from '../config';
+import type { LastTradePriceMessage } from './websocket';
+
+export interface TapeTrade {
+  id: string;
+  assetId: string;
+  outcome: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  size: number;
+  // ms (whole seconds for REST trades)
+  timestamp: number;
+  // Seeded from the data-api, or printed live on the market channel
+  source: 'rest' | 'live';
+}
+
+// Trades kept in the tape, newest first
+export const MAX_TAPE_TRADES = 200;
+
+// Minimum notional (USDC) filters for large prints
+export const PRINT_THRESHOLDS = [0, 100, 1000, 10000];
+
+// Prints at or above this notional are highlighted
+export const LARGE_PRINT_USDC = 1000;
+
+export const notional = (trade: TapeTrade) => trade.price * trade.size;
+
+// Newest trades of a market (conditionId), newest first
+export async function fetchRecentTrades(conditionId: string, limit = 100): Promise<TapeTrade[]> {
+  const params = new URLSearchParams({ market: conditionId, limit: String(limit) });
+  const response = await fetch(`${ENDPOINTS.dataApi}/trades?${params}`);
+  if (!response.ok) throw new Error(`Failed to load trades (${response.status})`);
+  const data: any[] = await response.json();
+  return data
+    .map((t, i) => ({
+      id: `${t.transactionHash || 'rest'}-${t.asset}-${i}`,
+      assetId: String(t.asset),
+      outcome: t.outcome || '',
+      side: t.side === 'SELL' ? 'SELL' as const : 'BUY' as const,
+      price: Number(t.price),
+      size: Number(t.size),
+      // The data-api reports seconds
+      timestamp: Number(t.timestamp) * 1000,
+      source: 'rest' as const,
+    }))
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+let liveSeq = 0;
+
+export function tradeFromMessage(msg: LastTradePriceMessage, outcome: string): TapeTrade {
+  return {
+    id: `live-${++liveSeq}`,
+    assetId: msg.asset_id,
+    outcome,
+    side: msg.side,
+    price: Number(msg.price),
+    size: Number(msg.size),
+    timestamp: Number(msg.timestamp) || Date.now(),
+    source: 'live',
+  };
+}
+
+const toSeconds = (timestamp: number) => Math.floor(timestamp / 1000);
+
+// Add a live trade to the front. The REST seed only has whole seconds, so
+// trades are compared by second: those before the newest one in the tape were
+// already seeded, as were those matching a seeded trade in the same second
+// with the same asset, price and size.
+export function addTapeTrade(tape: TapeTrade[], trade: TapeTrade): TapeTrade[] {
+  const second = toSeconds(trade.timestamp);
+  if (tape.length > 0 && second < toSeconds(tape[0].timestamp)) return tape;
+  for (const existing of tape) {
+    if (toSeconds(existing.timestamp) !== second) break;
+    if (
+      existing.source === 'rest' &&
+      existing.assetId === trade.assetId &&
+      existing.price === trade.price &&
+      existing.size === trade.size
+    ) return tape;
+  }
+  return [trade, ...tape].slice(0, MAX_TAPE_TRADES);
+}
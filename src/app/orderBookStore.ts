@@ -0,0 +1,414 @@
+// Order Book Store
+// Keeps a live, consistent order book per asset ID for any component that
+// subscribes. Books start from a REST snapshot (or the paper engine's book in
+// paper mode) and are then kept current from the market channel:
+//   book           - replaces the snapshot
+//   price_change   - sets the size at one price level (size 0 removes it)
+//   tick_size_change / last_trade_price - update book metadata
+//
+// price_change entries carry the hash of the book after the change. The hash is
+// the SHA-1 of the book summary JSON (same scheme as ClobClient.getOrderBookHash).
+// The scheme is first checked against each REST snapshot's own hash; when it
+// reproduces, every delta is verified and a mismatch triggers a fresh snapshot.
+// When it doesn't (or the source sends no hashes, like the paper engine, or
+// the page has no crypto.subtle), deltas are applied unverified.
+//
+// Deltas that arrive while a snapshot is in flight are queued and replayed
+// once it lands: those after the delta carrying the snapshot's hash, or else
+// those newer than its timestamp. If they can't be matched, the book resyncs.
+
+import type { OrderBookSummary } from '@polymarket/clob-client';
+import type { OrderBookLevel, PriceChangeMessage, WebSocketMessage } from './websocket';
+import { ENDPOINTS } from '../config';
+
+export interface BookState {
+  assetId: string;
+  market: string;
+  // Best price first
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  tickSize: string;
+  minOrderSize: string;
+  negRisk: boolean;
+  lastTradePrice: string;
+  timestamp: string;
+  hash: string;
+  status: 'loading' | 'ready' | 'error';
+  error: string | null;
+}
+
+type BookListener = (book: BookState) => void;
+// Sources may answer with an error body instead of a book
+type SnapshotResponse = OrderBookSummary | { error: string } | null;
+type SnapshotSource = (assetId: string) => Promise<SnapshotResponse>;
+
+// How deltas are checked for an asset, decided from its last REST snapshot
+type Validation = 'unknown' | 'verified' | 'unsupported';
+
+// One price_change message's entries for a single asset
+interface BookDelta {
+  timestamp: string;
+  // Hash of the book after the last change
+  hash: string;
+  changes: PriceChangeMessage['price_changes'];
+}
+
+interface StoredBook {
+  state: BookState;
+  // Normalised price -> level, kept as received so hashes reproduce
+  bids: Map<string, OrderBookLevel>;
+  asks: Map<string, OrderBookLevel>;
+  validation: Validation;
+  // Field order and level order of the snapshot, reused to rebuild the hashed JSON
+  keyOrder: string[];
+  bestLast: boolean;
+  lastResync: number;
+  resyncTimer: ReturnType<typeof setTimeout> | null;
+  // Incremented per snapshot request so stale responses are dropped
+  generation: number;
+  // Deltas received while a snapshot is in flight (null when none is)
+  pending: BookDelta[] | null;
+  pendingOverflow: boolean;
+}
+
+const MIN_RESYNC_INTERVAL_MS = 2000;
+const MAX_PENDING_DELTAS = 500;
+
+const DEFAULT_KEY_ORDER = [
+  'market', 'asset_id', 'timestamp', 'bids', 'asks',
+  'min_order_size', 'tick_size', 'neg_risk', 'last_trade_price', 'hash',
+];
+
+async function fetchRestSnapshot(assetId: string): Promise<OrderBookSummary> {
+  const response = await fetch(`${ENDPOINTS.clob}/book?token_id=${assetId}`);
+  const data = await response.json();
+  if (!response.ok || data?.error) {
+    throw new Error(data?.error || `Order book request failed (${response.status})`);
+  }
+  return data;
+}
+
+// SHA-1 of the book summary JSON with an empty hash field. Null where
+// crypto.subtle is unavailable (insecure origins).
+async function hashSummary(summary: Record<string, unknown>): Promise<string | null> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return null;
+  const message = JSON.stringify({ ...summary, hash: '' });
+  const digest = await subtle.digest('SHA-1', new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Queued deltas the snapshot doesn't include yet, or null if that can't be told
+function deltasAfterSnapshot(pending: BookDelta[], summary: OrderBookSummary): BookDelta[] | null {
+  const matched = summary.hash ? pending.map(delta => delta.hash).lastIndexOf(summary.hash) : -1;
+  if (matched >= 0) return pending.slice(matched + 1);
+  if (pending.length === 0) return [];
+  const snapshotTime = Number(summary.timestamp);
+  if (!summary.timestamp || !Number.isFinite(snapshotTime)) return null;
+  return pending.filter(delta => Number(delta.timestamp) > snapshotTime);
+}
+
+function priceKey(price: string): string {
+  return String(Number(price));
+}
+
+function toLevelMap(levels: OrderBookLevel[] | undefined): Map<string, OrderBookLevel> {
+  const map = new Map<string, OrderBookLevel>();
+  (levels || []).forEach(level => {
+    if (Number(level.size) > 0) map.set(priceKey(level.price), { price: level.price, size: level.size });
+  });
+  return map;
+}
+
+function sortLevels(levels: Map<string, OrderBookLevel>, side: 'bids' | 'asks'): OrderBookLevel[] {
+  return [...levels.values()].sort((a, b) =>
+    side === 'bids' ? Number(b.price) - Number(a.price) : Number(a.price) - Number(b.price)
+  );
+}
+
+function emptyState(assetId: string): BookState {
+  return {
+    assetId,
+    market: '',
+    bids: [],
+    asks: [],
+    tickSize: '0.01',
+    minOrderSize: '1',
+    negRisk: false,
+    lastTradePrice: '',
+    timestamp: '',
+    hash: '',
+    status: 'loading',
+    error: null,
+  };
+}
+
+export class OrderBookStore {
+  private books: Map<string, StoredBook> = new Map();
+  private listeners: Map<string, Set<BookListener>> = new Map();
+  private snapshotSource: SnapshotSource = fetchRestSnapshot;
+
+  // Subscribe to an asset's book. The listener is called immediately if the
+  // book is already known, then on every change. Unsubscribing the last
+  // listener drops the book.
+  subscribe(assetId: string, listener: BookListener): () => void {
+    let listeners = this.listeners.get(assetId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(assetId, listeners);
+    }
+    listeners.add(listener);
+
+    const stored = this.books.get(assetId);
+    if (stored) {
+      listener(stored.state);
+    } else {
+      this.books.set(assetId, this.createStored(assetId));
+      this.requestSnapshot(assetId);
+    }
+
+    return () => {
+      const current = this.listeners.get(assetId);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) {
+        this.listeners.delete(assetId);
+        this.dropBook(assetId);
+      }
+    };
+  }
+
+  getBook(assetId: string): BookState | null {
+    return this.books.get(assetId)?.state ?? null;
+  }
+
+  // Switch where snapshots come from (REST by default) and resync every book
+  setSnapshotSource(source: SnapshotSource | null) {
+    this.snapshotSource = source || fetchRestSnapshot;
+    this.books.forEach((_, assetId) => this.requestSnapshot(assetId));
+  }
+
+  // Feed a market channel message into the store
+  handleMessage(msg: WebSocketMessage) {
+    switch (msg.event_type) {
+      case 'book': {
+        const stored = this.books.get(msg.asset_id);
+        if (!stored) return;
+        stored.generation++;
+        stored.pending = null;
+        stored.bids = toLevelMap(msg.bids);
+        stored.asks = toLevelMap(msg.asks);
+        this.update(stored, {
+          market: msg.market || stored.state.market,
+          timestamp: msg.timestamp,
+          hash: msg.hash,
+          status: 'ready',
+          error: null,
+        });
+        break;
+      }
+
+      case 'price_change': {
+        // Group by asset so each book is checked once against its final hash
+        const byAsset = new Map<string, BookDelta['changes']>();
+        msg.price_changes.forEach(change => {
+          if (!this.books.has(change.asset_id)) return;
+          const changes = byAsset.get(change.asset_id);
+          if (changes) changes.push(change);
+          else byAsset.set(change.asset_id, [change]);
+        });
+
+        byAsset.forEach((changes, assetId) => {
+          const stored = this.books.get(assetId)!;
+          const delta: BookDelta = { timestamp: msg.timestamp, hash: changes[changes.length - 1].hash, changes };
+          if (stored.pending) {
+            if (stored.pending.length < MAX_PENDING_DELTAS) stored.pending.push(delta);
+            else stored.pendingOverflow = true;
+          }
+          if (stored.state.status === 'ready') this.applyDeltas(stored, [delta]);
+        });
+        break;
+      }
+
+      case 'tick_size_change': {
+        const stored = this.books.get(msg.asset_id);
+        if (stored) this.update(stored, { tickSize: msg.new_tick_size });
+        break;
+      }
+
+      case 'last_trade_price': {
+        const stored = this.books.get(msg.asset_id);
+        if (stored) this.update(stored, { lastTradePrice: msg.price });
+        break;
+      }
+    }
+  }
+
+  // Private methods
+  private createStored(assetId: string): StoredBook {
+    return {
+      state: emptyState(assetId),
+      bids: new Map(),
+      asks: new Map(),
+      validation: 'unknown',
+      keyOrder: DEFAULT_KEY_ORDER,
+      bestLast: true,
+      lastResync: 0,
+      resyncTimer: null,
+      generation: 0,
+      pending: null,
+      pendingOverflow: false,
+    };
+  }
+
+  private dropBook(assetId: string) {
+    const stored = this.books.get(assetId);
+    if (stored?.resyncTimer) clearTimeout(stored.resyncTimer);
+    this.books.delete(assetId);
+  }
+
+  private async requestSnapshot(assetId: string) {
+    const stored = this.books.get(assetId);
+    if (!stored) return;
+
+    if (stored.resyncTimer) {
+      clearTimeout(stored.resyncTimer);
+      stored.resyncTimer = null;
+    }
+    stored.lastResync = Date.now();
+    const generation = ++stored.generation;
+    stored.pending = [];
+    stored.pendingOverflow = false;
+    // Dropped, resynced again, or replaced by a book message while fetching
+    const isStale = () => this.books.get(assetId) !== stored || stored.generation !== generation;
+
+    let summary: OrderBookSummary;
+    try {
+      const response = await this.snapshotSource(assetId);
+      if (isStale()) return;
+
+      if (!response || 'error' in response) {
+        throw new Error(response?.error || 'No order book returned');
+      }
+      summary = response;
+    } catch (error: any) {
+      if (isStale()) return;
+      stored.pending = null;
+      console.error('[Books] Snapshot failed for', assetId.slice(0, 10) + '...', error);
+      this.update(stored, { status: 'error', error: error?.message || 'Failed to load order book' });
+      return;
+    }
+
+    const pending = stored.pending ?? [];
+    stored.pending = null;
+    stored.bids = toLevelMap(summary.bids);
+    stored.asks = toLevelMap(summary.asks);
+    stored.keyOrder = Object.keys(summary);
+    const bids = summary.bids || [];
+    stored.bestLast = bids.length > 1 && Number(bids[0].price) < Number(bids[bids.length - 1].price);
+
+    this.update(stored, {
+      market: summary.market || '',
+      tickSize: String(summary.tick_size || stored.state.tickSize),
+      minOrderSize: String(summary.min_order_size || stored.state.minOrderSize),
+      negRisk: summary.neg_risk ?? false,
+      lastTradePrice: summary.last_trade_price || '',
+      timestamp: summary.timestamp || '',
+      hash: summary.hash || '',
+      status: 'ready',
+      error: null,
+    });
+
+    const missed = stored.pendingOverflow ? null : deltasAfterSnapshot(pending, summary);
+    if (missed) {
+      this.applyDeltas(stored, missed);
+    } else {
+      console.warn('[Books] Deltas during snapshot for', assetId.slice(0, 10) + '...', 'cannot be matched - resyncing');
+      this.scheduleResync(stored);
+    }
+
+    // Only verify deltas if our hashing reproduces the snapshot's own hash
+    if (stored.validation === 'unknown') {
+      const hash = summary.hash
+        ? await hashSummary({ ...summary }).catch(error => {
+          console.warn('[Books] Hashing failed:', error);
+          return null;
+        })
+        : null;
+      stored.validation = hash !== null && hash === summary.hash ? 'verified' : 'unsupported';
+      console.log('[Books]', assetId.slice(0, 10) + '...', 'hash validation', stored.validation);
+    }
+  }
+
+  private applyDeltas(stored: StoredBook, deltas: BookDelta[]) {
+    if (deltas.length === 0) return;
+    deltas.forEach(delta => delta.changes.forEach(change => {
+      const levels = change.side === 'BUY' ? stored.bids : stored.asks;
+      const key = priceKey(change.price);
+      if (Number(change.size) > 0) {
+        levels.set(key, { price: change.price, size: change.size });
+      } else {
+        levels.delete(key);
+      }
+    }));
+
+    const { timestamp, hash } = deltas[deltas.length - 1];
+    this.update(stored, { timestamp, hash });
+    if (hash && stored.validation === 'verified') {
+      this.verify(stored, hash).catch(error => console.warn('[Books] Hash check failed:', error));
+    }
+  }
+
+  // Rebuild the summary in the snapshot's field and level order and compare hashes
+  private async verify(stored: StoredBook, expected: string) {
+    const { state } = stored;
+    const order = (levels: OrderBookLevel[]) => (stored.bestLast ? [...levels].reverse() : levels);
+    const fields: Record<string, unknown> = {
+      market: state.market,
+      asset_id: state.assetId,
+      timestamp: state.timestamp,
+      bids: order(state.bids),
+      asks: order(state.asks),
+      min_order_size: state.minOrderSize,
+      tick_size: state.tickSize,
+      neg_risk: state.negRisk,
+      last_trade_price: state.lastTradePrice,
+      hash: '',
+    };
+    const summary = Object.fromEntries(stored.keyOrder.map(key => [key, fields[key]]));
+    const generation = stored.generation;
+
+    const actual = await hashSummary(summary);
+    if (actual === null) {
+      stored.validation = 'unsupported';
+      return;
+    }
+    if (actual === expected || stored.generation !== generation || stored.state.hash !== expected) return;
+
+    console.warn('[Books] Hash mismatch for', state.assetId.slice(0, 10) + '...', '- resyncing');
+    this.scheduleResync(stored);
+  }
+
+  // Resync at most once per MIN_RESYNC_INTERVAL_MS per asset
+  private scheduleResync(stored: StoredBook) {
+    if (stored.resyncTimer) return;
+    const wait = Math.max(0, stored.lastResync + MIN_RESYNC_INTERVAL_MS - Date.now());
+    stored.resyncTimer = setTimeout(() => {
+      stored.resyncTimer = null;
+      this.requestSnapshot(stored.state.assetId);
+    }, wait);
+  }
+
+  private update(stored: StoredBook, changes: Partial<BookState>) {
+    stored.state = {
+      ...stored.state,
+      ...changes,
+      bids: sortLevels(stored.bids, 'bids'),
+      asks: sortLevels(stored.asks, 'asks'),
+    };
+    this.listeners.get(stored.state.assetId)?.forEach(listener => listener(stored.state));
+  }
+}
+
+// Singleton instance
+export const orderBookStore = new OrderBookStore();
@@ -0,0 +1,32 @@
+// GTD order expiry helpers
+// The CLOB applies a one minute security threshold to GTD orders: an order
+// with expiration E (unix seconds) stops matching at E - 60s. The UI works in
+// terms of the moment the order actually expires and converts at the edges.
+
+export const GTD_SECURITY_THRESHOLD_SECONDS = 60;
+
+// Orders this close to expiry are flagged in OrdersView
+export const EXPIRY_WARNING_MS = 15 * 60 * 1000;
+
+// UserOrder.expiration value for an order that should expire at `expiresAt` (ms)
+export function toGtdExpiration(expiresAt: number): number {
+  return Math.floor(expiresAt / 1000) + GTD_SECURITY_THRESHOLD_SECONDS;
+}
+
+// When an order's expiration field takes effect (ms), or null for orders that never expire
+export function getExpiresAt(expiration: string | number | undefined): number | null {
+  const seconds = Number(expiration || 0);
+  return seconds > 0 ? (seconds - GTD_SECURITY_THRESHOLD_SECONDS) * 1000 : null;
+}
+
+// Short countdown label, e.g. "45s", "12m", "3h 5m", "2d 4h"
+export function formatTimeLeft(ms: number): string {
+  if (ms <= 0) return 'expired';
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
@@ -0,0 +1,805 @@
+// Paper trading CLOB
+// In-memory matching engine that stands in for ClobClient when the app is in
+// paper mode. Implements the subset of ClobClient that TradingContext uses and
+// emits book / price_change / last_trade_price events in the same shapes as
+// the market channel (see websocket.ts), so the UI can't tell the difference.
+//
+// Each token gets its own price-time priority book, seeded once from the live
+// CLOB snapshot (or a synthetic ladder when offline). Seeded liquidity is
+// consumed by fills and is not replenished.
+//
+// The paper account (virtual USDC balance, positions and fills) is persisted
+// to localStorage. Books and resting orders are not, so open paper orders are
+// dropped on reload.
+
+import type { ClobClient, CreateOrderOptions, OpenOrder, OrderBookSummary, OrderType, UserMarketOrder, UserOrder } from '@polymarket/clob-client';
+import type { BookMessage, LastTradePriceMessage, OrderBookLevel, PriceChangeMessage, WebSocketMessage } from './websocket';
+import { ENDPOINTS } from '../config';
+import { getExpiresAt } from './orderExpiry';
+import { isMultipleOfTick, tickDecimals } from '../utils/tick';
+
+// The part of ClobClient the trading context depends on
+export type ClobClientLike = Pick<
+  ClobClient,
+  'createAndPostOrder' | 'createAndPostMarketOrder' | 'getOpenOrders' | 'cancelOrder' | 'cancelAll' | 'getOrderBook'
+>;
+
+type OrderSide = 'BUY' | 'SELL';
+
+interface RestingOrder {
+  id: string;
+  owner: 'paper' | 'seed';
+  side: OrderSide;
+  price: number;
+  size: number;
+  originalSize: number;
+  createdAt: number;
+  orderType: string;
+  expiration: number;
+}
+
+interface PaperBook {
+  assetId: string;
+  market: string;
+  tickSize: string;
+  negRisk: boolean;
+  minOrderSize: string;
+  // Best price first, then oldest first
+  bids: RestingOrder[];
+  asks: RestingOrder[];
+  lastTradePrice: number;
+}
+
+export interface PaperFill {
+  orderId: string;
+  assetId: string;
+  market: string;
+  side: OrderSide;
+  price: number;
+  size: number;
+  timestamp: number;
+}
+
+// Display info for a token, registered when an order is placed
+export interface PaperAssetInfo {
+  title: string;
+  outcome: string;
+  image?: string;
+}
+
+export interface PaperPosition extends PaperAssetInfo {
+  assetId: string;
+  market: string;
+  size: number;
+  avgPrice: number;
+  currentPrice: number;
+  realizedPnl: number;
+  pnl: number;
+  negRisk: boolean;
+  // Set once the market resolves; a resolved position can only be redeemed
+  resolved: boolean;
+  won: boolean;
+}
+
+interface PaperAccount {
+  balance: number;
+  positions: Record<string, { market: string; size: number; avgPrice: number; realizedPnl: number }>;
+  assets: Record<string, PaperAssetInfo>;
+  fills: PaperFill[];
+  // Condition ID -> winning token ID for resolved markets
+  resolutions: Record<string, string>;
+}
+
+type MessageHandler = (message: WebSocketMessage) => void;
+type AccountHandler = () => void;
+
+const SIZE_DECIMALS = 2;
+const EPSILON = 1e-9;
+
+const ACCOUNT_STORAGE_KEY = 'POLY_PAPER_ACCOUNT';
+export const PAPER_STARTING_BALANCE = 1000;
+const MAX_STORED_FILLS = 200;
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+function emptyAccount(): PaperAccount {
+  return { balance: PAPER_STARTING_BALANCE, positions: {}, assets: {}, fills: [], resolutions: {} };
+}
+
+function loadAccount(): PaperAccount {
+  try {
+    const stored = localStorage.getItem(ACCOUNT_STORAGE_KEY);
+    if (stored) return { ...emptyAccount(), ...JSON.parse(stored) };
+  } catch {}
+  return emptyAccount();
+}
+
+function round(value: number, decimals: number): number {
+  return Number(value.toFixed(decimals));
+}
+
+// Fallback ladder around 50¢ when the live book can't be fetched
+function syntheticLevels(side: OrderSide): OrderBookLevel[] {
+  return Array.from({ length: 10 }, (_, i) => ({
+    price: (side === 'BUY' ? 0.49 - i * 0.01 : 0.51 + i * 0.01).toFixed(2),
+    size: String(200 + i * 50),
+  }));
+}
+
+export class PaperClob implements ClobClientLike {
+  private books: Map<string, PaperBook> = new Map();
+  private seeding: Map<string, Promise<PaperBook>> = new Map();
+  private userOrders: Map<string, RestingOrder & { assetId: string; status: string; matched: number }> = new Map();
+  private account: PaperAccount = loadAccount();
+  private messageHandlers: Set<MessageHandler> = new Set();
+  private accountHandlers: Set<AccountHandler> = new Set();
+  private orderSeq = 0;
+
+  // Register a market-channel style message handler
+  onMessage(handler: MessageHandler): () => void {
+    this.messageHandlers.add(handler);
+    return () => this.messageHandlers.delete(handler);
+  }
+
+  // Whether this engine owns the book for a token (live feed should be ignored for it)
+  hasBook(assetId: string): boolean {
+    return this.books.has(assetId);
+  }
+
+  // Register a handler for balance, position and fill changes
+  onAccountChange(handler: AccountHandler): () => void {
+    this.accountHandlers.add(handler);
+    return () => this.accountHandlers.delete(handler);
+  }
+
+  // Virtual USDC balance (open buy orders are not deducted until filled)
+  getBalance(): number {
+    return this.account.balance;
+  }
+
+  // Paper fills, newest first
+  getFills(): PaperFill[] {
+    return [...this.account.fills].reverse();
+  }
+
+  // Open positions marked to the paper book's mid (or last trade when one side is empty).
+  // Resolved positions are marked at their payout: $1 for the winner, $0 otherwise.
+  getPositions(): PaperPosition[] {
+    return Object.entries(this.account.positions)
+      .filter(([, position]) => position.size > EPSILON)
+      .map(([assetId, position]) => {
+        const winner = position.market ? this.account.resolutions[position.market] : undefined;
+        const resolved = winner !== undefined;
+        const currentPrice = resolved
+          ? (winner === assetId ? 1 : 0)
+          : this.markPrice(assetId) ?? position.avgPrice;
+        const info = this.account.assets[assetId];
+        return {
+          assetId,
+          market: position.market,
+          title: info?.title || assetId,
+          outcome: info?.outcome || '',
+          image: info?.image,
+          size: position.size,
+          avgPrice: position.avgPrice,
+          currentPrice,
+          realizedPnl: position.realizedPnl,
+          pnl: (currentPrice - position.avgPrice) * position.size,
+          negRisk: this.books.get(assetId)?.negRisk ?? false,
+          resolved,
+          won: resolved && winner === assetId,
+        };
+      });
+  }
+
+  // Realized P&L across all positions, including closed ones
+  getRealizedPnl(): number {
+    return Object.values(this.account.positions).reduce((sum, p) => sum + p.realizedPnl, 0);
+  }
+
+  setAssetInfo(assetId: string, info: PaperAssetInfo) {
+    this.account.assets[assetId] = info;
+    this.saveAccount();
+  }
+
+  // Record a market resolution (from the market channel's market_resolved event).
+  // Only markets the paper account holds are kept.
+  resolveMarket(market: string, winningAssetId: string) {
+    if (this.account.resolutions[market] === winningAssetId) return;
+    const held = Object.values(this.account.positions).some(p => p.market === market && p.size > EPSILON);
+    if (!held) return;
+
+    this.account.resolutions[market] = winningAssetId;
+    console.log('[Paper] Market resolved', market, 'winner', winningAssetId);
+    this.saveAccount();
+    this.notifyAccount();
+  }
+
+  // Redeem every position in a resolved market: winning shares pay $1, losing shares $0
+  redeem(market: string): number {
+    const winner = this.account.resolutions[market];
+    if (winner === undefined) {
+      throw new Error('Market has not resolved yet');
+    }
+
+    let payout = 0;
+    Object.entries(this.account.positions).forEach(([assetId, position]) => {
+      if (position.market !== market || position.size <= EPSILON) return;
+      const price = assetId === winner ? 1 : 0;
+      payout += price * position.size;
+      position.realizedPnl += (price - position.avgPrice) * position.size;
+      position.size = 0;
+    });
+
+    this.account.balance = round(this.account.balance + payout, 6);
+    delete this.account.resolutions[market];
+    console.log('[Paper] Redeemed', market, 'for $' + payout.toFixed(2));
+    this.saveAccount();
+    this.notifyAccount();
+    return payout;
+  }
+
+  // Drop all books and orders and restore the starting balance
+  reset() {
+    this.books.clear();
+    this.seeding.clear();
+    this.userOrders.clear();
+    this.account = emptyAccount();
+    this.saveAccount();
+    this.notifyAccount();
+  }
+
+  async getOrderBook(tokenID: string): Promise<OrderBookSummary> {
+    const book = await this.ensureBook(tokenID);
+    return this.toSummary(book);
+  }
+
+  async createAndPostOrder<T extends OrderType.GTC | OrderType.GTD = OrderType.GTC>(
+    userOrder: UserOrder,
+    options?: Partial<CreateOrderOptions>,
+    orderType?: T,
+    _deferExec = false,
+    postOnly = false,
+  ): Promise<any> {
+    const book = await this.ensureBook(userOrder.tokenID);
+    const tickSize = options?.tickSize || book.tickSize;
+    const tick = Number(tickSize);
+    const price = round(userOrder.price, tickDecimals(tickSize));
+    const size = round(userOrder.size, SIZE_DECIMALS);
+
+    if (price < tick || price > 1 - tick || !isMultipleOfTick(userOrder.price, tickSize)) {
+      return { error: `invalid price (${userOrder.price}), min: ${tick} - max: ${1 - tick}`, status: 400 };
+    }
+    if (size <= 0) {
+      return { error: 'invalid order size', status: 400 };
+    }
+
+    // GTD orders must expire in the future once the security threshold is taken off
+    const expiresAt = orderType === 'GTD' ? getExpiresAt(userOrder.expiration) : null;
+    if (orderType === 'GTD' && (expiresAt === null || expiresAt <= Date.now())) {
+      return { error: 'invalid expiration value, GTD orders must expire at least 1 minute in the future', status: 400 };
+    }
+
+    const side = userOrder.side as OrderSide;
+    const opposite = side === 'BUY' ? book.asks[0] : book.bids[0];
+    if (postOnly && opposite && (side === 'BUY' ? price >= opposite.price : price <= opposite.price)) {
+      return { error: 'invalid post-only order: order crosses book', status: 400 };
+    }
+
+    const available = side === 'BUY' ? this.availableBalance() : this.availableShares(book.assetId);
+    const required = side === 'BUY' ? price * size : size;
+    if (required > available + EPSILON) {
+      return { error: `not enough balance / allowance (paper: ${available.toFixed(2)} available)`, status: 400 };
+    }
+
+    const order: RestingOrder = {
+      id: this.nextOrderId(),
+      owner: 'paper',
+      side,
+      price,
+      size,
+      originalSize: size,
+      createdAt: Date.now(),
+      orderType: orderType || 'GTC',
+      expiration: userOrder.expiration || 0,
+    };
+
+    const fills = this.match(book, order);
+    const tracked = { ...order, assetId: book.assetId, status: 'LIVE', matched: round(size - order.size, SIZE_DECIMALS) };
+    this.userOrders.set(order.id, tracked);
+
+    if (order.size > EPSILON) {
+      this.insert(book, order);
+      if (expiresAt !== null) this.scheduleExpiry(order.id, expiresAt);
+    } else {
+      tracked.status = 'MATCHED';
+    }
+
+    this.emitChanges(book, fills, order.size > EPSILON ? [order] : []);
+    if (fills.length > 0) this.notifyAccount();
+
+    console.log('[Paper] Order', order.id, order.side, size, '@', price, '-', fills.length, 'fills');
+
+    return {
+      success: true,
+      errorMsg: '',
+      orderID: order.id,
+      status: tracked.status === 'MATCHED' ? 'matched' : 'live',
+      makingAmount: '',
+      takingAmount: '',
+    };
+  }
+
+  // FOK must fill completely or is rejected; FAK fills what it can and cancels the rest.
+  // Neither type ever rests on the book.
+  async createAndPostMarketOrder<T extends OrderType.FOK | OrderType.FAK = OrderType.FOK>(
+    userMarketOrder: UserMarketOrder,
+    _options?: Partial<CreateOrderOptions>,
+    orderType?: T,
+  ): Promise<any> {
+    const book = await this.ensureBook(userMarketOrder.tokenID);
+    const side = userMarketOrder.side as OrderSide;
+    const type = orderType || 'FOK';
+    const amount = userMarketOrder.amount;
+
+    if (!(amount > 0)) {
+      return { error: 'invalid order amount', status: 400 };
+    }
+
+    const available = side === 'BUY' ? this.availableBalance() : this.availableShares(book.assetId);
+    if (amount > available + EPSILON) {
+      return { error: `not enough balance / allowance (paper: ${available.toFixed(2)} available)`, status: 400 };
+    }
+
+    // Worst acceptable price - without one the order sweeps the whole book
+    const limit = userMarketOrder.price ?? (side === 'BUY' ? 1 : 0);
+    const { shares, complete } = this.sharesForAmount(book, side, amount, limit);
+
+    if (type === 'FOK' && !complete) {
+      return { error: "order couldn't be fully filled. FOK orders are fully filled or killed.", status: 400 };
+    }
+    if (shares <= EPSILON) {
+      return { error: 'no orders found to match with FAK order. FAK orders are partially filled or killed if no match is found.', status: 400 };
+    }
+
+    const order: RestingOrder = {
+      id: this.nextOrderId(),
+      owner: 'paper',
+      side,
+      price: limit,
+      size: shares,
+      originalSize: shares,
+      createdAt: Date.now(),
+      orderType: type,
+      expiration: 0,
+    };
+
+    const fills = this.match(book, order);
+    this.emitChanges(book, fills, []);
+    this.notifyAccount();
+
+    const filledShares = round(shares - order.size, SIZE_DECIMALS);
+    const notional = fills.reduce((sum, fill) => sum + fill.price * fill.size, 0);
+    console.log('[Paper] Market order', order.id, type, side, amount, '-', filledShares, 'shares in', fills.length, 'fills');
+
+    return {
+      success: true,
+      errorMsg: '',
+      orderID: order.id,
+      status: 'matched',
+      makingAmount: String(side === 'BUY' ? round(notional, 6) : filledShares),
+      takingAmount: String(side === 'BUY' ? filledShares : round(notional, 6)),
+    };
+  }
+
+  async getOpenOrders(): Promise<OpenOrder[]> {
+    return [...this.userOrders.values()]
+      .filter(o => o.status === 'LIVE')
+      .map(o => {
+        const book = this.books.get(o.assetId);
+        return {
+          id: o.id,
+          status: o.status,
+          owner: 'paper',
+          maker_address: 'paper',
+          market: book?.market || '',
+          asset_id: o.assetId,
+          side: o.side,
+          original_size: String(o.originalSize),
+          size_matched: String(o.matched),
+          price: String(o.price),
+          associate_trades: [],
+          outcome: '',
+          created_at: Math.floor(o.createdAt / 1000),
+          expiration: String(o.expiration),
+          order_type: o.orderType,
+        };
+      });
+  }
+
+  async cancelOrder(payload: { orderID: string }): Promise<any> {
+    const order = this.userOrders.get(payload.orderID);
+    if (!order || order.status !== 'LIVE') {
+      return { canceled: [], not_canceled: { [payload.orderID]: 'order not found' } };
+    }
+
+    this.removeResting(order.assetId, order.id);
+    order.status = 'CANCELED';
+    return { canceled: [order.id], not_canceled: {} };
+  }
+
+  async cancelAll(): Promise<any> {
+    const canceled: string[] = [];
+    for (const order of this.userOrders.values()) {
+      if (order.status === 'LIVE') {
+        this.removeResting(order.assetId, order.id);
+        order.status = 'CANCELED';
+        canceled.push(order.id);
+      }
+    }
+    return { canceled, not_canceled: {} };
+  }
+
+  // Private methods
+  // Balance not already committed to resting buy orders
+  private availableBalance(): number {
+    let reserved = 0;
+    for (const order of this.userOrders.values()) {
+      if (order.status === 'LIVE' && order.side === 'BUY') {
+        reserved += order.price * (order.originalSize - order.matched);
+      }
+    }
+    return this.account.balance - reserved;
+  }
+
+  // Shares held that are not already committed to resting sell orders
+  private availableShares(assetId: string): number {
+    let reserved = 0;
+    for (const order of this.userOrders.values()) {
+      if (order.status === 'LIVE' && order.side === 'SELL' && order.assetId === assetId) {
+        reserved += order.originalSize - order.matched;
+      }
+    }
+    return (this.account.positions[assetId]?.size ?? 0) - reserved;
+  }
+
+  // Convert a market order amount (USDC for BUY, shares for SELL) into the
+  // share count resting liquidity can fill at or better than the limit
+  private sharesForAmount(book: PaperBook, side: OrderSide, amount: number, limit: number) {
+    const opposite = side === 'BUY' ? book.asks : book.bids;
+    let remaining = amount;
+    let shares = 0;
+
+    for (const resting of opposite) {
+      if (remaining <= EPSILON) break;
+      if (side === 'BUY' ? resting.price > limit + EPSILON : resting.price < limit - EPSILON) break;
+
+      const take = side === 'BUY' ? Math.min(resting.size, remaining / resting.price) : Math.min(resting.size, remaining);
+      shares += take;
+      remaining -= side === 'BUY' ? take * resting.price : take;
+    }
+
+    // Round down so a BUY never spends more than the amount
+    return { shares: Math.floor(shares * 10 ** SIZE_DECIMALS + EPSILON) / 10 ** SIZE_DECIMALS, complete: remaining <= EPSILON };
+  }
+
+  private markPrice(assetId: string): number | null {
+    const book = this.books.get(assetId);
+    if (!book) return null;
+    const bid = book.bids[0]?.price;
+    const ask = book.asks[0]?.price;
+    if (bid !== undefined && ask !== undefined) return (bid + ask) / 2;
+    return book.lastTradePrice || bid || ask || null;
+  }
+
+  // Apply a fill of the user's own order to balance and position
+  private applyFill(fill: PaperFill) {
+    const position = this.account.positions[fill.assetId] ??= { market: fill.market, size: 0, avgPrice: 0, realizedPnl: 0 };
+    const notional = fill.price * fill.size;
+
+    if (fill.side === 'BUY') {
+      this.account.balance -= notional;
+      position.avgPrice = (position.avgPrice * position.size + notional) / (position.size + fill.size);
+      position.size = round(position.size + fill.size, SIZE_DECIMALS);
+    } else {
+      this.account.balance += notional;
+      position.realizedPnl += (fill.price - position.avgPrice) * fill.size;
+      position.size = round(position.size - fill.size, SIZE_DECIMALS);
+    }
+
+    this.account.balance = round(this.account.balance, 6);
+    this.account.fills.push(fill);
+    if (this.account.fills.length > MAX_STORED_FILLS) {
+      this.account.fills.splice(0, this.account.fills.length - MAX_STORED_FILLS);
+    }
+    this.saveAccount();
+  }
+
+  private saveAccount() {
+    try {
+      localStorage.setItem(ACCOUNT_STORAGE_KEY, JSON.stringify(this.account));
+    } catch (error) {
+      console.warn('[Paper] Failed to persist paper account:', error);
+    }
+  }
+
+  // setTimeout fires immediately past ~24.8 days, so long expiries re-arm in steps
+  private scheduleExpiry(orderId: string, expiresAt: number) {
+    const delay = Math.min(expiresAt - Date.now(), MAX_TIMER_MS);
+    setTimeout(() => {
+      if (Date.now() >= expiresAt) {
+        this.expireOrder(orderId);
+      } else {
+        this.scheduleExpiry(orderId, expiresAt);
+      }
+    }, Math.max(0, delay));
+  }
+
+  // Pull a GTD order off the book once its expiry passes
+  private expireOrder(orderId: string) {
+    const order = this.userOrders.get(orderId);
+    if (!order || order.status !== 'LIVE') return;
+
+    this.removeResting(order.assetId, order.id);
+    order.status = 'EXPIRED';
+    console.log('[Paper] Order expired', order.id);
+    this.notifyAccount();
+  }
+
+  private notifyAccount() {
+    this.accountHandlers.forEach(handler => handler());
+  }
+
+  private nextOrderId(): string {
+    this.orderSeq++;
+    return `paper-${Date.now().toString(36)}-${this.orderSeq}`;
+  }
+
+  private ensureBook(assetId: string): Promise<PaperBook> {
+    const existing = this.books.get(assetId);
+    if (existing) return Promise.resolve(existing);
+
+    let pending = this.seeding.get(assetId);
+    if (!pending) {
+      pending = this.seedBook(assetId).finally(() => this.seeding.delete(assetId));
+      this.seeding.set(assetId, pending);
+    }
+    return pending;
+  }
+
+  // Seed a book from the live CLOB snapshot, falling back to a synthetic ladder
+  private async seedBook(assetId: string): Promise<PaperBook> {
+    let snapshot: Partial<OrderBookSummary> = {};
+    try {
+      const response = await fetch(`${ENDPOINTS.clob}/book?token_id=${assetId}`);
+      if (response.ok) {
+        snapshot = await response.json();
+      }
+    } catch (error) {
+      console.warn('[Paper] Could not fetch live book, using synthetic liquidity:', error);
+    }
+
+    const hasLiquidity = !!(snapshot.bids?.length || snapshot.asks?.length);
+    const now = Date.now();
+    const toSeed = (side: OrderSide) => (level: OrderBookLevel, i: number): RestingOrder => ({
+      id: `seed-${assetId.slice(-6)}-${side}-${i}`,
+      owner: 'seed',
+      side,
+      price: Number(level.price),
+      size: Number(level.size),
+      originalSize: Number(level.size),
+      createdAt: now,
+      orderType: 'GTC',
+      expiration: 0,
+    });
+
+    const book: PaperBook = {
+      assetId,
+      market: snapshot.market || '',
+      tickSize: snapshot.tick_size || '0.01',
+      negRisk: snapshot.neg_risk ?? false,
+      minOrderSize: snapshot.min_order_size || '1',
+      bids: (hasLiquidity ? snapshot.bids! : syntheticLevels('BUY')).map(toSeed('BUY')),
+      asks: (hasLiquidity ? snapshot.asks! : syntheticLevels('SELL')).map(toSeed('SELL')),
+      lastTradePrice: Number(snapshot.last_trade_price || 0),
+    };
+    book.bids.sort((a, b) => b.price - a.price);
+    book.asks.sort((a, b) => a.price - b.price);
+
+    // Another caller may have seeded it while we were fetching
+    const existing = this.books.get(assetId);
+    if (existing) return existing;
+
+    this.books.set(assetId, book);
+    console.log('[Paper] Seeded book', assetId.slice(0, 10) + '...', book.bids.length, 'bids,', book.asks.length, 'asks');
+    this.emit(this.toBookMessage(book));
+    return book;
+  }
+
+  // Match an incoming order against the opposite side, mutating both
+  private match(book: PaperBook, order: RestingOrder): PaperFill[] {
+    const opposite = order.side === 'BUY' ? book.asks : book.bids;
+    const crosses = (resting: RestingOrder) =>
+      order.side === 'BUY' ? resting.price <= order.price + EPSILON : resting.price >= order.price - EPSILON;
+
+    const fills: PaperFill[] = [];
+    while (order.size > EPSILON && opposite.length > 0 && crosses(opposite[0])) {
+      const resting = opposite[0];
+      const size = round(Math.min(order.size, resting.size), SIZE_DECIMALS);
+
+      order.size = round(order.size - size, SIZE_DECIMALS);
+      resting.size = round(resting.size - size, SIZE_DECIMALS);
+      if (resting.size <= EPSILON) {
+        opposite.shift();
+      }
+
+      // Executes at the resting order's price
+      const fill: PaperFill = {
+        orderId: order.id,
+        assetId: book.assetId,
+        market: book.market,
+        side: order.side,
+        price: resting.price,
+        size,
+        timestamp: Date.now(),
+      };
+      fills.push(fill);
+      book.lastTradePrice = resting.price;
+
+      if (order.owner === 'paper') this.applyFill(fill);
+      this.recordMakerFill(resting, size);
+    }
+    return fills;
+  }
+
+  // Track fills on the user's own resting orders
+  private recordMakerFill(resting: RestingOrder, size: number) {
+    if (resting.owner !== 'paper') return;
+    const tracked = this.userOrders.get(resting.id);
+    if (!tracked) return;
+
+    tracked.matched = round(tracked.matched + size, SIZE_DECIMALS);
+    if (resting.size <= EPSILON) tracked.status = 'MATCHED';
+
+    this.applyFill({
+      orderId: resting.id,
+      assetId: tracked.assetId,
+      market: this.books.get(tracked.assetId)?.market || '',
+      side: resting.side,
+      price: resting.price,
+      size,
+      timestamp: Date.now(),
+    });
+  }
+
+  // Insert keeping price-time priority (after all orders at the same price)
+  private insert(book: PaperBook, order: RestingOrder) {
+    const levels = order.side === 'BUY' ? book.bids : book.asks;
+    const better = (other: RestingOrder) =>
+      order.side === 'BUY' ? other.price >= order.price - EPSILON : other.price <= order.price + EPSILON;
+
+    let index = 0;
+    while (index < levels.length && better(levels[index])) index++;
+    levels.splice(index, 0, order);
+  }
+
+  private removeResting(assetId: string, orderId: string) {
+    const book = this.books.get(assetId);
+    if (!book) return;
+
+    for (const levels of [book.bids, book.asks]) {
+      const index = levels.findIndex(o => o.id === orderId);
+      if (index >= 0) {
+        const [removed] = levels.splice(index, 1);
+        this.emitChanges(book, [], [removed]);
+        return;
+      }
+    }
+  }
+
+  private aggregate(orders: RestingOrder[], decimals: number): OrderBookLevel[] {
+    const levels: OrderBookLevel[] = [];
+    for (const order of orders) {
+      const price = order.price.toFixed(decimals);
+      const last = levels[levels.length - 1];
+      if (last && last.price === price) {
+        last.size = String(round(Number(last.size) + order.size, SIZE_DECIMALS));
+      } else {
+        levels.push({ price, size: String(round(order.size, SIZE_DECIMALS)) });
+      }
+    }
+    return levels;
+  }
+
+  private levelSize(book: PaperBook, side: OrderSide, price: number): number {
+    const orders = side === 'BUY' ? book.bids : book.asks;
+    return round(
+      orders.filter(o => Math.abs(o.price - price) < EPSILON).reduce((sum, o) => sum + o.size, 0),
+      SIZE_DECIMALS
+    );
+  }
+
+  private toSummary(book: PaperBook): OrderBookSummary {
+    const decimals = tickDecimals(book.tickSize);
+    return {
+      market: book.market,
+      asset_id: book.assetId,
+      timestamp: String(Date.now()),
+      bids: this.aggregate(book.bids, decimals),
+      asks: this.aggregate(book.asks, decimals),
+      min_order_size: book.minOrderSize,
+      tick_size: book.tickSize,
+      neg_risk: book.negRisk,
+      last_trade_price: String(book.lastTradePrice),
+      hash: '',
+    };
+  }
+
+  private toBookMessage(book: PaperBook): BookMessage {
+    const summary = this.toSummary(book);
+    return {
+      event_type: 'book',
+      asset_id: summary.asset_id,
+      market: summary.market,
+      bids: summary.bids,
+      asks: summary.asks,
+      timestamp: summary.timestamp,
+      hash: summary.hash,
+    };
+  }
+
+  // Emit price_change for every touched level plus one last_trade_price per fill
+  private emitChanges(book: PaperBook, fills: PaperFill[], orders: RestingOrder[]) {
+    const timestamp = String(Date.now());
+    const decimals = tickDecimals(book.tickSize);
+    const touched = new Map<string, { side: OrderSide; price: number }>();
+
+    for (const order of orders) {
+      touched.set(`${order.side}:${order.price}`, { side: order.side, price: order.price });
+    }
+    for (const fill of fills) {
+      const makerSide: OrderSide = fill.side === 'BUY' ? 'SELL' : 'BUY';
+      touched.set(`${makerSide}:${fill.price}`, { side: makerSide, price: fill.price });
+    }
+
+    if (touched.size > 0) {
+      const bestBid = book.bids[0]?.price.toFixed(decimals) ?? '0';
+      const bestAsk = book.asks[0]?.price.toFixed(decimals) ?? '1';
+      const message: PriceChangeMessage = {
+        event_type: 'price_change',
+        market: book.market,
+        price_changes: [...touched.values()].map(({ side, price }) => ({
+          asset_id: book.assetId,
+          price: price.toFixed(decimals),
+          size: String(this.levelSize(book, side, price)),
+          side,
+          hash: '',
+          best_bid: bestBid,
+          best_ask: bestAsk,
+        })),
+        timestamp,
+      };
+      this.emit(message);
+    }
+
+    for (const fill of fills) {
+      const message: LastTradePriceMessage = {
+        event_type: 'last_trade_price',
+        asset_id: book.assetId,
+        market: book.market,
+        price: fill.price.toFixed(decimals),
+        side: fill.side,
+        size: String(fill.size),
+        fee_rate_bps: '0',
+        timestamp,
+      };
+      this.emit(message);
+    }
+  }
+
+  private emit(message: WebSocketMessage) {
+    this.messageHandlers.forEach(handler => handler(message));
+  }
+}
+
+// Singleton instance
+export const paperClob = new PaperClob();
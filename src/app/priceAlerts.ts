@@ -0,0 +1,151 @@
+// Price alerts
+// An alert watches one outcome token of a market and fires once when its
+// condition is met, then stays off until it is re-enabled. AlertsContext
+// keeps a quote per watched token from the market channel (book snapshots,
+// price_change, last_trade_price and best_bid_ask) and checks the alerts on
+// every update.
+
+import type { WebSocketMessage } from './websocket';
+
+export type AlertKind = 'price' | 'spread' | 'change';
+
+export interface PriceAlert {
+  id: string;
+  marketId: string;
+  conditionId: string;
+  question: string;
+  outcome: string;
+  outcomeIndex: number;
+  tokenId: string;
+  kind: AlertKind;
+  // Price and spread in dollars (0-1); change in price points (0.10 = 10%)
+  threshold: number;
+  // Price alerts fire when the price rises to (above) or falls to (below) the threshold
+  direction: 'above' | 'below';
+  // Change alerts: the token's price 24h ago, refreshed from Gamma
+  referencePrice: number | null;
+  enabled: boolean;
+  snoozedUntil: number | null;
+  triggeredAt: number | null;
+  createdAt: number;
+}
+
+// Fields chosen when creating or editing an alert
+export type AlertDraft = Pick<
+  PriceAlert,
+  'marketId' | 'conditionId' | 'question' | 'outcome' | 'outcomeIndex' | 'tokenId' | 'kind' | 'threshold' | 'direction' | 'referencePrice'
+>;
+
+export interface AssetQuote {
+  bid: number | null;
+  ask: number | null;
+  last: number | null;
+}
+
+// Above this spread the displayed price is the last trade rather than the midpoint
+const MIDPOINT_MAX_SPREAD = 0.1;
+
+// Tolerance for float error in prices like 0.52 - 0.50
+const EPSILON = 1e-6;
+
+export const SNOOZE_OPTIONS: Array<{ label: string; ms: number }> = [
+  { label: '15 min', ms: 15 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+];
+
+export function quoteSpread(quote: AssetQuote): number | null {
+  return quote.bid !== null && quote.ask !== null ? quote.ask - quote.bid : null;
+}
+
+// The price polymarket.com shows: the midpoint, or the last trade when the book is wide
+export function quotePrice(quote: AssetQuote): number | null {
+  const spread = quoteSpread(quote);
+  if (spread !== null && spread <= MIDPOINT_MAX_SPREAD + EPSILON) {
+    return (quote.bid! + quote.ask!) / 2;
+  }
+  return quote.last ?? (spread !== null ? (quote.bid! + quote.ask!) / 2 : null);
+}
+
+const bestLevel = (levels: Array<{ price: string }>, pick: (...values: number[]) => number) =>
+  levels.length > 0 ? pick(...levels.map(level => Number(level.price))) : null;
+
+// Update `quotes` for the watched assets in a market channel message.
+// Returns the asset IDs whose quote changed.
+export function applyQuoteMessage(quotes: Map<string, AssetQuote>, msg: WebSocketMessage): string[] {
+  const updated: string[] = [];
+  const update = (assetId: string, changes: Partial<AssetQuote>) => {
+    const quote = quotes.get(assetId);
+    if (!quote) return;
+    quotes.set(assetId, { ...quote, ...changes });
+    if (!updated.includes(assetId)) updated.push(assetId);
+  };
+
+  if (msg.event_type === 'book') {
+    update(msg.asset_id, { bid: bestLevel(msg.bids, Math.max), ask: bestLevel(msg.asks, Math.min) });
+  } else if (msg.event_type === 'price_change') {
+    msg.price_changes.forEach(pc => {
+      update(pc.asset_id, { bid: Number(pc.best_bid), ask: Number(pc.best_ask) });
+    });
+  } else if (msg.event_type === 'best_bid_ask') {
+    update(msg.asset_id, { bid: Number(msg.best_bid), ask: Number(msg.best_ask) });
+  } else if (msg.event_type === 'last_trade_price') {
+    update(msg.asset_id, { last: Number(msg.price) });
+  }
+  return updated;
+}
+
+// Enabled and not snoozed
+export function isAlertArmed(alert: PriceAlert, now = Date.now()): boolean {
+  return alert.enabled && !(alert.snoozedUntil !== null && alert.snoozedUntil > now);
+}
+
+// The value the alert compares against its threshold, or null while unknown
+export function alertValue(alert: PriceAlert, quote: AssetQuote): number | null {
+  switch (alert.kind) {
+    case 'price':
+      return quotePrice(quote);
+    case 'spread':
+      return quoteSpread(quote);
+    case 'change': {
+      const price = quotePrice(quote);
+      return price !== null && alert.referencePrice !== null ? price - alert.referencePrice : null;
+    }
+  }
+}
+
+export function isAlertMet(alert: PriceAlert, value: number): boolean {
+  switch (alert.kind) {
+    case 'price':
+      return alert.direction === 'above'
+        ? value >= alert.threshold - EPSILON
+        : value <= alert.threshold + EPSILON;
+    case 'spread':
+      return value < alert.threshold - EPSILON;
+    case 'change':
+      return Math.abs(value) >= alert.threshold - EPSILON;
+  }
+}
+
+const cents = (value: number) => `${Number((value * 100).toFixed(1))}¢`;
+const points = (value: number) => `${Number((value * 100).toFixed(1))}%`;
+
+// e.g. "Yes rises to 70¢", "Yes spread below 2¢", "Yes 24h change exceeds 10%"
+export function describeAlert(alert: Pick<PriceAlert, 'kind' | 'threshold' | 'direction' | 'outcome'>): string {
+  switch (alert.kind) {
+    case 'price':
+      return `${alert.outcome} ${alert.direction === 'above' ? 'rises to' : 'falls to'} ${cents(alert.threshold)}`;
+    case 'spread':
+      return `${alert.outcome} spread below ${cents(alert.threshold)}`;
+    case 'change':
+      return `${alert.outcome} 24h change exceeds ${points(alert.threshold)}`;
+  }
+}
+
+// Notification text once the alert fired at `value`
+export function alertFiredMessage(alert: PriceAlert, value: number): string {
+  const now = alert.kind === 'change'
+    ? `${value >= 0 ? '+' : ''}${points(value)}`
+    : cents(value);
+  return `${describeAlert(alert)} (now ${now})`;
+}
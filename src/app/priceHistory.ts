@@ -0,0 +1,63 @@
+// Price history
+// Loads an outcome token's price series from the CLOB prices-history endpoint
+// for the TradeModal chart and the market card sparklines.
+
+import { ENDPOINTS } from '../config';
+
+export type PriceRange = '1H' | '1D' | '1W' | '1M' | 'ALL';
+
+export interface PricePoint {
+  // ms
+  t: number;
+  p: number;
+}
+
+// `interval` is the endpoint's lookback window; `fidelity` the resolution in minutes
+export const PRICE_RANGES: Record<PriceRange, { interval: string; fidelity: number }> = {
+  '1H': { interval: '1h', fidelity: 1 },
+  '1D': { interval: '1d', fidelity: 5 },
+  '1W': { interval: '1w', fidelity: 30 },
+  '1M': { interval: '1m', fidelity: 180 },
+  ALL: { interval: 'max', fidelity: 1440 },
+};
+
+// Sparklines are a day of hourly points, cached for a few minutes across cards
+const SPARKLINE_RANGE = { interval: '1d', fidelity: 60 };
+const SPARKLINE_TTL_MS = 5 * 60 * 1000;
+
+async function fetchHistory(tokenId: string, interval: string, fidelity: number): Promise<PricePoint[]> {
+  const params = new URLSearchParams({ market: tokenId, interval, fidelity: String(fidelity) });
+  const response = await fetch(`${ENDPOINTS.clob}/prices-history?${params}`);
+  if (!response.ok) throw new Error(`Failed to load price history (${response.status})`);
+  const data = await response.json();
+  return (data?.history || [])
+    .map((point: { t: number; p: number }) => ({ t: Number(point.t) * 1000, p: Number(point.p) }))
+    .filter((point: PricePoint) => Number.isFinite(point.t) && Number.isFinite(point.p));
+}
+
+export function fetchPriceHistory(tokenId: string, range: PriceRange): Promise<PricePoint[]> {
+  const { interval, fidelity } = PRICE_RANGES[range];
+  return fetchHistory(tokenId, interval, fidelity);
+}
+
+const sparklines: Map<string, { points: Promise<PricePoint[]>; fetchedAt: number }> = new Map();
+
+export function fetchSparkline(tokenId: string): Promise<PricePoint[]> {
+  const cached = sparklines.get(tokenId);
+  if (cached && Date.now() - cached.fetchedAt < SPARKLINE_TTL_MS) return cached.points;
+
+  const points = fetchHistory(tokenId, SPARKLINE_RANGE.interval, SPARKLINE_RANGE.fidelity).catch(error => {
+    console.error('[PriceHistory] Failed to load sparkline', tokenId, error);
+    sparklines.delete(tokenId);
+    return [];
+  });
+  sparklines.set(tokenId, { points, fetchedAt: Date.now() });
+  return points;
+}
+
+// Add a live trade to a series, keeping it in time order
+export function appendPricePoint(points: PricePoint[], point: PricePoint): PricePoint[] {
+  const last = points[points.length - 1];
+  if (last && point.t < last.t) return points;
+  return [...points, point];
+}
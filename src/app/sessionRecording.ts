@@ -0,0 +1,200 @@
+// WebSocket session recording and replay
+// Captures raw market-channel frames to NDJSON and plays them back through
+// the market feed's normal dispatch, so MarketsView, TradeModal and the
+// order book store see exactly what they saw live.
+//
+// File format, one JSON object per line:
+//   {"type":"header","version":1,"source":"<ws url>","startedAt":<epoch ms>}
+//   {"t":<ms since start>,"data":<raw frame>}
+//
+// The parser and SessionReplayer don't touch the DOM, so recordings can be
+// replayed headless (pass a `deliver` function instead of the live socket).
+
+import { marketFeed } from './marketFeed';
+import { ENDPOINTS } from '../config';
+
+export interface RecordedFrame {
+  // Milliseconds since the recording started
+  t: number;
+  data: unknown;
+}
+
+export interface Recording {
+  source: string;
+  startedAt: number;
+  frames: RecordedFrame[];
+}
+
+export type ReplaySpeed = 1 | 10 | 'max';
+
+const FORMAT_VERSION = 1;
+// Frames dispatched per task at max speed, so the UI keeps painting
+const MAX_SPEED_BATCH = 200;
+
+export function serializeRecording(recording: Recording): string {
+  const header = { type: 'header', version: FORMAT_VERSION, source: recording.source, startedAt: recording.startedAt };
+  return [header, ...recording.frames].map(line => JSON.stringify(line)).join('\n') + '\n';
+}
+
+export function parseRecording(text: string): Recording {
+  const recording: Recording = { source: '', startedAt: 0, frames: [] };
+
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Recording line ${index + 1} is not valid JSON`);
+    }
+
+    if (parsed?.type === 'header') {
+      if (parsed.version !== FORMAT_VERSION) {
+        throw new Error(`Unsupported recording version ${parsed.version}`);
+      }
+      recording.source = parsed.source || '';
+      recording.startedAt = Number(parsed.startedAt) || 0;
+    } else if (typeof parsed?.t === 'number' && 'data' in parsed) {
+      recording.frames.push({ t: parsed.t, data: parsed.data });
+    } else {
+      throw new Error(`Recording line ${index + 1} is not a frame`);
+    }
+  });
+
+  recording.frames.sort((a, b) => a.t - b.t);
+  return recording;
+}
+
+export class SessionRecorder {
+  private recording: Recording | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  start() {
+    if (this.unsubscribe) return;
+    const startedAt = Date.now();
+    this.recording = { source: ENDPOINTS.ws, startedAt, frames: [] };
+    // Frames are timed by when the socket received them, which in worker mode
+    // is earlier than when their batch reaches this thread
+    this.unsubscribe = marketFeed.onRawMessage((data, receivedAt) => {
+      this.recording?.frames.push({ t: Math.max(0, receivedAt - startedAt), data });
+    });
+    console.log('[Recorder] Recording market channel');
+  }
+
+  stop(): Recording | null {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.recording) {
+      console.log('[Recorder] Stopped after', this.recording.frames.length, 'frames');
+    }
+    return this.recording;
+  }
+
+  isRecording(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  frameCount(): number {
+    return this.recording?.frames.length ?? 0;
+  }
+
+  // Save the last (or current) recording as an .ndjson download
+  download() {
+    if (!this.recording) return;
+    const blob = new Blob([serializeRecording(this.recording)], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ws-session-${new Date(this.recording.startedAt).toISOString().replace(/[:.]/g, '-')}.ndjson`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+type ProgressHandler = (played: number, total: number, done: boolean) => void;
+
+export class SessionReplayer {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private finishCurrent: (() => void) | null = null;
+  private index = 0;
+  private progressHandlers: Set<ProgressHandler> = new Set();
+  private readonly recording: Recording;
+  private readonly deliver: (data: unknown) => void;
+  // Replaying into the live socket mutes its own feed until the replay ends
+  private readonly muteLive: boolean;
+
+  // Frames go through the live socket's dispatch unless `deliver` is given
+  constructor(recording: Recording, deliver?: (data: unknown) => void) {
+    this.recording = recording;
+    this.deliver = deliver ?? ((data) => marketFeed.injectMessage(data));
+    this.muteLive = !deliver;
+  }
+
+  // Play from the start at 1x or 10x of the recorded timing, or as fast as possible
+  play(speed: ReplaySpeed): Promise<void> {
+    this.stop();
+    this.index = 0;
+    if (this.muteLive) marketFeed.setLiveMuted(true);
+
+    const frames = this.recording.frames;
+    const startedAt = Date.now();
+
+    return new Promise((resolve) => {
+      const finish = () => {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.finishCurrent = null;
+        if (this.muteLive) marketFeed.setLiveMuted(false);
+        this.notify(true);
+        resolve();
+      };
+
+      const step = () => {
+        if (speed === 'max') {
+          const end = Math.min(frames.length, this.index + MAX_SPEED_BATCH);
+          while (this.index < end) this.deliver(frames[this.index++].data);
+        } else {
+          // Deliver everything that is due, then sleep until the next frame
+          const elapsed = (Date.now() - startedAt) * speed;
+          while (this.index < frames.length && frames[this.index].t <= elapsed) {
+            this.deliver(frames[this.index++].data);
+          }
+        }
+
+        if (this.index >= frames.length) {
+          finish();
+          return;
+        }
+
+        this.notify(false);
+        const wait = speed === 'max' ? 0 : (frames[this.index].t - (Date.now() - startedAt) * speed) / speed;
+        this.timer = setTimeout(step, Math.max(0, wait));
+      };
+
+      this.finishCurrent = finish;
+      step();
+    });
+  }
+
+  // Stop a running replay (resolves its play() promise)
+  stop() {
+    this.finishCurrent?.();
+  }
+
+  isPlaying(): boolean {
+    return this.finishCurrent !== null;
+  }
+
+  onProgress(handler: ProgressHandler): () => void {
+    this.progressHandlers.add(handler);
+    return () => this.progressHandlers.delete(handler);
+  }
+
+  // Private methods
+  private notify(done: boolean) {
+    this.progressHandlers.forEach(handler => handler(this.index, this.recording.frames.length, done));
+  }
+}
+
+// Singleton instance
+export const sessionRecorder = new SessionRecorder();
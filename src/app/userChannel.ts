@@ -0,0 +1,271 @@
+// Polymarket User Channel
+// Connects to wss://ws-subscriptions-clob.polymarket.com/ws/user (see ENDPOINTS.userWs)
+// and authenticates with the L2 API credentials derived in TradingContext.
+// Delivers the user's own order lifecycle (placement, update, cancellation)
+// and trade events (matched, mined, confirmed, failed).
+
+import type { ApiKeyCreds, Trade } from '@polymarket/clob-client';
+import { ENDPOINTS } from '../config';
+
+export interface UserOrderMessage {
+  event_type: 'order';
+  type: 'PLACEMENT' | 'UPDATE' | 'CANCELLATION';
+  id: string;
+  owner: string;
+  market: string;
+  asset_id: string;
+  side: 'BUY' | 'SELL';
+  original_size: string;
+  size_matched: string;
+  price: string;
+  outcome: string;
+  order_type?: string;
+  expiration?: string;
+  status?: string;
+  associate_trades: string[] | null;
+  timestamp: string;
+}
+
+export interface UserTradeMakerOrder {
+  order_id: string;
+  owner: string;
+  asset_id: string;
+  matched_amount: string;
+  price: string;
+  outcome: string;
+  side?: 'BUY' | 'SELL';
+}
+
+export interface UserTradeMessage {
+  event_type: 'trade';
+  type: 'TRADE';
+  id: string;
+  taker_order_id: string;
+  market: string;
+  asset_id: string;
+  side: 'BUY' | 'SELL';
+  size: string;
+  price: string;
+  outcome: string;
+  status: 'MATCHED' | 'MINED' | 'CONFIRMED' | 'RETRYING' | 'FAILED';
+  // API key of the taker order's owner
+  trade_owner: string;
+  // API key of the subscriber the event was delivered to (always the user)
+  owner: string;
+  maker_orders: UserTradeMakerOrder[];
+  matchtime?: string;
+  last_update?: string;
+  timestamp: string;
+}
+
+export type UserChannelMessage = UserOrderMessage | UserTradeMessage;
+
+// The user's side of a trade, whether they were the taker or one of the makers
+export interface UserFill {
+  orderId: string;
+  assetId: string;
+  side: 'BUY' | 'SELL';
+  size: number;
+  price: number;
+  outcome: string;
+}
+
+type MessageHandler = (message: UserChannelMessage) => void;
+type StatusHandler = (connected: boolean) => void;
+
+const PING_INTERVAL_MS = 10000;
+// Reconnects back off exponentially up to the cap and never give up (as the market channel)
+const RECONNECT_BASE_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const opposite = (side: 'BUY' | 'SELL') => (side === 'BUY' ? 'SELL' : 'BUY');
+
+type TakerTrade = Pick<UserTradeMessage, 'taker_order_id' | 'asset_id' | 'side' | 'size' | 'price' | 'outcome'>;
+
+function takerFill(trade: TakerTrade): UserFill {
+  return {
+    orderId: trade.taker_order_id,
+    assetId: trade.asset_id,
+    side: trade.side,
+    size: Number(trade.size),
+    price: Number(trade.price),
+    outcome: trade.outcome,
+  };
+}
+
+function makerFills(trade: TakerTrade & { maker_orders: UserTradeMakerOrder[] }, apiKey: string): UserFill[] {
+  return (trade.maker_orders || [])
+    .filter(order => order.owner === apiKey)
+    .map(order => ({
+      orderId: order.order_id,
+      assetId: order.asset_id,
+      // Makers on the same token are on the other side of the taker
+      side: order.side ?? (order.asset_id === trade.asset_id ? opposite(trade.side) : trade.side),
+      size: Number(order.matched_amount),
+      price: Number(order.price),
+      outcome: order.outcome,
+    }));
+}
+
+// Extract the fills that belong to `apiKey` from a trade event
+export function userFills(trade: UserTradeMessage, apiKey: string): UserFill[] {
+  return trade.trade_owner === apiKey ? [takerFill(trade)] : makerFills(trade, apiKey);
+}
+
+// Same for a trade from the REST trades endpoint, where `owner` is always the
+// caller and `trader_side` says which side of the trade they were on
+export function restTradeFills(trade: Trade, apiKey: string): UserFill[] {
+  const taker = { ...trade, side: trade.side === 'SELL' ? 'SELL' as const : 'BUY' as const };
+  return trade.trader_side === 'TAKER' ? [takerFill(taker)] : makerFills(taker, apiKey);
+}
+
+export class PolymarketUserChannel {
+  private ws: WebSocket | null = null;
+  private creds: ApiKeyCreds | null = null;
+  private messageHandlers: Set<MessageHandler> = new Set();
+  private statusHandlers: Set<StatusHandler> = new Set();
+  private reconnectAttempts = 0;
+  private reconnectTimer: number | null = null;
+  private pingInterval: number | null = null;
+
+  private readonly WS_URL = ENDPOINTS.userWs;
+
+  // Connect with the given API credentials (reconnects if they changed)
+  connect(creds: ApiKeyCreds) {
+    if (!this.WS_URL) {
+      console.log('[UserWS] No user channel URL configured, live order updates disabled');
+      return;
+    }
+    if (this.ws && this.creds?.key === creds.key) return;
+
+    this.disconnect();
+    this.creds = creds;
+    this.open();
+  }
+
+  // Disconnect and forget the credentials
+  disconnect() {
+    this.creds = null;
+    this.reconnectAttempts = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopPing();
+    if (this.ws) {
+      console.log('[UserWS] Disconnecting...');
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+      this.notifyStatus(false);
+    }
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  // API key the channel is authenticated with, used to tell the user's side of a trade
+  getApiKey(): string | null {
+    return this.creds?.key ?? null;
+  }
+
+  // Register message handler
+  onMessage(handler: MessageHandler): () => void {
+    this.messageHandlers.add(handler);
+    return () => this.messageHandlers.delete(handler);
+  }
+
+  // Register status handler
+  onStatusChange(handler: StatusHandler): () => void {
+    this.statusHandlers.add(handler);
+    return () => this.statusHandlers.delete(handler);
+  }
+
+  // Private methods
+  private open() {
+    const creds = this.creds;
+    if (!creds) return;
+
+    console.log('[UserWS] Connecting to user channel...');
+    const ws = new WebSocket(this.WS_URL);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      if (this.ws !== ws) return;
+      console.log('[UserWS] Connected, authenticating');
+      this.reconnectAttempts = 0;
+      ws.send(JSON.stringify({
+        type: 'user',
+        auth: { apiKey: creds.key, secret: creds.secret, passphrase: creds.passphrase },
+        // No market filter: receive events for every market
+        markets: [],
+      }));
+      this.startPing();
+      this.notifyStatus(true);
+    };
+
+    ws.onmessage = (event) => {
+      if (this.ws !== ws || event.data === 'PONG') return;
+      try {
+        const data = JSON.parse(event.data);
+        // Events may arrive batched in an array
+        (Array.isArray(data) ? data : [data]).forEach(item => this.handleMessage(item));
+      } catch (e) {
+        console.error('[UserWS] Failed to parse message:', event.data, e);
+      }
+    };
+
+    ws.onerror = (error) => {
+      console.error('[UserWS] Connection error:', error);
+    };
+
+    ws.onclose = (event) => {
+      if (this.ws !== ws) return;
+      console.log(`[UserWS] Disconnected (code: ${event.code}, reason: ${event.reason || 'none'})`);
+      this.ws = null;
+      this.stopPing();
+      this.notifyStatus(false);
+
+      if (!this.creds) return;
+      // Jittered so clients don't all return at once after a server restart
+      this.reconnectAttempts++;
+      const ceiling = Math.min(MAX_RECONNECT_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (this.reconnectAttempts - 1));
+      const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+      console.log(`[UserWS] Reconnecting in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts})...`);
+      this.reconnectTimer = window.setTimeout(() => {
+        this.reconnectTimer = null;
+        this.open();
+      }, delay);
+    };
+  }
+
+  private handleMessage(data: any) {
+    if (data?.event_type !== 'order' && data?.event_type !== 'trade') return;
+    this.messageHandlers.forEach(handler => handler(data as UserChannelMessage));
+  }
+
+  private notifyStatus(connected: boolean) {
+    this.statusHandlers.forEach(handler => handler(connected));
+  }
+
+  // The user channel expects a plain-text PING and answers PONG
+  private startPing() {
+    this.stopPing();
+    this.pingInterval = window.setInterval(() => {
+      if (this.isConnected()) {
+        this.ws!.send('PING');
+      }
+    }, PING_INTERVAL_MS);
+  }
+
+  private stopPing() {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+}
+
+// Singleton instance
+export const userChannel = new PolymarketUserChannel();
@@ -1,6 +1,9 @@
 // Polymarket WebSocket Service
-// Connects to wss://ws-subscriptions-clob.polymarket.com/ws/market
+// Connects to wss://ws-subscriptions-clob.polymarket.com/ws/market (see ENDPOINTS.ws)
 // All price updates come through this WebSocket - no API polling needed!
+// Runs on the main thread or inside marketFeed.worker.ts (see marketFeed.ts).
+
+import { ENDPOINTS } from "../config";
 
 export interface OrderBookLevel {
   price: string;
@@ -95,158 +98,426 @@ export type WebSocketMessage =
   | NewMarketMessage
   | MarketResolvedMessage;
 
+// good: messages flowing with a quick PONG; degraded: slow PONG or a quiet socket;
+// reconnecting: waiting to (re)open; offline: stopped or the browser has no network
+export type ConnectionQuality = "good" | "degraded" | "reconnecting" | "offline";
+
+export interface ConnectionInfo {
+  quality: ConnectionQuality;
+  // Round trip of the last PING/PONG
+  latencyMs: number | null;
+  lastMessageAt: number;
+  reconnectAttempts: number;
+}
+
 type MessageHandler = (message: WebSocketMessage) => void;
 type StatusHandler = (connected: boolean) => void;
+type QualityHandler = (info: ConnectionInfo) => void;
+// receivedAt: epoch ms when the frame arrived on the socket
+type RawHandler = (data: unknown, receivedAt: number) => void;
+
+const PING_INTERVAL_MS = 10000;
+const WATCHDOG_INTERVAL_MS = 5000;
+// No message (not even a PONG) for this long means the socket is half-open
+const STALE_CONNECTION_MS = 30000;
+const DEGRADED_AFTER_MS = 15000;
+const SLOW_LATENCY_MS = 1000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+// Token IDs per POST /books request when catching up after a reconnect
+const SNAPSHOT_BATCH_SIZE = 50;
+
+// Assets no consumer references any more stay subscribed, so reopening a recent
+// market is instant; past this many the least recently used are unsubscribed
+const MAX_IDLE_ASSETS = 20;
 
 export class PolymarketWebSocket {
   private ws: WebSocket | null = null;
   private messageHandlers: Set<MessageHandler> = new Set();
   private statusHandlers: Set<StatusHandler> = new Set();
-  private subscribedMarkets: Set<string> = new Set();
-  private subscribedAssets: Set<string> = new Set();
+  // Condition ID -> number of consumers holding it
+  private marketRefs: Map<string, number> = new Map();
+  // Asset ID -> number of consumers holding it; insertion order is least recently used first
+  private assetRefs: Map<string, number> = new Map();
+  // Assets the server currently has us subscribed to
+  private sentAssets: Set<string> = new Set();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private qualityHandlers: Set<QualityHandler> = new Set();
+  private rawHandlers: Set<RawHandler> = new Set();
+  // While muted (e.g. replaying a recording) frames from the socket are dropped
+  private liveMuted = false;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 10;
-  private reconnectDelay = 1000;
-  private pingInterval: number | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldReconnect = false;
+  private hasConnected = false;
+  private lifecycleBound = false;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private watchdogInterval: ReturnType<typeof setInterval> | null = null;
   private messageCount = 0;
+  private lastMessageAt = 0;
+  private lastPingAt = 0;
+  private latencyMs: number | null = null;
+  private quality: ConnectionQuality = "offline";
 
-  private readonly WS_URL = "wss://ws-subscriptions-clob.polymarket.com/ws/market";
+  private readonly WS_URL = ENDPOINTS.ws;
 
-  // Connect to WebSocket
+  // Connect to WebSocket. Once called, the connection is kept up until disconnect():
+  // dropped or stale sockets are replaced with jittered exponential backoff.
   connect(): Promise<void> {
+    this.shouldReconnect = true;
+    this.bindLifecycleEvents();
+    this.startWatchdog();
+    return this.open();
+  }
+
+  // Disconnect
+  disconnect() {
+    console.log("[WS] Disconnecting...");
+    this.shouldReconnect = false;
+    this.stopPing();
+    this.stopWatchdog();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      // Detach first so onclose doesn't schedule a reconnect
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+      this.notifyStatus(false);
+    }
+    this.marketRefs.clear();
+    this.assetRefs.clear();
+    this.sentAssets.clear();
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.updateQuality();
+  }
+
+  // Subscribe to a market (by condition ID). Reference counted like assets:
+  // call the returned function once the consumer no longer needs the market.
+  subscribeToMarket(conditionId: string): () => void {
+    const refs = this.marketRefs.get(conditionId) ?? 0;
+    this.marketRefs.set(conditionId, refs + 1);
+    if (refs === 0 && this.isConnected()) {
+      this.sendSubscribe(conditionId);
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.releaseMarket(conditionId);
+    };
+  }
+
+  // Subscribe to an asset (by token ID). Subscriptions are reference counted:
+  // call the returned function once the consumer no longer needs the asset.
+  // Frames are batched, so subscribing to many assets in one tick sends one message.
+  subscribeToAsset(assetId: string): () => void {
+    this.touchAsset(assetId, 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.touchAsset(assetId, -1);
+    };
+  }
+
+  // Check if connected
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  // Get stats
+  getStats() {
+    return {
+      connected: this.isConnected(),
+      subscribedMarkets: this.marketRefs.size,
+      subscribedAssets: this.assetRefs.size,
+      messagesReceived: this.messageCount,
+    };
+  }
+
+  // Called when the page becomes visible again: background tabs throttle
+  // timers, so the watchdog may not have noticed a dead socket
+  resume() {
+    if (!this.shouldReconnect) return;
+    if (!this.isConnected()) {
+      this.reconnectAttempts = 0;
+      this.reconnectNow("Tab visible while disconnected");
+    } else if (Date.now() - this.lastMessageAt > STALE_CONNECTION_MS) {
+      this.reconnectNow("Tab visible with a stale connection");
+    }
+  }
+
+  // Register message handler
+  onMessage(handler: MessageHandler): () => void {
+    this.messageHandlers.add(handler);
+    return () => this.messageHandlers.delete(handler);
+  }
+
+  // Register a tap on every live frame, known type or not (see sessionRecording.ts)
+  onRawMessage(handler: RawHandler): () => void {
+    this.rawHandlers.add(handler);
+    return () => this.rawHandlers.delete(handler);
+  }
+
+  // Dispatch a frame as if it came from the socket (replay). Not seen by raw taps.
+  injectMessage(data: unknown) {
+    this.handleMessage(data, false);
+  }
+
+  // Drop frames from the socket while a replay owns the feed
+  setLiveMuted(muted: boolean) {
+    this.liveMuted = muted;
+    console.log(`[WS] Live feed ${muted ? "muted" : "unmuted"}`);
+  }
+
+  // Register status handler
+  onStatusChange(handler: StatusHandler): () => void {
+    this.statusHandlers.add(handler);
+    return () => this.statusHandlers.delete(handler);
+  }
+
+  // Register connection quality handler (called immediately with the current state)
+  onQualityChange(handler: QualityHandler): () => void {
+    this.qualityHandlers.add(handler);
+    handler(this.getConnectionInfo());
+    return () => this.qualityHandlers.delete(handler);
+  }
+
+  getConnectionInfo(): ConnectionInfo {
+    return {
+      quality: this.quality,
+      latencyMs: this.latencyMs,
+      lastMessageAt: this.lastMessageAt,
+      reconnectAttempts: this.reconnectAttempts,
+    };
+  }
+
+  // Private methods
+  private open(): Promise<void> {
     return new Promise((resolve, reject) => {
       if (this.ws?.readyState === WebSocket.OPEN) {
         resolve();
         return;
       }
 
+      // No feed configured (e.g. mock backend) - stay offline
+      if (!this.WS_URL) {
+        console.log("[WS] No WebSocket URL configured, live updates disabled");
+        this.shouldReconnect = false;
+        this.stopWatchdog();
+        resolve();
+        return;
+      }
+
       console.log("[WS] Connecting to Polymarket WebSocket...");
       console.log("[WS] URL:", this.WS_URL);
 
-      this.ws = new WebSocket(this.WS_URL);
+      const ws = new WebSocket(this.WS_URL);
+      this.ws = ws;
+      this.updateQuality();
 
-      this.ws.onopen = () => {
-        console.log("[WS] Connected! Ready for real-time updates");
+      ws.onopen = () => {
+        if (this.ws !== ws) return;
+        const isReconnect = this.hasConnected;
+        console.log(isReconnect ? "[WS] Reconnected" : "[WS] Connected! Ready for real-time updates");
+        this.hasConnected = true;
         this.reconnectAttempts = 0;
         this.messageCount = 0;
+        this.lastMessageAt = Date.now();
         this.notifyStatus(true);
 
         // Resubscribe to any previously subscribed markets
-        if (this.subscribedMarkets.size > 0) {
-          console.log(`[WS] Re-subscribing to ${this.subscribedMarkets.size} markets...`);
-          this.subscribedMarkets.forEach(market => {
+        if (this.marketRefs.size > 0) {
+          console.log(`[WS] Re-subscribing to ${this.marketRefs.size} markets...`);
+          this.marketRefs.forEach((_, market) => {
             this.sendSubscribe(market);
           });
         }
-        if (this.subscribedAssets.size > 0) {
-          console.log(`[WS] Re-subscribing to ${this.subscribedAssets.size} assets...`);
-          this.subscribedAssets.forEach(asset => {
-            this.sendSubscribeAsset(asset);
-          });
+        this.sentAssets.clear();
+        if (this.assetRefs.size > 0) {
+          console.log(`[WS] Re-subscribing to ${this.assetRefs.size} assets...`);
+          this.flushAssets();
         }
 
         // Start ping interval to keep connection alive
         this.startPing();
+        this.updateQuality();
+
+        // Updates sent while we were away are lost, so catch up from REST
+        if (isReconnect) {
+          this.refreshSnapshots();
+        }
 
         resolve();
       };
 
-      this.ws.onmessage = (event) => {
+      ws.onmessage = (event) => {
+        if (this.ws !== ws) return;
+        this.lastMessageAt = Date.now();
+
+        if (event.data === "PONG") {
+          this.latencyMs = this.lastMessageAt - this.lastPingAt;
+          this.updateQuality(true);
+          return;
+        }
+
         try {
           const data = JSON.parse(event.data);
-          this.handleMessage(data);
+          // Initial book snapshots arrive as an array
+          (Array.isArray(data) ? data : [data]).forEach(item => this.handleMessage(item));
         } catch (e) {
           console.error("[WS] Failed to parse message:", e);
         }
       };
 
-      this.ws.onerror = (error) => {
+      ws.onerror = (error) => {
         console.error("[WS] Connection error:", error);
         reject(error);
       };
 
-      this.ws.onclose = (event) => {
+      ws.onclose = (event) => {
+        // Ignore sockets we already replaced or closed on purpose
+        if (this.ws !== ws) return;
         console.log(`[WS] Disconnected (code: ${event.code}, reason: ${event.reason || "none"})`);
+        this.ws = null;
         this.notifyStatus(false);
         this.stopPing();
-
-        // Attempt reconnect with exponential backoff
-        if (this.reconnectAttempts < this.maxReconnectAttempts) {
-          this.reconnectAttempts++;
-          const delay = this.reconnectDelay * Math.pow(1.5, this.reconnectAttempts - 1);
-          console.log(`[WS] Reconnecting in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
-          setTimeout(() => this.connect(), delay);
-        } else {
-          console.error("[WS] Max reconnection attempts reached. Please refresh the page.");
-        }
+        this.scheduleReconnect();
+        this.updateQuality();
       };
     });
   }
 
-  // Disconnect
-  disconnect() {
-    console.log("[WS] Disconnecting...");
-    this.stopPing();
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+  // Exponential backoff with jitter, retried indefinitely. The jitter spreads
+  // reconnects out so clients don't all return at once after a server restart.
+  private scheduleReconnect() {
+    if (!this.shouldReconnect || this.reconnectTimer) return;
+
+    if (navigator.onLine === false) {
+      console.log("[WS] Browser is offline, waiting for the network to return");
+      return;
     }
-    this.subscribedMarkets.clear();
-    this.subscribedAssets.clear();
+
+    this.reconnectAttempts++;
+    const ceiling = Math.min(MAX_RECONNECT_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (this.reconnectAttempts - 1));
+    const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+    console.log(`[WS] Reconnecting in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts})...`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open().catch(() => {});
+    }, delay);
   }
 
-  // Subscribe to a market (by condition ID)
-  subscribeToMarket(conditionId: string) {
-    this.subscribedMarkets.add(conditionId);
-    if (this.isConnected()) {
-      this.sendSubscribe(conditionId);
+  // Drop the current socket (if any) and open a new one right away
+  private reconnectNow(reason: string) {
+    if (!this.shouldReconnect || this.ws?.readyState === WebSocket.CONNECTING) return;
+    console.warn(`[WS] ${reason} - reconnecting`);
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      const stale = this.ws;
+      this.ws = null;
+      stale.close();
+      this.stopPing();
+      this.notifyStatus(false);
     }
+    this.open().catch(() => {});
   }
 
-  // Subscribe to an asset (by token ID)
-  subscribeToAsset(assetId: string) {
-    this.subscribedAssets.add(assetId);
-    if (this.isConnected()) {
-      this.sendSubscribeAsset(assetId);
-    }
+  // A half-open socket never fires onclose, so watch the time since the last message
+  private startWatchdog() {
+    if (this.watchdogInterval) return;
+    this.watchdogInterval = setInterval(() => {
+      if (!this.isConnected()) return;
+      const silence = Date.now() - this.lastMessageAt;
+      if (silence > STALE_CONNECTION_MS) {
+        this.reconnectNow(`No messages for ${Math.round(silence / 1000)}s`);
+      } else {
+        this.updateQuality();
+      }
+    }, WATCHDOG_INTERVAL_MS);
   }
 
-  // Unsubscribe from market
-  unsubscribeFromMarket(conditionId: string) {
-    this.subscribedMarkets.delete(conditionId);
-    if (this.isConnected()) {
-      this.sendUnsubscribe(conditionId);
+  private stopWatchdog() {
+    if (this.watchdogInterval) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
     }
   }
 
-  // Check if connected
-  isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+  // Reconnect as soon as the network returns. Also runs inside a Web Worker,
+  // where online/offline fire on the worker scope and visibility is relayed via resume().
+  private bindLifecycleEvents() {
+    if (this.lifecycleBound || typeof addEventListener === "undefined") return;
+    this.lifecycleBound = true;
+
+    addEventListener("online", () => {
+      this.reconnectAttempts = 0;
+      if (!this.isConnected()) this.reconnectNow("Network is back online");
+    });
+    addEventListener("offline", () => this.updateQuality());
+    if (typeof document !== "undefined") {
+      document.addEventListener("visibilitychange", () => {
+        if (document.visibilityState === "visible") this.resume();
+      });
+    }
   }
 
-  // Get stats
-  getStats() {
-    return {
-      connected: this.isConnected(),
-      subscribedMarkets: this.subscribedMarkets.size,
-      subscribedAssets: this.subscribedAssets.size,
-      messagesReceived: this.messageCount,
-    };
+  // Fetch a REST snapshot for every subscribed asset and deliver it as a book
+  // event, so the order book store and price displays cover the outage gap
+  private async refreshSnapshots() {
+    const assetIds = [...this.assetRefs.keys()];
+    if (assetIds.length === 0) return;
+    console.log(`[WS] Refreshing ${assetIds.length} order books after reconnect`);
+
+    for (let i = 0; i < assetIds.length; i += SNAPSHOT_BATCH_SIZE) {
+      const batch = assetIds.slice(i, i + SNAPSHOT_BATCH_SIZE);
+      try {
+        const response = await fetch(`${ENDPOINTS.clob}/books`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(batch.map(token_id => ({ token_id }))),
+        });
+        if (!response.ok) throw new Error(`Books request failed (${response.status})`);
+        const books = await response.json();
+        (Array.isArray(books) ? books : []).forEach(book => {
+          this.handleMessage({ ...book, event_type: "book" });
+        });
+      } catch (error) {
+        console.error("[WS] Failed to refresh order books:", error);
+      }
+    }
   }
 
-  // Register message handler
-  onMessage(handler: MessageHandler): () => void {
-    this.messageHandlers.add(handler);
-    return () => this.messageHandlers.delete(handler);
+  private computeQuality(): ConnectionQuality {
+    if (this.isConnected()) {
+      const quiet = Date.now() - this.lastMessageAt > DEGRADED_AFTER_MS;
+      const slow = this.latencyMs !== null && this.latencyMs > SLOW_LATENCY_MS;
+      return quiet || slow ? "degraded" : "good";
+    }
+    if (this.shouldReconnect && navigator.onLine !== false) return "reconnecting";
+    return "offline";
   }
 
-  // Register status handler
-  onStatusChange(handler: StatusHandler): () => void {
-    this.statusHandlers.add(handler);
-    return () => this.statusHandlers.delete(handler);
+  // Handlers hear about quality changes, plus every latency sample when forced
+  private updateQuality(force = false) {
+    const quality = this.computeQuality();
+    if (quality === this.quality && !force) return;
+    this.quality = quality;
+    const info = this.getConnectionInfo();
+    this.qualityHandlers.forEach(handler => handler(info));
   }
 
-  // Private methods
   private sendSubscribe(conditionId: string) {
     this.send({
       type: "subscribe",
@@ -255,12 +526,78 @@ export class PolymarketWebSocket {
     });
   }
 
-  private sendSubscribeAsset(assetId: string) {
-    this.send({
-      type: "subscribe",
-      channel: "market",
-      assets_ids: [assetId],
+  // Drop one reference; the last one unsubscribes
+  private releaseMarket(conditionId: string) {
+    const refs = (this.marketRefs.get(conditionId) ?? 0) - 1;
+    if (refs > 0) {
+      this.marketRefs.set(conditionId, refs);
+      return;
+    }
+    this.marketRefs.delete(conditionId);
+    if (this.isConnected()) {
+      this.sendUnsubscribe(conditionId);
+    }
+  }
+
+  // Adjust an asset's reference count and mark it most recently used
+  private touchAsset(assetId: string, delta: number) {
+    const refs = Math.max(0, (this.assetRefs.get(assetId) ?? 0) + delta);
+    this.assetRefs.delete(assetId);
+    this.assetRefs.set(assetId, refs);
+    this.evictIdleAssets();
+    this.scheduleFlush();
+  }
+
+  // Drop unreferenced assets, least recently used first, down to MAX_IDLE_ASSETS.
+  // The next flush unsubscribes them.
+  private evictIdleAssets() {
+    let idle = 0;
+    this.assetRefs.forEach(refs => {
+      if (refs === 0) idle++;
     });
+    for (const [assetId, refs] of this.assetRefs) {
+      if (idle <= MAX_IDLE_ASSETS) break;
+      if (refs === 0) {
+        this.assetRefs.delete(assetId);
+        idle--;
+      }
+    }
+  }
+
+  // Coalesce subscription changes made in the same tick into one frame each way
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flushAssets();
+    }, 0);
+  }
+
+  // Bring the server's subscription set in line with assetRefs
+  private flushAssets() {
+    if (!this.isConnected()) return;
+
+    const toSubscribe = [...this.assetRefs.keys()].filter(assetId => !this.sentAssets.has(assetId));
+    const toUnsubscribe = [...this.sentAssets].filter(assetId => !this.assetRefs.has(assetId));
+
+    if (toUnsubscribe.length > 0) {
+      this.send({
+        type: "unsubscribe",
+        channel: "market",
+        assets_ids: toUnsubscribe,
+      });
+      toUnsubscribe.forEach(assetId => this.sentAssets.delete(assetId));
+    }
+    if (toSubscribe.length > 0) {
+      this.send({
+        type: "subscribe",
+        channel: "market",
+        assets_ids: toSubscribe,
+        // Also deliver best_bid_ask, new_market and market_resolved events
+        custom_feature_enabled: true,
+      });
+      toSubscribe.forEach(assetId => this.sentAssets.add(assetId));
+    }
   }
 
   private sendUnsubscribe(conditionId: string) {
@@ -277,7 +614,13 @@ export class PolymarketWebSocket {
     }
   }
 
-  private handleMessage(data: any) {
+  private handleMessage(data: any, live = true) {
+    if (live) {
+      if (this.liveMuted) return;
+      this.rawHandlers.forEach(handler => handler(data, this.lastMessageAt));
+    }
+    if (!data || typeof data !== "object") return;
+
     this.messageCount++;
 
     // Log first few messages for debugging
@@ -307,12 +650,15 @@ export class PolymarketWebSocket {
     this.statusHandlers.forEach(handler => handler(connected));
   }
 
+  // The feed expects a plain-text PING and answers PONG, which also measures latency
   private startPing() {
-    this.pingInterval = window.setInterval(() => {
+    this.stopPing();
+    this.pingInterval = setInterval(() => {
       if (this.isConnected()) {
-        this.send({ type: "ping" });
+        this.lastPingAt = Date.now();
+        this.ws!.send("PING");
       }
-    }, 30000);
+    }, PING_INTERVAL_MS);
   }
 
   private stopPing() {
@@ -0,0 +1,56 @@
+// Endpoint configuration shared by the React app and the legacy pages
+//
+// Every Polymarket host can be overridden with a VITE_*_URL variable.
+// Gamma and the data API are reached through the first-party proxy in
+// server/apiProxy.ts (/api/gamma, /api/data), which caches and coalesces requests.
+// Set VITE_BACKEND=mock to point everything at the bundled mock server
+// (server/mockBackend.ts), which serves markets, order books, positions,
+// orders and relayer transactions from fixtures so the app runs offline.
+
+export type BackendMode = 'live' | 'mock';
+
+export const BACKEND_MODE: BackendMode = import.meta.env.VITE_BACKEND === 'mock' ? 'mock' : 'live';
+
+export interface Endpoints {
+  clob: string;
+  gamma: string;
+  dataApi: string;
+  // Market channel WebSocket - empty string disables the live feed
+  ws: string;
+  // Authenticated user channel (order and trade events) - empty string disables it
+  userWs: string;
+}
+
+// The ClobClient needs absolute URLs, so same-origin routes are resolved against the page origin
+const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+const LIVE_ENDPOINTS: Endpoints = {
+  clob: 'https://clob.polymarket.com',
+  gamma: `${origin}/api/gamma`,
+  dataApi: `${origin}/api/data`,
+  ws: 'wss://ws-subscriptions-clob.polymarket.com/ws/market',
+  userWs: 'wss://ws-subscriptions-clob.polymarket.com/ws/user',
+};
+
+const MOCK_ENDPOINTS: Endpoints = {
+  clob: `${origin}/mock/clob`,
+  gamma: `${origin}/mock/gamma`,
+  dataApi: `${origin}/mock/data`,
+  ws: '',
+  userWs: '',
+};
+
+const defaults = BACKEND_MODE === 'mock' ? MOCK_ENDPOINTS : LIVE_ENDPOINTS;
+
+export const ENDPOINTS: Endpoints = {
+  clob: import.meta.env.VITE_CLOB_URL || defaults.clob,
+  gamma: import.meta.env.VITE_GAMMA_URL || defaults.gamma,
+  dataApi: import.meta.env.VITE_DATA_API_URL || defaults.dataApi,
+  ws: import.meta.env.VITE_WS_URL ?? defaults.ws,
+  userWs: import.meta.env.VITE_USER_WS_URL ?? defaults.userWs,
+};
+
+// Build a Gamma API URL (path includes the query string, e.g. "/markets?limit=50")
+export function gammaUrl(path: string): string {
+  return `${ENDPOINTS.gamma}${path}`;
+}
@@ -2,8 +2,10 @@ import { ethers } from "ethers";
 import { ClobClient, Side, OrderType } from "@polymarket/clob-client";
 import type { ApiKeyCreds, TickSize } from "@polymarket/clob-client";
 import { updateState } from "./utils/state";
+import { isMultipleOfTick } from "./utils/tick";
+import { ENDPOINTS } from "./config";
 
-const HOST = "https://clob.polymarket.com";
+const HOST = ENDPOINTS.clob;
 const CHAIN_ID = 137; // Polygon mainnet
 const SIGNATURE_TYPE = 0; // 0=EOA, 1=POLY_PROXY, 2=GNOSIS_SAFE
 
@@ -146,14 +148,6 @@ function parsePositiveNumber(name: string, value: string) {
   return n;
 }
 
-function isMultipleOfTick(price: number, tickSize: TickSize) {
-  const t = Number(tickSize);
-  const scale = 1e8;
-  const a = Math.round(price * scale);
-  const b = Math.round(t * scale);
-  return b !== 0 && a % b === 0;
-}
-
 async function approveIfNeededERC20(
   token: ethers.Contract,
   owner: string,
@@ -591,18 +585,25 @@ btnPlace.onclick = async () => {
 
     const side = sideEl.value === "BUY" ? Side.BUY : Side.SELL;
 
-    // Note: createAndPostOrder only supports GTC and GTD
-    // FOK/FAK are immediate-or-cancel types that use different methods
-    const orderType = orderTypeEl.value === "GTD" ? OrderType.GTD : OrderType.GTC;
-
     setStatus("Submitting order…", true);
 
     if (!client) throw new Error("Client not initialized.");
-    const resp = await client.createAndPostOrder(
-      { tokenID, price, size, side },
-      { tickSize: lastVerify.tickSize, negRisk: lastVerify.negRisk },
-      orderType
-    );
+
+    // createAndPostOrder only supports GTC and GTD
+    // FOK/FAK go through createAndPostMarketOrder, with price as the worst acceptable price
+    // (market BUY amounts are in USDC, SELL amounts in shares)
+    const isMarketOrder = orderTypeEl.value === "FOK" || orderTypeEl.value === "FAK";
+    const resp = isMarketOrder
+      ? await client.createAndPostMarketOrder(
+          { tokenID, price, amount: side === Side.BUY ? price * size : size, side },
+          { tickSize: lastVerify.tickSize, negRisk: lastVerify.negRisk },
+          orderTypeEl.value === "FAK" ? OrderType.FAK : OrderType.FOK
+        )
+      : await client.createAndPostOrder(
+          { tokenID, price, size, side },
+          { tickSize: lastVerify.tickSize, negRisk: lastVerify.negRisk },
+          orderTypeEl.value === "GTD" ? OrderType.GTD : OrderType.GTC
+        );
 
     setStatus(`Order submitted ✅ orderID=${resp.orderID} status=${resp.status}`, true);
     write({ orderResponse: resp });
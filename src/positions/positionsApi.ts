@@ -2,6 +2,7 @@ import { Side, OrderType } from "@polymarket/clob-client";
 import { appState } from "../utils/state";
 import { write, setStatus } from "../utils/logger";
 import type { Position } from "../types";
+import { ENDPOINTS } from "../config";
 
 /**
  * Fetch all positions (balances) for the connected wallet
@@ -48,7 +49,7 @@ export async function fetchPositionsREST(): Promise<any[]> {
     setStatus("Fetching positions...", true);
 
     // Use Polymarket data API for positions
-    const url = `https://data-api.polymarket.com/positions?sizeThreshold=1&limit=100&sortBy=TOKENS&sortDirection=DESC&user=${appState.signerAddress}`;
+    const url = `${ENDPOINTS.dataApi}/positions?sizeThreshold=1&limit=100&sortBy=TOKENS&sortDirection=DESC&user=${appState.signerAddress}`;
 
     const response = await fetch(url, {
       method: "GET",
@@ -131,7 +132,7 @@ export async function fetchTradeHistory(): Promise<any[]> {
     setStatus("Fetching trade history...", true);
 
     const response = await fetch(
-      `https://gamma-api.polymarket.com/trades?user=${appState.signerAddress.toLowerCase()}`,
+      `${ENDPOINTS.gamma}/trades?user=${appState.signerAddress.toLowerCase()}`,
       {
         method: "GET",
         headers: {
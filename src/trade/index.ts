@@ -11,9 +11,10 @@ import {
   formatPriceChange,
   type Market,
 } from "./marketsApi";
+import { ENDPOINTS } from "../config";
 
 // Constants
-const HOST = "https://clob.polymarket.com";
+const HOST = ENDPOINTS.clob;
 const CHAIN_ID = 137;
 const SIGNATURE_TYPE = 0;
 
@@ -87,8 +88,6 @@ let userPositions: Position[] = [];
 let userOrders: Order[] = [];
 let positionsWithOnChainBalances: (Position & { onChainBalance: number })[] = [];
 
-const CORS_PROXY = "https://corsproxy.io/?url=";
-
 // DOM Elements
 const $ = (id: string) => document.getElementById(id);
 
@@ -788,21 +787,12 @@ async function fetchAndRenderPositions() {
 
   try {
     // Use same API as old page - direct call with sizeThreshold=1
-    const apiUrl = `https://data-api.polymarket.com/positions?sizeThreshold=1&limit=100&sortBy=TOKENS&sortDirection=DESC&user=${signerAddress.toLowerCase()}`;
+    const apiUrl = `${ENDPOINTS.dataApi}/positions?sizeThreshold=1&limit=100&sortBy=TOKENS&sortDirection=DESC&user=${signerAddress.toLowerCase()}`;
 
-    let data;
-    try {
-      // Try direct call first (works if CORS allows)
-      const response = await fetch(apiUrl);
-      data = await response.json();
-      console.log("Direct API call succeeded:", data?.length, "positions");
-    } catch (corsError) {
-      // Fall back to CORS proxy if direct call fails
-      console.log("Direct call failed, using CORS proxy...");
-      const proxyUrl = `${CORS_PROXY}${encodeURIComponent(apiUrl)}`;
-      const response = await fetch(proxyUrl);
-      data = await response.json();
-    }
+    // Same-origin /api/data proxy, so no CORS fallback is needed
+    const response = await fetch(apiUrl);
+    const data = await response.json();
+    console.log("Positions API call succeeded:", data?.length, "positions");
 
     console.log("Raw positions data:", data);
 
@@ -1,7 +1,6 @@
 // Markets API - Fetches live markets from Gamma API with polling
 
-const GAMMA_API_BASE = "https://gamma-api.polymarket.com";
-const CORS_PROXY = "https://corsproxy.io/?url=";
+import { gammaUrl } from "../config";
 
 export interface Market {
   id: string;
@@ -85,8 +84,7 @@ export async function fetchMarkets(options: {
     closed: String(options.closed ?? false),
   });
 
-  const apiUrl = `${GAMMA_API_BASE}/markets?${params}`;
-  const url = `${CORS_PROXY}${encodeURIComponent(apiUrl)}`;
+  const url = gammaUrl(`/markets?${params}`);
 
   try {
     const response = await fetch(url);
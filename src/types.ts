@@ -1,4 +1,5 @@
 import type { ApiKeyCreds, TickSize } from "@polymarket/clob-client";
+import { ENDPOINTS } from "./config";
 
 export interface AppState {
   provider: any | null;
@@ -50,7 +51,7 @@ export interface TradeHistory {
   order_id?: string;
 }
 
-export const HOST = "https://clob.polymarket.com";
+export const HOST = ENDPOINTS.clob;
 export const CHAIN_ID = 137;
 export const SIGNATURE_TYPE = 0;
 
@@ -0,0 +1,26 @@
+// Tick size helpers shared by the legacy pages and the React app
+// Prices are compared on a 1e8 integer grid to avoid float remainders (0.3 % 0.1 !== 0).
+
+const SCALE = 1e8;
+
+export function isMultipleOfTick(price: number, tickSize: string | number) {
+  const t = Number(tickSize);
+  const a = Math.round(price * SCALE);
+  const b = Math.round(t * SCALE);
+  return b !== 0 && a % b === 0;
+}
+
+// Number of decimals a tick size allows ("0.01" -> 2, "0.001" -> 3)
+export function tickDecimals(tickSize: string | number) {
+  const t = Number(tickSize);
+  return t > 0 ? Math.max(0, Math.round(-Math.log10(t))) : 2;
+}
+
+// Round a price to the nearest tick, kept inside [tick, 1 - tick]
+export function snapToTick(price: number, tickSize: string | number) {
+  const t = Number(tickSize);
+  if (!(t > 0)) return price;
+  const snapped = Math.round(price / t) * t;
+  const clamped = Math.min(Math.max(snapped, t), 1 - t);
+  return Number(clamped.toFixed(tickDecimals(t)));
+}